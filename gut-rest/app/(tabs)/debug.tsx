@@ -13,6 +13,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { databaseService } from "@/services/database";
+import { MigrationStatus, SchemaStatus } from "@/types";
 
 interface TableInfo {
   name: string;
@@ -31,6 +32,7 @@ export default function DebugScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
 
   // Theme colors
   const textColor = useThemeColor({}, "text");
@@ -48,8 +50,18 @@ export default function DebugScreen() {
     setIsLoading(true);
     setError(null);
 
+    const loadSchemaStatus = async () => {
+      try {
+        setSchemaStatus(await databaseService.getSchemaStatus());
+      } catch (err) {
+        console.error("Failed to load schema status:", err);
+        setSchemaStatus(null);
+      }
+    };
+
     try {
       await databaseService.initialize();
+      await loadSchemaStatus();
 
       // Get table schemas
       const tableSchemas = await databaseService.getTableSchemas();
@@ -70,6 +82,8 @@ export default function DebugScreen() {
       setTableData(allTableData);
     } catch (err) {
       console.error("Failed to load debug data:", err);
+      // Still show migration state so a failed upgrade can be diagnosed
+      await loadSchemaStatus();
       setError(
         err instanceof Error ? err.message : "Failed to load debug data"
       );
@@ -115,6 +129,17 @@ export default function DebugScreen() {
     loadDebugData();
   }, []);
 
+  const getMigrationIcon = (state: MigrationStatus["state"]) => {
+    switch (state) {
+      case "applied":
+        return "✅";
+      case "failed":
+        return "❌";
+      default:
+        return "⏳";
+    }
+  };
+
   const renderTableSchema = (table: TableInfo) => (
     <ThemedView key={`schema-${table.name}`} style={styles.tableContainer}>
       <ThemedText type="subtitle" style={styles.tableName}>
@@ -306,6 +331,35 @@ export default function DebugScreen() {
             </ThemedView>
           )}
 
+          {/* Schema Migrations */}
+          {!isLoading && schemaStatus && (
+            <ThemedView style={styles.infoCard}>
+              <ThemedText type="subtitle" style={styles.infoTitle}>
+                🧬 Schema Migrations
+              </ThemedText>
+              <ThemedText type="default" style={styles.infoText}>
+                • Version: {schemaStatus.currentVersion} of{" "}
+                {schemaStatus.latestVersion}
+              </ThemedText>
+              {schemaStatus.migrations.map((migration) => (
+                <ThemedView
+                  key={`migration-${migration.version}`}
+                  style={styles.migrationRow}
+                >
+                  <ThemedText type="default" style={styles.infoText}>
+                    {getMigrationIcon(migration.state)} {migration.version}.{" "}
+                    {migration.name} ({migration.state})
+                  </ThemedText>
+                  {migration.error && (
+                    <ThemedText type="default" style={styles.errorText}>
+                      {migration.error}
+                    </ThemedText>
+                  )}
+                </ThemedView>
+              ))}
+            </ThemedView>
+          )}
+
           {/* Table Schemas */}
           {!isLoading && tables.length > 0 && (
             <ThemedView style={styles.section}>
@@ -423,6 +477,9 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     marginBottom: 2,
   },
+  migrationRow: {
+    marginTop: 2,
+  },
   section: {
     gap: 12,
   },
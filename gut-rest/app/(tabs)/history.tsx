@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useEffect } from "react";
-import { StyleSheet, Dimensions } from "react-native";
+import { StyleSheet, Dimensions, Pressable } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
   PanGestureHandler,
@@ -16,47 +16,90 @@ import Animated, {
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { CompactHistoryView } from "@/components/history/CompactHistoryView";
+import { UndoSnackbar } from "@/components/UndoSnackbar";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
 import { databaseService } from "@/services/database";
 import { DailySummary } from "@/types";
+import { router, useLocalSearchParams } from "expo-router";
 import {
   getTodayDateString,
   getDateStringWithOffset,
   getLocalDateString,
+  parseDateString,
 } from "@/services/dateUtils";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.1;
 
+const DATE_PARAM_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 export default function HistoryScreen() {
+  const params = useLocalSearchParams<{ date?: string }>();
   const [currentDate, setCurrentDate] = useState(() => getTodayDateString());
   const [dailySummary, setDailySummary] = useState<DailySummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { deleteMealEntry } = useMealData();
+  const {
+    settings: { fastingGoalHours, dayStartHour },
+  } = useSettings();
 
   // Animation values for swipe
   const translateX = useSharedValue(0);
   const opacity = useSharedValue(1);
 
-  const loadDayData = useCallback(async (dateString: string) => {
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      await databaseService.initialize();
-      const summary = await databaseService.getDailySummary(dateString);
-      setDailySummary(summary);
-    } catch (err) {
-      console.error("Failed to load day data:", err);
-      setError("Failed to load meal history");
-    } finally {
-      setIsLoading(false);
+  const loadDayData = useCallback(
+    async (dateString: string) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        await databaseService.initialize();
+        const summary = await databaseService.getDailySummary(
+          dateString,
+          fastingGoalHours
+        );
+        setDailySummary(summary);
+      } catch (err) {
+        console.error("Failed to load day data:", err);
+        setError("Failed to load meal history");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [fastingGoalHours]
+  );
+
+  // Jump to the date requested by another screen (e.g. search results)
+  useEffect(() => {
+    const requestedDate = params.date;
+    if (
+      requestedDate &&
+      DATE_PARAM_PATTERN.test(requestedDate) &&
+      requestedDate <= getTodayDateString()
+    ) {
+      setCurrentDate(requestedDate);
     }
-  }, []);
+  }, [params.date]);
 
-  // Load data when date changes
+  // Load data when date changes, or when a new day start moves its bounds
   useEffect(() => {
     loadDayData(currentDate);
-  }, [currentDate, loadDayData]);
+  }, [currentDate, loadDayData, dayStartHour]);
+
+  const handleDeleteEntry = useCallback(
+    async (id: string) => {
+      try {
+        await deleteMealEntry(id);
+        await loadDayData(currentDate);
+      } catch (err) {
+        console.error("Failed to delete meal entry:", err);
+      }
+    },
+    [deleteMealEntry, loadDayData, currentDate]
+  );
 
   const goToPreviousDay = useCallback(() => {
     const previousDate = getDateStringWithOffset(currentDate, -1);
@@ -107,7 +150,7 @@ export default function HistoryScreen() {
   });
 
   const formatDateHeader = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = parseDateString(dateString);
     const today = getTodayDateString();
     const yesterday = getDateStringWithOffset(today, -1);
 
@@ -134,7 +177,39 @@ export default function HistoryScreen() {
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaView style={styles.container}>
         <ThemedView style={styles.header}>
-          <ThemedText type="title">History</ThemedText>
+          <ThemedView style={styles.titleRow}>
+            <ThemedText type="title">History</ThemedText>
+            <ThemedView style={styles.headerActions}>
+              <Pressable
+                onPress={() => router.push("/search")}
+                style={styles.trashButton}
+                accessibilityLabel="Search notes"
+              >
+                <ThemedText style={styles.trashIcon}>🔍</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push("/heatmap")}
+                style={styles.trashButton}
+                accessibilityLabel="Open eating times heatmap"
+              >
+                <ThemedText style={styles.trashIcon}>🗓️</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push("/data-transfer")}
+                style={styles.trashButton}
+                accessibilityLabel="Export or import meal log"
+              >
+                <ThemedText style={styles.trashIcon}>📤</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => router.push("/trash")}
+                style={styles.trashButton}
+                accessibilityLabel="Open trash"
+              >
+                <ThemedText style={styles.trashIcon}>🗑️</ThemedText>
+              </Pressable>
+            </ThemedView>
+          </ThemedView>
           <ThemedView style={styles.dateNavigation}>
             <ThemedText type="subtitle" style={styles.dateText}>
               {formatDateHeader(currentDate)}
@@ -156,10 +231,15 @@ export default function HistoryScreen() {
               isLoading={isLoading}
               error={error}
               onRefresh={() => loadDayData(currentDate)}
+              onDeleteEntry={handleDeleteEntry}
               currentDate={currentDate}
+              tagFilter={selectedTags}
+              onTagFilterChange={setSelectedTags}
             />
           </Animated.View>
         </PanGestureHandler>
+
+        <UndoSnackbar onUndo={() => loadDayData(currentDate)} />
       </SafeAreaView>
     </GestureHandlerRootView>
   );
@@ -173,6 +253,26 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 10,
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  trashButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  trashIcon: {
+    fontSize: 22,
+    lineHeight: 28,
+  },
   dateNavigation: {
     marginTop: 8,
     alignItems: "center",
@@ -1,13 +1,24 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { StyleSheet } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { FloatingActionButton } from "@/components/FloatingActionButton";
+import { UndoSnackbar } from "@/components/UndoSnackbar";
+import { TagFilterChips } from "@/components/TagFilterChips";
+import { TimeZoneChangeNotice } from "@/components/TimeZoneChangeNotice";
 import { TimelineList } from "@/components/timeline/TimelineList";
+import { NextMealCard } from "@/components/timeline/NextMealCard";
 import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useFasting } from "@/contexts/FastingContext";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
+import { getFastingProtocol } from "@/constants/Fasting";
 import { GlobalStyles } from "@/styles/globals";
+import { collectTags, matchesAnyTag } from "@/services/tagUtils";
+import { getTodayDateString, parseDateString } from "@/services/dateUtils";
 import { router } from "expo-router";
 
 export default function TimelineScreen() {
@@ -19,8 +30,36 @@ export default function TimelineScreen() {
     refreshData,
     deleteMealEntry,
   } = useMealData();
+  const {
+    settings: { fastingGoalHours },
+  } = useSettings();
+  const { activeSession, currentProtocol } = useFasting();
 
   const [refreshing, setRefreshing] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const todayTags = useMemo(() => collectTags(todayEntries), [todayEntries]);
+
+  // Drop filters for tags that no longer appear today
+  const activeTags = useMemo(
+    () => selectedTags.filter((tag) => todayTags.includes(tag)),
+    [selectedTags, todayTags]
+  );
+  const visibleEntries = useMemo(
+    () => todayEntries.filter((entry) => matchesAnyTag(entry.tags, activeTags)),
+    [todayEntries, activeTags]
+  );
+
+  // Meals that decide the next-meal card, ignoring water and tag filters
+  const todayMeals = useMemo(
+    () =>
+      todayEntries.filter((entry) => doesCategoryBreakFasting(entry.category)),
+    [todayEntries]
+  );
+  const protocol = currentProtocol?.protocolId
+    ? getFastingProtocol(currentProtocol.protocolId)
+    : undefined;
+  const fastingHours = protocol?.fastingHours ?? fastingGoalHours;
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -54,7 +93,7 @@ export default function TimelineScreen() {
       <ThemedView style={styles.header}>
         <ThemedText type="title">Today&apos;s Timeline</ThemedText>
         <ThemedText type="default" style={styles.dateText}>
-          {new Date().toLocaleDateString("en-US", {
+          {parseDateString(getTodayDateString()).toLocaleDateString("en-US", {
             weekday: "long",
             year: "numeric",
             month: "long",
@@ -71,10 +110,34 @@ export default function TimelineScreen() {
             </ThemedText>
           </ThemedView>
         )}
+
+        <TimeZoneChangeNotice changes={todaySummary?.timeZoneChanges ?? []} />
+
+        <NextMealCard
+          lastMeal={todayMeals[todayMeals.length - 1] ?? null}
+          firstMealToday={todayMeals[0] ?? null}
+          activeSession={activeSession}
+          eatingWindowHours={protocol?.eatingWindowHours ?? 24 - fastingHours}
+          fastingHours={fastingHours}
+          isFastDay={
+            currentProtocol
+              ? TimeCalculationService.isProtocolFastDay(
+                  currentProtocol,
+                  getTodayDateString()
+                )
+              : false
+          }
+        />
+
+        <TagFilterChips
+          tags={todayTags}
+          selectedTags={activeTags}
+          onChange={setSelectedTags}
+        />
       </ThemedView>
 
       <TimelineList
-        entries={todayEntries}
+        entries={visibleEntries}
         gaps={todaySummary?.gaps || []}
         isLoading={isLoading}
         error={error}
@@ -82,8 +145,11 @@ export default function TimelineScreen() {
         onRefresh={handleRefresh}
         onDeleteEntry={handleDeleteEntry}
         onEditEntry={handleEditEntry}
+        digestionEntries={todayEntries}
       />
 
+      <UndoSnackbar />
+
       <FloatingActionButton />
     </SafeAreaView>
   );
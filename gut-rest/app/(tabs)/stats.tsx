@@ -1,28 +1,89 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { StyleSheet, ScrollView, RefreshControl } from "react-native";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  Pressable,
+  Alert,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { FastingStatus, FastingTracker } from "@/components/stats";
+import {
+  FastingStatus,
+  FastingTracker,
+  InsightsCard,
+  StreaksCard,
+  TagBreakdown,
+  TrendCharts,
+} from "@/components/stats";
 import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useFasting } from "@/contexts/FastingContext";
+import { EXTEND_SESSION_HOURS, getFastingProtocol } from "@/constants/Fasting";
 import { databaseService } from "@/services/database";
-import { MealEntry } from "@/types";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { StreakService } from "@/services/StreakService";
+import {
+  InsightsRange,
+  MealEntry,
+  PeriodComparison,
+  StreakDayOutcome,
+  StreakResult,
+  StreakType,
+} from "@/types";
 import { GlobalStyles } from "@/styles/globals";
 import { doesCategoryBreakFasting } from "@/constants/MealCategories";
-import { getYesterdayDateString } from "@/services/dateUtils";
+import { STREAK_GRACE_PERIOD_DAYS } from "@/constants/Settings";
+import { getPresetInsightsRange } from "@/constants/Insights";
+import {
+  getYesterdayDateString,
+  getTodayDateString,
+  getDateStringWithOffset,
+  getEntryDateString,
+  getDaysBetween,
+  createDateRange,
+} from "@/services/dateUtils";
+
+const TAG_BREAKDOWN_DAYS = 30;
+const TREND_CHART_DAYS = 14; // Charted from the tag breakdown's entries
 
 export default function StatsScreen() {
   const {
     todayEntries,
+    todaySummary,
+    pastDataVersion,
     isLoading: contextLoading,
     error: contextError,
     refreshData,
   } = useMealData();
+  const {
+    settings: { fastingGoalHours, dayStartHour, streakGraceDays },
+  } = useSettings();
+  const {
+    activeSession,
+    currentProtocol,
+    protocolHistory,
+    endFast,
+    extendFast,
+    refreshSessions,
+  } = useFasting();
 
   const [yesterdayLastMeal, setYesterdayLastMeal] = useState<MealEntry | null>(
     null
   );
+  const [recentEntries, setRecentEntries] = useState<MealEntry[]>([]);
+  const [streaks, setStreaks] = useState<Record<
+    StreakType,
+    StreakResult
+  > | null>(null);
+  const [insightsRange, setInsightsRange] = useState<InsightsRange>(() =>
+    getPresetInsightsRange("7d")
+  );
+  const [insights, setInsights] = useState<PeriodComparison | null>(null);
+  const [insightsLoading, setInsightsLoading] = useState(false);
   const [historicalLoading, setHistoricalLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +116,14 @@ export default function StatsScreen() {
       } else {
         setYesterdayLastMeal(null);
       }
+
+      const today = getTodayDateString();
+      setRecentEntries(
+        await databaseService.getMealEntriesInRange(
+          getDateStringWithOffset(today, -(TAG_BREAKDOWN_DAYS - 1)),
+          today
+        )
+      );
     } catch (err) {
       console.error("Failed to load historical data:", err);
       setError("Failed to load historical data");
@@ -63,20 +132,189 @@ export default function StatsScreen() {
     }
   }, [getYesterdayLocalDateString]);
 
+  // Outcomes of the days before today, reused until a change reaches them
+  const pastOutcomesRef = useRef<{
+    throughDate: string;
+    pastDataVersion: number;
+    dayStartHour: number;
+    protocolHistory: typeof protocolHistory;
+    fastingGoalHours: number;
+    outcomes: StreakDayOutcome[];
+  } | null>(null);
+
+  // Streaks span the full history, from the first entry ever logged
+  const loadStreaks = useCallback(async () => {
+    try {
+      const today = getTodayDateString();
+      const yesterday = getDateStringWithOffset(today, -1);
+
+      const cached = pastOutcomesRef.current;
+      let pastOutcomes =
+        cached &&
+        cached.throughDate === yesterday &&
+        cached.pastDataVersion === pastDataVersion &&
+        cached.dayStartHour === dayStartHour &&
+        cached.protocolHistory === protocolHistory &&
+        cached.fastingGoalHours === fastingGoalHours
+          ? cached.outcomes
+          : null;
+
+      if (!pastOutcomes) {
+        const firstEntry = await databaseService.getFirstMealEntry();
+        if (!firstEntry) {
+          setStreaks(null);
+          return;
+        }
+
+        const pastEntries = await databaseService.getMealEntriesInRange(
+          getEntryDateString(firstEntry),
+          yesterday
+        );
+        pastOutcomes = StreakService.evaluateDays(
+          pastEntries,
+          protocolHistory,
+          fastingGoalHours,
+          yesterday
+        );
+        pastOutcomesRef.current = {
+          throughDate: yesterday,
+          pastDataVersion,
+          dayStartHour,
+          protocolHistory,
+          fastingGoalHours,
+          outcomes: pastOutcomes,
+        };
+      }
+
+      const recentEntries = await databaseService.getMealEntriesInRange(
+        yesterday,
+        today
+      );
+      setStreaks(
+        StreakService.calculateStreaksFromOutcomes(
+          [
+            ...pastOutcomes,
+            StreakService.evaluateDay(
+              recentEntries,
+              protocolHistory,
+              fastingGoalHours,
+              today
+            ),
+          ],
+          {
+            missedDays: streakGraceDays,
+            periodDays: STREAK_GRACE_PERIOD_DAYS,
+          },
+          today
+        )
+      );
+    } catch (err) {
+      console.error("Failed to load streaks:", err);
+      setError("Failed to load streaks");
+    }
+  }, [
+    protocolHistory,
+    fastingGoalHours,
+    dayStartHour,
+    streakGraceDays,
+    pastDataVersion,
+  ]);
+
+  // Load the chosen period together with the one just before it
+  const loadInsights = useCallback(async () => {
+    try {
+      setInsightsLoading(true);
+
+      const { startDate, endDate } = insightsRange;
+      const periodDays = getDaysBetween(startDate, endDate) + 1;
+      const summaries = await databaseService.getDailySummariesInRange(
+        getDateStringWithOffset(startDate, -periodDays),
+        endDate,
+        fastingGoalHours
+      );
+
+      // Unlogged days would read as zero meals and drag every average down
+      const loggedDays = (days: typeof summaries) =>
+        days.filter((summary) => summary.totalEntries > 0);
+
+      setInsights({
+        current: TimeCalculationService.analyzeEatingPatterns(
+          loggedDays(summaries.slice(periodDays))
+        ),
+        previous: TimeCalculationService.analyzeEatingPatterns(
+          loggedDays(summaries.slice(0, periodDays))
+        ),
+        periodDays,
+      });
+    } catch (err) {
+      console.error("Failed to load insights:", err);
+      setInsights(null);
+    } finally {
+      setInsightsLoading(false);
+    }
+  }, [insightsRange, fastingGoalHours]);
+
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await Promise.all([refreshData(), loadHistoricalData()]);
+      await Promise.all([
+        refreshData(),
+        loadHistoricalData(),
+        refreshSessions(),
+        loadStreaks(),
+        loadInsights(),
+      ]);
     } catch (err) {
       console.error("Refresh failed:", err);
     } finally {
       setRefreshing(false);
     }
-  }, [refreshData, loadHistoricalData]);
+  }, [
+    refreshData,
+    loadHistoricalData,
+    refreshSessions,
+    loadStreaks,
+    loadInsights,
+  ]);
+
+  const handleEndFast = useCallback(() => {
+    Alert.alert(
+      "End Fast?",
+      "The fast is saved with the current time as its end.",
+      [
+        { text: "Keep Fasting", style: "cancel" },
+        {
+          text: "End Fast",
+          onPress: () => {
+            endFast().catch(() => {
+              Alert.alert("Error", "Failed to end the fast. Please try again.");
+            });
+          },
+        },
+      ]
+    );
+  }, [endFast]);
 
+  const handleExtendFast = useCallback(() => {
+    extendFast(EXTEND_SESSION_HOURS).catch(() => {
+      Alert.alert("Error", "Failed to extend the fast. Please try again.");
+    });
+  }, [extendFast]);
+
+  // Reload when a new day start moves yesterday's bounds
   useEffect(() => {
     loadHistoricalData();
-  }, [loadHistoricalData]);
+  }, [loadHistoricalData, dayStartHour]);
+
+  // Today's entries can complete or break a streak
+  useEffect(() => {
+    loadStreaks();
+  }, [loadStreaks, todayEntries, dayStartHour]);
+
+  // Protocol changes regrade the days inside the period
+  useEffect(() => {
+    loadInsights();
+  }, [loadInsights, todayEntries, dayStartHour, protocolHistory]);
 
   const isLoading = contextLoading || historicalLoading;
   const hasError = contextError || error;
@@ -105,10 +343,42 @@ export default function StatsScreen() {
     return fastingBreakingMeals.length > 0 ? fastingBreakingMeals[0] : null;
   }, [todayEntries]);
 
+  // Today's targets come from the protocol, when one is in force
+  const protocol = currentProtocol?.protocolId
+    ? getFastingProtocol(currentProtocol.protocolId)
+    : undefined;
+  const isFastDay = currentProtocol
+    ? TimeCalculationService.isProtocolFastDay(
+        currentProtocol,
+        getTodayDateString()
+      )
+    : false;
+  const targetFastingHours = protocol?.fastingHours ?? fastingGoalHours;
+
+  // Keyed on today's date so the charts roll over at the day start
+  const chartEndDate = getTodayDateString();
+  const trendDates = React.useMemo(
+    () =>
+      createDateRange(
+        getDateStringWithOffset(chartEndDate, -(TREND_CHART_DAYS - 1)),
+        TREND_CHART_DAYS
+      ),
+    [chartEndDate]
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <ThemedView style={styles.header}>
-        <ThemedText type="title">Your Stats</ThemedText>
+        <ThemedView style={styles.titleRow}>
+          <ThemedText type="title">Your Stats</ThemedText>
+          <Pressable
+            onPress={() => router.push("/settings")}
+            style={styles.settingsButton}
+            accessibilityLabel="Open settings"
+          >
+            <ThemedText style={styles.settingsIcon}>⚙️</ThemedText>
+          </Pressable>
+        </ThemedView>
         <ThemedText type="default" style={styles.subtitle}>
           Fasting insights and meal patterns
         </ThemedText>
@@ -146,7 +416,15 @@ export default function StatsScreen() {
           <FastingStatus
             lastMealEntry={lastFastingBreakingMeal}
             isLoading={isLoading}
-            fastingGoalHours={16}
+            fastingGoalHours={targetFastingHours}
+            activeSession={activeSession}
+            onStartFast={() => router.push("/fasting")}
+            onEndFast={handleEndFast}
+            onExtendFast={handleExtendFast}
+            onManage={() => router.push("/fasting")}
+            protocol={protocol}
+            isFastDay={isFastDay}
+            eatingWindowStart={firstMealToday?.timestamp ?? null}
           />
 
           {/* Overnight Fasting Tracker - only show if there's a first meal today */}
@@ -155,8 +433,41 @@ export default function StatsScreen() {
               lastEntryYesterday={yesterdayLastMeal}
               firstEntryToday={firstMealToday}
               isLoading={isLoading}
+              fastingGoalHours={targetFastingHours}
+              protocol={protocol}
+              grade={todaySummary?.protocolGrade}
             />
           )}
+
+          {/* Multi-day streaks with a calendar of counted days */}
+          <StreaksCard
+            streaks={streaks}
+            graceDays={streakGraceDays}
+            isLoading={isLoading}
+          />
+
+          {/* Period averages compared with the period before */}
+          <InsightsCard
+            range={insightsRange}
+            onRangeChange={setInsightsRange}
+            comparison={insights}
+            isLoading={insightsLoading}
+          />
+
+          {/* Day-by-day fasting, eating window and gap charts */}
+          <TrendCharts
+            entries={recentEntries}
+            dates={trendDates}
+            fastingGoalHours={targetFastingHours}
+            isLoading={isLoading}
+          />
+
+          {/* Gaps and fasts broken down by entry tag */}
+          <TagBreakdown
+            entries={recentEntries}
+            periodLabel={`Last ${TAG_BREAKDOWN_DAYS} days`}
+            isLoading={isLoading}
+          />
         </ThemedView>
 
         {/* Bottom spacing for tab bar */}
@@ -174,6 +485,22 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 10,
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  settingsButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  settingsIcon: {
+    fontSize: 22,
+    lineHeight: 28,
+  },
   subtitle: {
     opacity: 0.7,
     marginTop: 4,
@@ -1,8 +1,4 @@
-import {
-  DarkTheme,
-  DefaultTheme,
-  ThemeProvider,
-} from "@react-navigation/native";
+import { ThemeProvider } from "@react-navigation/native";
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
@@ -10,10 +6,14 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { NavigationThemes } from "@/constants/Colors";
 import { MealDataProvider } from "@/contexts/MealDataContext";
+import { CategoriesProvider } from "@/contexts/CategoriesContext";
+import { SettingsProvider } from "@/contexts/SettingsContext";
+import { FastingProvider } from "@/contexts/FastingContext";
+import { ReminderScheduler } from "@/components/ReminderScheduler";
 
 export default function RootLayout() {
-  const colorScheme = useColorScheme();
   const [loaded] = useFonts({
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
@@ -25,23 +25,112 @@ export default function RootLayout() {
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-        <MealDataProvider>
-          <Stack>
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="+not-found" />
-            <Stack.Screen
-              name="quick-add"
-              options={{
-                presentation: "modal",
-                title: "Quick Add Meal",
-                headerShown: false,
-              }}
-            />
-          </Stack>
-          <StatusBar style="auto" />
-        </MealDataProvider>
-      </ThemeProvider>
+      <SettingsProvider>
+        <RootNavigator />
+      </SettingsProvider>
     </GestureHandlerRootView>
   );
 }
+
+function RootNavigator() {
+  const colorScheme = useColorScheme();
+
+  return (
+    <ThemeProvider
+      value={NavigationThemes[colorScheme === "dark" ? "dark" : "light"]}
+    >
+      <MealDataProvider>
+        <CategoriesProvider>
+          <FastingProvider>
+            <Stack>
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="+not-found" />
+              <Stack.Screen
+                name="quick-add"
+                options={{
+                  presentation: "modal",
+                  title: "Quick Add Meal",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="trash"
+                options={{
+                  presentation: "modal",
+                  title: "Trash",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="search"
+                options={{
+                  presentation: "modal",
+                  title: "Search Notes",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="heatmap"
+                options={{
+                  presentation: "modal",
+                  title: "Eating Times",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="categories"
+                options={{
+                  presentation: "modal",
+                  title: "Categories",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="data-transfer"
+                options={{
+                  presentation: "modal",
+                  title: "Export & Import",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="backup"
+                options={{
+                  presentation: "modal",
+                  title: "Backup & Restore",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="log"
+                options={{
+                  presentation: "modal",
+                  title: "Log Entry",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="fast/start"
+                options={{
+                  presentation: "modal",
+                  title: "Start Fast",
+                  headerShown: false,
+                }}
+              />
+              <Stack.Screen
+                name="settings"
+                options={{
+                  presentation: "modal",
+                  title: "Settings",
+                  headerShown: false,
+                }}
+              />
+            </Stack>
+            <StatusBar style={colorScheme === "dark" ? "light" : "dark"} />
+            <ReminderScheduler />
+          </FastingProvider>
+        </CategoriesProvider>
+      </MealDataProvider>
+    </ThemeProvider>
+  );
+}
@@ -0,0 +1,600 @@
+import React, { useState, useCallback } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  Switch,
+  TextInput,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useFasting } from "@/contexts/FastingContext";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { backupService } from "@/services/backup";
+import { MIN_PASSPHRASE_LENGTH } from "@/services/encryption";
+import { AppError, BackupBundle, RestoreMode, RestoreSummary } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+// Errors whose message is written for the user
+const USER_FACING_ERRORS = [
+  "INVALID_BACKUP",
+  "BACKUP_TOO_NEW",
+  "CHECKSUM_MISMATCH",
+  "INVALID_ENCRYPTED_FILE",
+  "ENCRYPTION_TOO_NEW",
+  "TAMPERED_FILE",
+];
+
+export default function BackupScreen() {
+  const [isWorking, setIsWorking] = useState(false);
+  const [encryptBackup, setEncryptBackup] = useState(true);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  // Contents of a picked file that still needs its passphrase
+  const [lockedBackup, setLockedBackup] = useState<string | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState("");
+  const [pendingRestore, setPendingRestore] = useState<{
+    bundle: BackupBundle;
+    summary: RestoreSummary;
+  } | null>(null);
+
+  const { refreshData } = useMealData();
+  const { refreshCategories } = useCategories();
+  const { refreshSettings } = useSettings();
+  const { refreshSessions } = useFasting();
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const passphraseProblem = !encryptBackup
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmPassphrase
+        ? "Passphrases don't match"
+        : null;
+
+  const handleCreateBackup = useCallback(async () => {
+    try {
+      setIsWorking(true);
+      const result = await backupService.shareBackup(
+        encryptBackup ? passphrase : undefined
+      );
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPassphrase("");
+      setConfirmPassphrase("");
+
+      if (!result.shared) {
+        Alert.alert(
+          "Backup Saved",
+          "The backup was saved to the app's documents folder."
+        );
+      }
+    } catch (error) {
+      console.error("Failed to create backup:", error);
+      Alert.alert(
+        "Backup Failed",
+        "Couldn't create a backup. Please try again."
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  }, [encryptBackup, passphrase]);
+
+  const showOpenError = (error: unknown) => {
+    const appError = error as AppError;
+    Alert.alert(
+      "Can't Restore This File",
+      USER_FACING_ERRORS.includes(appError?.code)
+        ? appError.message
+        : "The file couldn't be read. Please try again."
+    );
+  };
+
+  const handleChooseBackup = useCallback(async () => {
+    try {
+      setIsWorking(true);
+      const text = await backupService.pickBackupFile();
+      if (!text) return;
+
+      if (backupService.isEncryptedBackup(text)) {
+        setUnlockPassphrase("");
+        setLockedBackup(text);
+        return;
+      }
+
+      const bundle = await backupService.openBackup(text);
+      const summary = await backupService.getRestoreSummary(bundle);
+      setPendingRestore({ bundle, summary });
+    } catch (error) {
+      showOpenError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  const handleUnlock = useCallback(async () => {
+    if (!lockedBackup) return;
+
+    try {
+      setIsWorking(true);
+      const bundle = await backupService.openBackup(
+        lockedBackup,
+        unlockPassphrase
+      );
+      const summary = await backupService.getRestoreSummary(bundle);
+      setLockedBackup(null);
+      setUnlockPassphrase("");
+      setPendingRestore({ bundle, summary });
+    } catch (error) {
+      const appError = error as AppError;
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (appError?.code === "WRONG_PASSPHRASE") {
+        // Keep the file loaded so the user can try again
+        Alert.alert("Wrong Passphrase", appError.message);
+        return;
+      }
+      setLockedBackup(null);
+      showOpenError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [lockedBackup, unlockPassphrase]);
+
+  const runRestore = useCallback(
+    async (mode: RestoreMode) => {
+      if (!pendingRestore) return;
+
+      try {
+        setIsWorking(true);
+        await backupService.restoreBackup(pendingRestore.bundle, mode);
+        await Promise.all([
+          refreshData(),
+          refreshCategories(),
+          refreshSettings(),
+          refreshSessions(),
+        ]);
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+
+        setPendingRestore(null);
+        Alert.alert("Restore Complete", "Your backup has been restored.", [
+          { text: "Done", onPress: () => router.back() },
+        ]);
+      } catch (error) {
+        console.error("Failed to restore backup:", error);
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert("Restore Failed", "Nothing was changed. Please try again.");
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [
+      pendingRestore,
+      refreshData,
+      refreshCategories,
+      refreshSettings,
+      refreshSessions,
+    ]
+  );
+
+  const handleReplace = useCallback(() => {
+    if (!pendingRestore) return;
+
+    const { localOnlyCount } = pendingRestore.summary;
+    Alert.alert(
+      "Replace All Data?",
+      `Everything on this phone will be replaced by the backup, including settings.${
+        localOnlyCount > 0
+          ? ` ${localOnlyCount} ${
+              localOnlyCount === 1 ? "entry" : "entries"
+            } not in the backup will be deleted.`
+          : ""
+      }`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () => runRestore("replace"),
+        },
+      ]
+    );
+  }, [pendingRestore, runRestore]);
+
+  const renderSummaryRow = (label: string, value: number) => (
+    <ThemedView style={styles.summaryRow}>
+      <ThemedText style={styles.summaryLabel}>{label}</ThemedText>
+      <ThemedText type="defaultSemiBold">{value}</ThemedText>
+    </ThemedView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Backup & Restore
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Backup */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Create Backup</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Saves every entry, including the trash, along with your fasts,
+            categories and settings in a single file.
+          </ThemedText>
+
+          <ThemedView style={styles.switchRow}>
+            <ThemedView style={styles.switchText}>
+              <ThemedText style={styles.fieldLabel}>
+                Encrypt with passphrase
+              </ThemedText>
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                The passphrase can&apos;t be recovered. Without it the backup
+                can&apos;t be restored.
+              </ThemedText>
+            </ThemedView>
+            <Switch
+              value={encryptBackup}
+              onValueChange={setEncryptBackup}
+              trackColor={{ true: primaryColor }}
+            />
+          </ThemedView>
+
+          {encryptBackup && (
+            <>
+              <TextInput
+                value={passphrase}
+                onChangeText={setPassphrase}
+                placeholder="Passphrase"
+                placeholderTextColor={subtleTextColor}
+                style={[styles.textInput, { color: textColor }]}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isWorking}
+              />
+              <TextInput
+                value={confirmPassphrase}
+                onChangeText={setConfirmPassphrase}
+                placeholder="Confirm passphrase"
+                placeholderTextColor={subtleTextColor}
+                style={[styles.textInput, { color: textColor }]}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isWorking}
+              />
+              {passphraseProblem && passphrase.length > 0 && (
+                <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                  {passphraseProblem}
+                </ThemedText>
+              )}
+            </>
+          )}
+
+          <Pressable
+            onPress={handleCreateBackup}
+            disabled={isWorking || !!passphraseProblem}
+            style={[
+              styles.button,
+              { backgroundColor: primaryColor, borderColor: primaryColor },
+              (isWorking || !!passphraseProblem) && styles.disabledButton,
+            ]}
+          >
+            <ThemedText style={[styles.buttonText, styles.primaryButtonText]}>
+              Create Backup
+            </ThemedText>
+          </Pressable>
+        </ThemedView>
+
+        {/* Restore */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Restore</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            You&apos;ll see what the backup contains before anything changes.
+          </ThemedText>
+
+          {lockedBackup ? (
+            <>
+              <ThemedText style={styles.backupDate}>
+                This backup is encrypted
+              </ThemedText>
+              <TextInput
+                value={unlockPassphrase}
+                onChangeText={setUnlockPassphrase}
+                placeholder="Passphrase"
+                placeholderTextColor={subtleTextColor}
+                style={[styles.textInput, { color: textColor }]}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                editable={!isWorking}
+                onSubmitEditing={handleUnlock}
+              />
+              <Pressable
+                onPress={handleUnlock}
+                disabled={isWorking || unlockPassphrase.length === 0}
+                style={[
+                  styles.button,
+                  { backgroundColor: primaryColor, borderColor: primaryColor },
+                  (isWorking || unlockPassphrase.length === 0) &&
+                    styles.disabledButton,
+                ]}
+              >
+                {isWorking ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <ThemedText
+                    style={[styles.buttonText, styles.primaryButtonText]}
+                  >
+                    Unlock
+                  </ThemedText>
+                )}
+              </Pressable>
+              <Pressable
+                onPress={() => setLockedBackup(null)}
+                disabled={isWorking}
+                style={styles.cancelButton}
+              >
+                <ThemedText style={{ color: subtleTextColor }}>
+                  Cancel
+                </ThemedText>
+              </Pressable>
+            </>
+          ) : !pendingRestore ? (
+            <Pressable
+              onPress={handleChooseBackup}
+              disabled={isWorking}
+              style={[
+                styles.button,
+                { borderColor: primaryColor },
+                isWorking && styles.disabledButton,
+              ]}
+            >
+              <ThemedText style={[styles.buttonText, { color: primaryColor }]}>
+                Choose Backup File
+              </ThemedText>
+            </Pressable>
+          ) : (
+            <>
+              <ThemedText style={styles.backupDate}>
+                Backup from{" "}
+                {new Date(
+                  pendingRestore.summary.backupCreatedAt
+                ).toLocaleString([], {
+                  year: "numeric",
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </ThemedText>
+
+              <ThemedView style={styles.summary}>
+                {renderSummaryRow(
+                  "New entries",
+                  pendingRestore.summary.newCount
+                )}
+                {renderSummaryRow(
+                  "Conflicting entries",
+                  pendingRestore.summary.conflictCount
+                )}
+                {renderSummaryRow(
+                  "Already on this phone",
+                  pendingRestore.summary.unchangedCount
+                )}
+                {renderSummaryRow(
+                  "Only on this phone",
+                  pendingRestore.summary.localOnlyCount
+                )}
+                {renderSummaryRow(
+                  "New categories",
+                  pendingRestore.summary.newCategoryCount
+                )}
+              </ThemedView>
+
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                Merge adds what&apos;s missing and keeps your current settings.
+                For conflicting entries the most recently edited version wins.
+                Replace makes this phone match the backup exactly.
+              </ThemedText>
+
+              <Pressable
+                onPress={() => runRestore("merge")}
+                disabled={isWorking}
+                style={[
+                  styles.button,
+                  { backgroundColor: primaryColor, borderColor: primaryColor },
+                  isWorking && styles.disabledButton,
+                ]}
+              >
+                {isWorking ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <ThemedText
+                    style={[styles.buttonText, styles.primaryButtonText]}
+                  >
+                    Merge
+                  </ThemedText>
+                )}
+              </Pressable>
+              <Pressable
+                onPress={handleReplace}
+                disabled={isWorking}
+                style={[
+                  styles.button,
+                  styles.dangerButton,
+                  isWorking && styles.disabledButton,
+                ]}
+              >
+                <ThemedText style={[styles.buttonText, styles.dangerText]}>
+                  Replace All Data
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => setPendingRestore(null)}
+                disabled={isWorking}
+                style={styles.cancelButton}
+              >
+                <ThemedText style={{ color: subtleTextColor }}>
+                  Cancel
+                </ThemedText>
+              </Pressable>
+            </>
+          )}
+        </ThemedView>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.lg,
+  },
+  section: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  switchText: {
+    flex: 1,
+    gap: 2,
+    backgroundColor: "transparent",
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  textInput: {
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.12)",
+  },
+  backupDate: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  summary: {
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  button: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 44,
+    marginTop: Spacing.xs,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  primaryButtonText: {
+    color: "white",
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  dangerButton: {
+    borderColor: "#FF6B6B",
+  },
+  dangerText: {
+    color: "#FF6B6B",
+  },
+  cancelButton: {
+    alignSelf: "center",
+    padding: Spacing.sm,
+  },
+});
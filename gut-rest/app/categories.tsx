@@ -0,0 +1,417 @@
+import React, { useState, useCallback } from "react";
+import { StyleSheet, ScrollView, Pressable, Alert } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { CategoryEditor } from "@/components/categories";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { AppError, CategoryDefinition, CategoryInput } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+type EditorState =
+  | { mode: "closed" }
+  | { mode: "new" }
+  | { mode: "edit"; category: CategoryDefinition };
+
+export default function CategoriesScreen() {
+  const [editor, setEditor] = useState<EditorState>({ mode: "closed" });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const {
+    categories,
+    activeCategories,
+    addCategory,
+    updateCategory,
+    archiveCategory,
+    unarchiveCategory,
+    reorderCategories,
+  } = useCategories();
+
+  const colorScheme = useColorScheme();
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const archivedCategories = categories.filter(
+    (category) => !!category.archivedAt
+  );
+
+  const handleSave = useCallback(
+    async (input: CategoryInput) => {
+      try {
+        setIsSaving(true);
+        if (editor.mode === "edit") {
+          await updateCategory(editor.category.id, input);
+        } else {
+          await addCategory(input);
+        }
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+        setEditor({ mode: "closed" });
+      } catch (error) {
+        const appError = error as AppError;
+        Alert.alert(
+          "Couldn't Save Category",
+          appError?.code === "INVALID_CATEGORY" ||
+            appError?.code === "DUPLICATE_CATEGORY"
+            ? appError.message
+            : "Please try again."
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [editor, addCategory, updateCategory]
+  );
+
+  const handleArchive = useCallback(
+    (category: CategoryDefinition) => {
+      if (activeCategories.length <= 1) {
+        Alert.alert(
+          "Can't Archive",
+          "Keep at least one category available for logging."
+        );
+        return;
+      }
+
+      Alert.alert(
+        "Archive Category",
+        `${category.label} will be hidden from quick add. Entries already logged with it are kept.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Archive",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                await archiveCategory(category.id);
+                setEditor({ mode: "closed" });
+              } catch {
+                Alert.alert("Error", "Failed to archive the category.");
+              }
+            },
+          },
+        ]
+      );
+    },
+    [activeCategories.length, archiveCategory]
+  );
+
+  const handleUnarchive = useCallback(
+    async (category: CategoryDefinition) => {
+      try {
+        await unarchiveCategory(category.id);
+      } catch {
+        Alert.alert("Error", "Failed to restore the category.");
+      }
+    },
+    [unarchiveCategory]
+  );
+
+  const handleMove = useCallback(
+    async (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+      if (target < 0 || target >= activeCategories.length) return;
+
+      const orderedIds = activeCategories.map((category) => category.id);
+      [orderedIds[index], orderedIds[target]] = [
+        orderedIds[target],
+        orderedIds[index],
+      ];
+
+      try {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        // Archived categories keep their place after the active ones
+        await reorderCategories([
+          ...orderedIds,
+          ...archivedCategories.map((category) => category.id),
+        ]);
+      } catch {
+        Alert.alert("Error", "Failed to reorder categories.");
+      }
+    },
+    [activeCategories, archivedCategories, reorderCategories]
+  );
+
+  const renderCategory = (category: CategoryDefinition, index: number) => (
+    <ThemedView key={category.id} style={styles.categoryRow}>
+      <Pressable
+        onPress={() => setEditor({ mode: "edit", category })}
+        style={styles.categoryInfo}
+      >
+        <ThemedView
+          style={[
+            styles.colorDot,
+            {
+              backgroundColor:
+                colorScheme === "dark" ? category.darkColor : category.color,
+            },
+          ]}
+        />
+        <ThemedText style={styles.categoryIcon}>{category.icon}</ThemedText>
+        <ThemedView style={styles.categoryText}>
+          <ThemedText type="defaultSemiBold">{category.label}</ThemedText>
+          <ThemedText style={[styles.categoryMeta, { color: subtleTextColor }]}>
+            {category.recommendedGapHours}h gap ·{" "}
+            {category.breaksFast ? "breaks fast" : "fast-friendly"}
+          </ThemedText>
+        </ThemedView>
+      </Pressable>
+
+      <ThemedView style={styles.reorderButtons}>
+        <Pressable
+          onPress={() => handleMove(index, -1)}
+          disabled={index === 0}
+          style={styles.reorderButton}
+        >
+          <ThemedText
+            style={[
+              styles.reorderText,
+              { color: primaryColor },
+              index === 0 && styles.disabledText,
+            ]}
+          >
+            ↑
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={() => handleMove(index, 1)}
+          disabled={index === activeCategories.length - 1}
+          style={styles.reorderButton}
+        >
+          <ThemedText
+            style={[
+              styles.reorderText,
+              { color: primaryColor },
+              index === activeCategories.length - 1 && styles.disabledText,
+            ]}
+          >
+            ↓
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Categories
+        </ThemedText>
+
+        <Pressable
+          onPress={() => setEditor({ mode: "new" })}
+          style={styles.headerButton}
+          disabled={editor.mode !== "closed"}
+        >
+          <ThemedText
+            style={[
+              styles.addText,
+              { color: primaryColor },
+              editor.mode !== "closed" && styles.disabledText,
+            ]}
+          >
+            Add
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {editor.mode !== "closed" ? (
+          <CategoryEditor
+            key={editor.mode === "edit" ? editor.category.id : "new"}
+            category={editor.mode === "edit" ? editor.category : undefined}
+            onSave={handleSave}
+            onCancel={() => setEditor({ mode: "closed" })}
+            onArchive={
+              editor.mode === "edit"
+                ? () => handleArchive(editor.category)
+                : undefined
+            }
+            isSaving={isSaving}
+          />
+        ) : (
+          <>
+            <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+              Tap a category to rename, recolor or change how it counts towards
+              your gut rest.
+            </ThemedText>
+
+            {activeCategories.map(renderCategory)}
+
+            {archivedCategories.length > 0 && (
+              <>
+                <ThemedText type="subtitle" style={styles.sectionTitle}>
+                  Archived
+                </ThemedText>
+                {archivedCategories.map((category) => (
+                  <ThemedView key={category.id} style={styles.categoryRow}>
+                    <ThemedView style={styles.categoryInfo}>
+                      <ThemedText
+                        style={[styles.categoryIcon, styles.archivedIcon]}
+                      >
+                        {category.icon}
+                      </ThemedText>
+                      <ThemedText style={{ color: subtleTextColor }}>
+                        {category.label}
+                      </ThemedText>
+                    </ThemedView>
+                    <Pressable
+                      onPress={() => handleUnarchive(category)}
+                      style={[
+                        styles.unarchiveButton,
+                        { borderColor: primaryColor },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[styles.unarchiveText, { color: primaryColor }]}
+                      >
+                        Unarchive
+                      </ThemedText>
+                    </Pressable>
+                  </ThemedView>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  addText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    opacity: 0.3,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.xs,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.sm,
+    paddingLeft: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+  },
+  categoryInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  categoryIcon: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  archivedIcon: {
+    opacity: 0.5,
+  },
+  categoryText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  categoryMeta: {
+    fontSize: 12,
+  },
+  reorderButtons: {
+    flexDirection: "row",
+    backgroundColor: "transparent",
+  },
+  reorderButton: {
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  reorderText: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  unarchiveButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  unarchiveText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,499 @@
+import React, { useState, useCallback } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import {
+  ColumnMappingEditor,
+  ImportPreview,
+  REQUIRED_CSV_FIELDS,
+} from "@/components/data-transfer";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { csvService } from "@/services/csv";
+import {
+  getDateStringWithOffset,
+  getLocalDateString,
+  getTodayDateString,
+} from "@/services/dateUtils";
+import { AppError, CsvColumnMapping, CsvImportPreview } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+type RangePreset = "7" | "30" | "90" | "all" | "custom";
+
+const RANGE_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "all", label: "All time" },
+  { value: "custom", label: "Custom" },
+];
+
+// Earlier than any entry the app could have logged
+const ALL_TIME_START_DATE = "1970-01-01";
+
+interface CsvFile {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export default function DataTransferScreen() {
+  const [rangePreset, setRangePreset] = useState<RangePreset>("30");
+  const [customStart, setCustomStart] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 29);
+    return date;
+  });
+  const [customEnd, setCustomEnd] = useState(() => new Date());
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { refreshData } = useMealData();
+  const colorScheme = useColorScheme();
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const getExportRange = useCallback((): [string, string] => {
+    const today = getTodayDateString();
+    switch (rangePreset) {
+      case "all":
+        return [ALL_TIME_START_DATE, today];
+      case "custom":
+        return [getLocalDateString(customStart), getLocalDateString(customEnd)];
+      default:
+        return [
+          getDateStringWithOffset(today, -(Number(rangePreset) - 1)),
+          today,
+        ];
+    }
+  }, [rangePreset, customStart, customEnd]);
+
+  const handleExport = useCallback(async () => {
+    const [startDate, endDate] = getExportRange();
+    if (startDate > endDate) {
+      Alert.alert(
+        "Invalid Range",
+        "The start date must be before the end date."
+      );
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const result = await csvService.exportEntries(startDate, endDate);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      if (!result.shared) {
+        Alert.alert(
+          "Export Saved",
+          `${result.count} entries were saved to the app's documents folder.`
+        );
+      }
+    } catch (error) {
+      const appError = error as AppError;
+      Alert.alert(
+        "Export Failed",
+        appError?.code === "NOTHING_TO_EXPORT"
+          ? appError.message
+          : "Couldn't export your meal log. Please try again."
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }, [getExportRange]);
+
+  const handleChooseFile = useCallback(async () => {
+    try {
+      const file = await csvService.pickCsvFile();
+      if (!file) return;
+
+      setCsvFile(file);
+      setMapping(csvService.suggestColumnMapping(file.headers));
+      setPreview(null);
+    } catch (error) {
+      const appError = error as AppError;
+      Alert.alert(
+        "Couldn't Read File",
+        appError?.code === "INVALID_CSV"
+          ? appError.message
+          : "Make sure the file is a CSV export and try again."
+      );
+    }
+  }, []);
+
+  const handleMappingChange = useCallback((next: CsvColumnMapping) => {
+    setMapping(next);
+    // A new mapping invalidates the previous dry run
+    setPreview(null);
+  }, []);
+
+  const handlePreview = useCallback(async () => {
+    if (!csvFile || !mapping) return;
+
+    try {
+      setIsImporting(true);
+      setPreview(await csvService.previewImport(csvFile.rows, mapping));
+    } catch (error) {
+      console.error("Failed to preview import:", error);
+      Alert.alert("Error", "Failed to check the file. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  }, [csvFile, mapping]);
+
+  const handleImport = useCallback(async () => {
+    if (!preview) return;
+
+    try {
+      setIsImporting(true);
+      const imported = await csvService.importEntries(preview);
+      await refreshData();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      Alert.alert(
+        "Import Complete",
+        `${imported} ${imported === 1 ? "entry was" : "entries were"} added to your history.`
+      );
+      setCsvFile(null);
+      setMapping(null);
+      setPreview(null);
+    } catch (error) {
+      console.error("Failed to import entries:", error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Import Failed", "Nothing was imported. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  }, [preview, refreshData]);
+
+  const isMappingComplete =
+    !!mapping && REQUIRED_CSV_FIELDS.every((field) => mapping[field] !== null);
+
+  const renderButton = (
+    label: string,
+    onPress: () => void,
+    options: { disabled?: boolean; loading?: boolean; secondary?: boolean } = {}
+  ) => (
+    <Pressable
+      onPress={onPress}
+      disabled={options.disabled || options.loading}
+      style={[
+        styles.button,
+        options.secondary
+          ? { borderColor: primaryColor }
+          : { backgroundColor: primaryColor, borderColor: primaryColor },
+        options.disabled && styles.disabledButton,
+      ]}
+    >
+      {options.loading ? (
+        <ActivityIndicator
+          size="small"
+          color={options.secondary ? primaryColor : "white"}
+        />
+      ) : (
+        <ThemedText
+          style={[
+            styles.buttonText,
+            { color: options.secondary ? primaryColor : "white" },
+          ]}
+        >
+          {label}
+        </ThemedText>
+      )}
+    </Pressable>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Export & Import
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Full backup */}
+        <Pressable
+          onPress={() => router.push("/backup")}
+          style={[styles.section, styles.linkRow]}
+        >
+          <ThemedView style={styles.linkText}>
+            <ThemedText type="defaultSemiBold">Backup & Restore</ThemedText>
+            <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+              Move everything, including settings, to another phone
+            </ThemedText>
+          </ThemedView>
+          <ThemedText style={[styles.chevron, { color: subtleTextColor }]}>
+            ›
+          </ThemedText>
+        </Pressable>
+
+        {/* Export */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Export CSV</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            One row per entry with its time, category, notes and tags. Opens in
+            any spreadsheet app.
+          </ThemedText>
+
+          <ThemedView style={styles.chipRow}>
+            {RANGE_OPTIONS.map((option) => {
+              const isSelected = rangePreset === option.value;
+              return (
+                <Pressable
+                  key={option.value}
+                  onPress={() => setRangePreset(option.value)}
+                  style={[
+                    styles.chip,
+                    isSelected && {
+                      backgroundColor: primaryColor,
+                      borderColor: primaryColor,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.chipText,
+                      isSelected && styles.chipTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </ThemedView>
+
+          {rangePreset === "custom" && (
+            <ThemedView style={styles.customRange}>
+              <ThemedView style={styles.dateRow}>
+                <ThemedText style={styles.dateLabel}>From</ThemedText>
+                <DateTimePicker
+                  value={customStart}
+                  mode="date"
+                  display="compact"
+                  maximumDate={customEnd}
+                  onChange={(_, date) => date && setCustomStart(date)}
+                  themeVariant={colorScheme === "dark" ? "dark" : "light"}
+                />
+              </ThemedView>
+              <ThemedView style={styles.dateRow}>
+                <ThemedText style={styles.dateLabel}>To</ThemedText>
+                <DateTimePicker
+                  value={customEnd}
+                  mode="date"
+                  display="compact"
+                  minimumDate={customStart}
+                  maximumDate={new Date()}
+                  onChange={(_, date) => date && setCustomEnd(date)}
+                  themeVariant={colorScheme === "dark" ? "dark" : "light"}
+                />
+              </ThemedView>
+            </ThemedView>
+          )}
+
+          {renderButton("Export CSV", handleExport, { loading: isExporting })}
+        </ThemedView>
+
+        {/* Import */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Import CSV</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Rows matching an existing entry by ID, or by time and category, are
+            skipped. Nothing is saved until you confirm.
+          </ThemedText>
+
+          {renderButton(
+            csvFile ? `Change File (${csvFile.fileName})` : "Choose CSV File",
+            handleChooseFile,
+            { disabled: isImporting, secondary: !!csvFile }
+          )}
+
+          {csvFile && mapping && (
+            <>
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                {csvFile.rows.length}{" "}
+                {csvFile.rows.length === 1 ? "row" : "rows"} found. Match each
+                field to a column of the file.
+              </ThemedText>
+
+              <ColumnMappingEditor
+                headers={csvFile.headers}
+                mapping={mapping}
+                onMappingChange={handleMappingChange}
+                disabled={isImporting}
+              />
+
+              {!preview &&
+                renderButton("Preview Import", handlePreview, {
+                  disabled: !isMappingComplete,
+                  loading: isImporting,
+                })}
+            </>
+          )}
+
+          {preview && (
+            <>
+              <ImportPreview preview={preview} />
+              {renderButton(
+                preview.newCount > 0
+                  ? `Import ${preview.newCount} ${
+                      preview.newCount === 1 ? "Entry" : "Entries"
+                    }`
+                  : "Nothing to Import",
+                handleImport,
+                { disabled: preview.newCount === 0, loading: isImporting }
+              )}
+            </>
+          )}
+        </ThemedView>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.lg,
+  },
+  section: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  linkText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  chevron: {
+    fontSize: 24,
+    lineHeight: 28,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  customRange: {
+    gap: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "transparent",
+  },
+  dateLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  button: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 44,
+    marginTop: Spacing.xs,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+});
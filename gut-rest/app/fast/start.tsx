@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { LinkActionResult } from "@/components/LinkActionResult";
+import { useFasting } from "@/contexts/FastingContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { databaseService } from "@/services/database";
+import { parseLinkGoalHours } from "@/services/deepLinks";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { formatEntryTime } from "@/services/dateUtils";
+import {
+  MAX_FASTING_GOAL_HOURS,
+  MIN_FASTING_GOAL_HOURS,
+} from "@/constants/Settings";
+
+type StartState =
+  | { status: "working" }
+  | { status: "done"; goalHours: number; startTime: number }
+  | { status: "running"; goalHours: number; startTime: number }
+  | { status: "error"; message: string };
+
+/**
+ * Handles gutrest://fast/start links, with an optional goal in hours
+ */
+export default function StartFastLinkScreen() {
+  const params = useLocalSearchParams<{ goal?: string }>();
+  const { startFast } = useFasting();
+  const {
+    settings: { fastingGoalHours },
+    isLoading: settingsLoading,
+  } = useSettings();
+  const [state, setState] = useState<StartState>({ status: "working" });
+
+  // Effects can run twice in development, and a link must start only one fast
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    // The goal falls back to the stored setting, so wait for it
+    if (settingsLoading || handledRef.current) return;
+    handledRef.current = true;
+
+    const handleLink = async () => {
+      try {
+        const goalHours = parseLinkGoalHours(params.goal);
+        if (goalHours === null) {
+          await Haptics.notificationAsync(
+            Haptics.NotificationFeedbackType.Error
+          );
+          setState({
+            status: "error",
+            message: `The goal must be a whole number of hours from ${MIN_FASTING_GOAL_HOURS} to ${MAX_FASTING_GOAL_HOURS}.`,
+          });
+          return;
+        }
+
+        // Context state may not have loaded yet when the link opens the app
+        await databaseService.initialize();
+        const activeSession = await databaseService.getActiveFastingSession();
+        if (activeSession) {
+          await Haptics.notificationAsync(
+            Haptics.NotificationFeedbackType.Warning
+          );
+          setState({
+            status: "running",
+            goalHours: activeSession.goalHours,
+            startTime: activeSession.startTime,
+          });
+          return;
+        }
+
+        const startTime = Date.now();
+        await startFast(goalHours ?? fastingGoalHours, startTime);
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+        setState({
+          status: "done",
+          goalHours: goalHours ?? fastingGoalHours,
+          startTime,
+        });
+      } catch (error) {
+        console.error("[FastLink] Failed to start fast:", error);
+        setState({
+          status: "error",
+          message: "Failed to start the fast. Please try again.",
+        });
+      }
+    };
+
+    handleLink();
+  }, [params.goal, startFast, fastingGoalHours, settingsLoading]);
+
+  const openFasting = () => router.replace("/fasting");
+
+  if (state.status === "working") {
+    return (
+      <LinkActionResult status="working" icon="" title="Starting fast..." />
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <LinkActionResult
+        status="error"
+        icon="⚠️"
+        title="Couldn't start a fast"
+        message={state.message}
+        secondaryAction={{ label: "Open Fasting", onPress: openFasting }}
+      />
+    );
+  }
+
+  const { goalHours, startTime } = state;
+  const endsAt = formatEntryTime({
+    timestamp: startTime + goalHours * 60 * 60 * 1000,
+  });
+
+  if (state.status === "running") {
+    return (
+      <LinkActionResult
+        status="done"
+        icon="⏳"
+        title="A fast is already running"
+        message={`Started ${TimeCalculationService.formatDuration(
+          Date.now() - startTime
+        )} ago, ${goalHours}h goal at ${endsAt}.`}
+        secondaryAction={{ label: "Open Fasting", onPress: openFasting }}
+      />
+    );
+  }
+
+  return (
+    <LinkActionResult
+      status="done"
+      icon="🌙"
+      title="Fast started"
+      message={`${goalHours}h goal, reached at ${endsAt}.`}
+      secondaryAction={{ label: "Open Fasting", onPress: openFasting }}
+    />
+  );
+}
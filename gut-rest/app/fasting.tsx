@@ -0,0 +1,691 @@
+import React, { useState, useCallback, useMemo } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useFasting } from "@/contexts/FastingContext";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
+import {
+  FASTING_PROTOCOLS,
+  SESSION_GOAL_OPTIONS,
+  WEEKDAY_LABELS,
+  getFastingProtocol,
+} from "@/constants/Fasting";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useNow } from "@/hooks/useNow";
+import { FastingProtocolId, FastingSession } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const formatSessionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatClockTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function FastingScreen() {
+  const {
+    activeSession,
+    sessions,
+    currentProtocol,
+    isLoading,
+    error,
+    startFast,
+    endFast,
+    updateSession,
+    deleteSession,
+    backfillSessions,
+    setProtocol,
+  } = useFasting();
+  const { todayEntries } = useMealData();
+  const {
+    settings: { fastingGoalHours },
+  } = useSettings();
+
+  const [goalHours, setGoalHours] = useState(fastingGoalHours);
+  const [startFromLastMeal, setStartFromLastMeal] = useState(false);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const now = useNow(activeSession ? 1000 : null);
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  // A fast started "at my last meal" begins when today's last real meal ended
+  const lastMeal = useMemo(() => {
+    const breakingMeals = todayEntries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+    return breakingMeals.length > 0
+      ? breakingMeals[breakingMeals.length - 1]
+      : null;
+  }, [todayEntries]);
+
+  const pastSessions = useMemo(
+    () => sessions.filter((session) => session.endTime !== undefined),
+    [sessions]
+  );
+
+  const handleStart = useCallback(async () => {
+    try {
+      await startFast(
+        goalHours,
+        startFromLastMeal && lastMeal ? lastMeal.timestamp : undefined
+      );
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (err) {
+      console.error("Failed to start fast:", err);
+      Alert.alert("Error", "Failed to start the fast. Please try again.");
+    }
+  }, [startFast, goalHours, startFromLastMeal, lastMeal]);
+
+  const handleEnd = useCallback(() => {
+    Alert.alert("End Fast", "Stop the timer and save this fast?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "End Fast",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await endFast();
+            await Haptics.notificationAsync(
+              Haptics.NotificationFeedbackType.Success
+            );
+          } catch (err) {
+            console.error("Failed to end fast:", err);
+            Alert.alert("Error", "Failed to end the fast.");
+          }
+        },
+      },
+    ]);
+  }, [endFast]);
+
+  const handleGoalChange = useCallback(
+    async (session: FastingSession, hours: number) => {
+      try {
+        await updateSession(session.id, { goalHours: hours });
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      } catch (err) {
+        console.error("Failed to change fasting goal:", err);
+        Alert.alert("Error", "Failed to change the goal.");
+      }
+    },
+    [updateSession]
+  );
+
+  const handleDelete = useCallback(
+    (session: FastingSession) => {
+      Alert.alert(
+        "Delete Fast",
+        "This fast will be removed from your history. This action cannot be undone.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Delete",
+            style: "destructive",
+            onPress: async () => {
+              try {
+                await deleteSession(session.id);
+              } catch (err) {
+                console.error("Failed to delete fast:", err);
+                Alert.alert("Error", "Failed to delete the fast.");
+              }
+            },
+          },
+        ]
+      );
+    },
+    [deleteSession]
+  );
+
+  const handleProtocolChange = useCallback(
+    async (protocolId: FastingProtocolId | null, fastDays?: number[]) => {
+      const protocol = protocolId && getFastingProtocol(protocolId);
+      const days =
+        fastDays ??
+        (protocol && currentProtocol?.protocolId === protocolId
+          ? currentProtocol.fastDays
+          : (protocol?.defaultFastDays ?? []));
+
+      try {
+        await setProtocol(protocolId, days);
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      } catch (err) {
+        console.error("Failed to change fasting protocol:", err);
+        Alert.alert("Error", "Failed to change your fasting protocol.");
+      }
+    },
+    [setProtocol, currentProtocol]
+  );
+
+  const toggleFastDay = useCallback(
+    (day: number) => {
+      if (!currentProtocol?.protocolId) return;
+
+      const days = currentProtocol.fastDays.includes(day)
+        ? currentProtocol.fastDays.filter((d) => d !== day)
+        : [...currentProtocol.fastDays, day];
+      if (days.length === 0) return;
+
+      handleProtocolChange(currentProtocol.protocolId, days);
+    },
+    [currentProtocol, handleProtocolChange]
+  );
+
+  const handleBackfill = useCallback(async () => {
+    try {
+      setIsBackfilling(true);
+      const created = await backfillSessions();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        "Fasts Added",
+        created === 0
+          ? "No new fasts were found in your meal history."
+          : `Added ${created} ${created === 1 ? "fast" : "fasts"} from your meal history.`
+      );
+    } catch (err) {
+      console.error("Failed to backfill fasts:", err);
+      Alert.alert("Error", "Failed to create fasts from your meal history.");
+    } finally {
+      setIsBackfilling(false);
+    }
+  }, [backfillSessions]);
+
+  const renderGoalChips = (
+    selectedHours: number,
+    onSelect: (hours: number) => void
+  ) => {
+    // Custom and extended goals get their own chip next to the presets
+    const goalOptions = SESSION_GOAL_OPTIONS.includes(selectedHours)
+      ? SESSION_GOAL_OPTIONS
+      : [...SESSION_GOAL_OPTIONS, selectedHours].sort((a, b) => a - b);
+
+    return (
+      <ThemedView style={styles.chipRow}>
+        {goalOptions.map((hours) => {
+          const isSelected = hours === selectedHours;
+          return (
+            <Pressable
+              key={hours}
+              onPress={() => onSelect(hours)}
+              style={[
+                styles.chip,
+                isSelected && {
+                  backgroundColor: primaryColor,
+                  borderColor: primaryColor,
+                },
+              ]}
+            >
+              <ThemedText
+                style={[styles.chipText, isSelected && styles.chipTextSelected]}
+              >
+                {hours}h
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ThemedView>
+    );
+  };
+
+  const renderProtocol = () => {
+    const selectedId = currentProtocol?.protocolId ?? null;
+    const selected = selectedId ? getFastingProtocol(selectedId) : undefined;
+    const options: { id: FastingProtocolId | null; label: string }[] = [
+      { id: null, label: "None" },
+      ...FASTING_PROTOCOLS,
+    ];
+
+    return (
+      <ThemedView style={styles.section}>
+        <ThemedText type="defaultSemiBold">Protocol</ThemedText>
+        <ThemedView style={styles.chipRow}>
+          {options.map(({ id, label }) => {
+            const isSelected = id === selectedId;
+            return (
+              <Pressable
+                key={id ?? "none"}
+                onPress={() => handleProtocolChange(id)}
+                style={[
+                  styles.chip,
+                  isSelected && {
+                    backgroundColor: primaryColor,
+                    borderColor: primaryColor,
+                  },
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.chipText,
+                    isSelected && styles.chipTextSelected,
+                  ]}
+                >
+                  {label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </ThemedView>
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          {selected
+            ? selected.description
+            : `Days are graded against your ${fastingGoalHours}h fasting goal.`}
+        </ThemedText>
+
+        {selected?.usesFastDays && currentProtocol && (
+          <>
+            <ThemedText style={styles.label}>Fast Days</ThemedText>
+            <ThemedView style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((weekday, day) => {
+                const isSelected = currentProtocol.fastDays.includes(day);
+                return (
+                  <Pressable
+                    key={weekday}
+                    onPress={() => toggleFastDay(day)}
+                    style={[
+                      styles.chip,
+                      isSelected && {
+                        backgroundColor: primaryColor,
+                        borderColor: primaryColor,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.chipText,
+                        isSelected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {weekday}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </ThemedView>
+          </>
+        )}
+
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          Changes apply from today. Past days stay graded against the protocol
+          you followed then.
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  const renderActiveSession = (session: FastingSession) => {
+    const status = TimeCalculationService.getFastingSessionStatus(session, now);
+
+    return (
+      <ThemedView style={styles.section}>
+        <ThemedText type="defaultSemiBold">Current Fast</ThemedText>
+        <ThemedText style={styles.timer}>
+          {TimeCalculationService.formatTimer(status.currentFastDuration)}
+        </ThemedText>
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          Started {formatSessionTime(session.startTime)} ·{" "}
+          {status.goalReached
+            ? "Goal reached 🎉"
+            : `${status.timeToGoalFormatted} to go`}
+        </ThemedText>
+
+        <ThemedText style={styles.label}>Goal</ThemedText>
+        {renderGoalChips(session.goalHours, (hours) =>
+          handleGoalChange(session, hours)
+        )}
+
+        <Pressable
+          onPress={handleEnd}
+          style={[styles.primaryButton, { backgroundColor: primaryColor }]}
+        >
+          <ThemedText style={styles.primaryButtonText}>End Fast</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  };
+
+  const renderStartSession = () => (
+    <ThemedView style={styles.section}>
+      <ThemedText type="defaultSemiBold">Start a Fast</ThemedText>
+
+      <ThemedText style={styles.label}>Goal</ThemedText>
+      {renderGoalChips(goalHours, setGoalHours)}
+
+      {lastMeal && (
+        <>
+          <ThemedText style={styles.label}>Starting</ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {[false, true].map((fromLastMeal) => {
+              const isSelected = fromLastMeal === startFromLastMeal;
+              return (
+                <Pressable
+                  key={String(fromLastMeal)}
+                  onPress={() => setStartFromLastMeal(fromLastMeal)}
+                  style={[
+                    styles.chip,
+                    isSelected && {
+                      backgroundColor: primaryColor,
+                      borderColor: primaryColor,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.chipText,
+                      isSelected && styles.chipTextSelected,
+                    ]}
+                  >
+                    {fromLastMeal
+                      ? `At my last meal (${formatClockTime(lastMeal.timestamp)})`
+                      : "Now"}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </ThemedView>
+        </>
+      )}
+
+      <Pressable
+        onPress={handleStart}
+        style={[styles.primaryButton, { backgroundColor: primaryColor }]}
+      >
+        <ThemedText style={styles.primaryButtonText}>Start Fast</ThemedText>
+      </Pressable>
+    </ThemedView>
+  );
+
+  const renderPastSession = (session: FastingSession) => {
+    const status = TimeCalculationService.getFastingSessionStatus(session);
+
+    return (
+      <ThemedView key={session.id} style={styles.sessionCard}>
+        <ThemedView style={styles.sessionInfo}>
+          <ThemedText style={styles.sessionDuration}>
+            {TimeCalculationService.formatLongDuration(
+              status.currentFastDuration
+            )}
+            {status.goalReached ? " ✓" : ""}
+            <ThemedText
+              style={[styles.sessionGoal, { color: subtleTextColor }]}
+            >
+              {"  "}
+              {session.goalHours}h goal
+            </ThemedText>
+          </ThemedText>
+          <ThemedText style={[styles.sessionMeta, { color: subtleTextColor }]}>
+            {formatSessionTime(session.startTime)} →{" "}
+            {formatSessionTime(session.endTime!)}
+          </ThemedText>
+          {session.source === "backfill" && (
+            <ThemedText style={[styles.badge, { color: subtleTextColor }]}>
+              From meal log
+            </ThemedText>
+          )}
+        </ThemedView>
+
+        <Pressable
+          onPress={() => handleDelete(session)}
+          style={styles.deleteButton}
+        >
+          <ThemedText style={styles.deleteText}>Delete</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Fasting
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {activeSession
+          ? renderActiveSession(activeSession)
+          : renderStartSession()}
+
+        {renderProtocol()}
+
+        {/* Backfill */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold">From Your Meal Log</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Turn past gaps of 12 hours or more between meals into fasts, so your
+            history includes fasts you never started a timer for.
+          </ThemedText>
+          <Pressable
+            onPress={handleBackfill}
+            disabled={isBackfilling}
+            style={[styles.secondaryButton, { borderColor: primaryColor }]}
+          >
+            {isBackfilling ? (
+              <ActivityIndicator size="small" color={primaryColor} />
+            ) : (
+              <ThemedText
+                style={[styles.secondaryButtonText, { color: primaryColor }]}
+              >
+                Add Fasts from History
+              </ThemedText>
+            )}
+          </Pressable>
+        </ThemedView>
+
+        {/* Past fasts */}
+        <ThemedText type="defaultSemiBold" style={styles.listTitle}>
+          Past Fasts
+        </ThemedText>
+        {isLoading && sessions.length === 0 ? (
+          <ThemedView style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={primaryColor} />
+          </ThemedView>
+        ) : error ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </ThemedView>
+        ) : pastSessions.length === 0 ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>
+              Finished fasts show up here.
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          pastSessions.map(renderPastSession)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  section: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  timer: {
+    fontSize: 40,
+    lineHeight: 48,
+    fontWeight: "700",
+    fontVariant: ["tabular-nums"],
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  primaryButton: {
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.xs,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  listTitle: {
+    marginTop: Spacing.sm,
+  },
+  sessionCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    gap: Spacing.sm,
+  },
+  sessionInfo: {
+    flex: 1,
+    backgroundColor: "transparent",
+    gap: 2,
+  },
+  sessionDuration: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  sessionGoal: {
+    fontSize: 13,
+    fontWeight: "400",
+  },
+  sessionMeta: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  badge: {
+    fontSize: 12,
+    fontStyle: "italic",
+  },
+  deleteButton: {
+    padding: Spacing.xs,
+  },
+  deleteText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    textAlign: "center",
+    maxWidth: 280,
+    lineHeight: 20,
+  },
+  errorText: {
+    color: "#FF6B6B",
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { DateRangeSelector, IntakeHeatmap } from "@/components/stats";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { databaseService } from "@/services/database";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import {
+  formatEntryTime,
+  getEntryDateString,
+  parseDateString,
+} from "@/services/dateUtils";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { WEEKDAY_LABELS } from "@/constants/Fasting";
+import { getPresetInsightsRange } from "@/constants/Insights";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { InsightsRange, MealCategory, MealEntry } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+export default function HeatmapScreen() {
+  const { todayEntries } = useMealData();
+  const { activeCategories } = useCategories();
+  const {
+    settings: { dayStartHour },
+  } = useSettings();
+
+  const [range, setRange] = useState<InsightsRange>(() =>
+    getPresetInsightsRange("30d")
+  );
+  const [entries, setEntries] = useState<MealEntry[]>([]);
+  const [category, setCategory] = useState<MealCategory | null>(null);
+  const [weighted, setWeighted] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<{
+    weekday: number;
+    hour: number;
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  // Today's entries and the day start both change what lands in each cell
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        await databaseService.initialize();
+        const rangeEntries = await databaseService.getMealEntriesInRange(
+          range.startDate,
+          range.endDate
+        );
+        if (!cancelled) {
+          setEntries(rangeEntries);
+        }
+      } catch (err) {
+        console.error("Failed to load heatmap entries:", err);
+        if (!cancelled) {
+          setError("Failed to load entries for this period");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [range, todayEntries, dayStartHour]);
+
+  const cells = useMemo(
+    () => TimeCalculationService.getIntakeHeatmap(entries, category, weighted),
+    [entries, category, weighted]
+  );
+
+  const selectedEntries = selectedCell
+    ? cells[selectedCell.weekday][selectedCell.hour].entries
+    : [];
+
+  const openDay = (date: string) => {
+    router.dismissTo({ pathname: "/history", params: { date } });
+  };
+
+  const formatCellTitle = (weekday: number, hour: number) => {
+    const formatHour = (value: number) =>
+      new Date(2000, 0, 1, value).toLocaleTimeString("en-US", {
+        hour: "numeric",
+      });
+    return `${WEEKDAY_LABELS[weekday]} · ${formatHour(hour)} – ${formatHour(
+      (hour + 1) % 24
+    )}`;
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        isSelected && {
+          backgroundColor: primaryColor,
+          borderColor: primaryColor,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[styles.chipText, isSelected && styles.chipTextSelected]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const renderEntry = (entry: MealEntry) => {
+    const categoryConfig = getCategoryConfig(entry.category);
+    const date = getEntryDateString(entry);
+
+    return (
+      <Pressable
+        key={entry.id}
+        onPress={() => openDay(date)}
+        style={styles.entryCard}
+      >
+        <ThemedText style={styles.entryIcon}>{categoryConfig.icon}</ThemedText>
+        <ThemedView style={styles.entryText}>
+          <ThemedText style={styles.entryTitle}>
+            {categoryConfig.label}
+            <ThemedText style={[styles.entryTime, { color: subtleTextColor }]}>
+              {"  "}
+              {parseDateString(date).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+              })}{" "}
+              {formatEntryTime(entry)}
+            </ThemedText>
+          </ThemedText>
+          {entry.notes ? (
+            <ThemedText
+              style={[styles.entryNotes, { color: subtleTextColor }]}
+              numberOfLines={2}
+            >
+              {entry.notes}
+            </ThemedText>
+          ) : null}
+        </ThemedView>
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Eating Times
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Period and filters */}
+        <ThemedView style={styles.section}>
+          <DateRangeSelector range={range} onRangeChange={setRange} />
+
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Category
+          </ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {renderChip("all", "All", category === null, () =>
+              setCategory(null)
+            )}
+            {activeCategories.map((definition) =>
+              renderChip(
+                definition.id,
+                `${definition.icon} ${definition.label}`,
+                category === definition.id,
+                () => setCategory(definition.id)
+              )
+            )}
+          </ThemedView>
+
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Shade by
+          </ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {renderChip("count", "Entry count", !weighted, () =>
+              setWeighted(false)
+            )}
+            {renderChip("weighted", "Meal weight", weighted, () =>
+              setWeighted(true)
+            )}
+          </ThemedView>
+        </ThemedView>
+
+        {/* Heatmap */}
+        <ThemedView style={styles.section}>
+          {isLoading && entries.length === 0 ? (
+            <ThemedView style={styles.centerContainer}>
+              <ActivityIndicator size="large" color={primaryColor} />
+            </ThemedView>
+          ) : error ? (
+            <ThemedView style={styles.centerContainer}>
+              <ThemedText style={styles.errorText}>{error}</ThemedText>
+            </ThemedView>
+          ) : (
+            <>
+              <IntakeHeatmap
+                cells={cells}
+                selectedCell={selectedCell}
+                onCellPress={({ weekday, hour }) =>
+                  setSelectedCell(
+                    selectedCell?.weekday === weekday &&
+                      selectedCell.hour === hour
+                      ? null
+                      : { weekday, hour }
+                  )
+                }
+              />
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                {weighted
+                  ? "Darker cells held heavier meals. Tap a cell to see its entries."
+                  : "Darker cells held more entries. Tap a cell to see its entries."}
+              </ThemedText>
+            </>
+          )}
+        </ThemedView>
+
+        {/* Entries in the tapped cell */}
+        {selectedCell && (
+          <ThemedView style={styles.cellEntries}>
+            <ThemedText type="defaultSemiBold">
+              {formatCellTitle(selectedCell.weekday, selectedCell.hour)}
+            </ThemedText>
+            {selectedEntries.length === 0 ? (
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                Nothing logged in this hour.
+              </ThemedText>
+            ) : (
+              // Newest first, like search results
+              [...selectedEntries]
+                .sort((a, b) => b.timestamp - a.timestamp)
+                .map(renderEntry)
+            )}
+          </ThemedView>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.lg,
+  },
+  section: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  cellEntries: {
+    gap: Spacing.xs,
+  },
+  entryCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    gap: Spacing.sm,
+  },
+  entryIcon: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  entryText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  entryTime: {
+    fontSize: 13,
+    fontWeight: "400",
+  },
+  entryNotes: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: "italic",
+  },
+  centerContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  errorText: {
+    color: "#FF6B6B",
+    textAlign: "center",
+  },
+});
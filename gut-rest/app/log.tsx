@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { LinkActionResult } from "@/components/LinkActionResult";
+import { useMealData } from "@/contexts/MealDataContext";
+import { databaseService } from "@/services/database";
+import { LogLinkParams, parseLogLink } from "@/services/deepLinks";
+import { formatEntryTime } from "@/services/dateUtils";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { MealEntry } from "@/types";
+
+type LogState =
+  | { status: "working" }
+  | { status: "done"; entry: MealEntry; isToday: boolean }
+  | { status: "error"; message: string };
+
+/**
+ * Handles gutrest://log links: logs the entry straight away, or hands it to
+ * quick-add when the link asks for a review or names no category
+ */
+export default function LogLinkScreen() {
+  const params = useLocalSearchParams<LogLinkParams>();
+  const { addMealEntry } = useMealData();
+  const [state, setState] = useState<LogState>({ status: "working" });
+
+  // Effects can run twice in development, and a link must log only once
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const handleLink = async () => {
+      try {
+        // Custom categories are only known once the database is open
+        await databaseService.initialize();
+
+        const link = parseLogLink(params);
+        if (!link.ok) {
+          await Haptics.notificationAsync(
+            Haptics.NotificationFeedbackType.Error
+          );
+          setState({ status: "error", message: link.error });
+          return;
+        }
+
+        if (link.review) {
+          router.replace({
+            pathname: "/quick-add",
+            params: {
+              category: link.category ?? undefined,
+              timestamp: String(link.timestamp),
+              notes: link.notes,
+              tags: link.tags.join(","),
+            },
+          });
+          return;
+        }
+
+        const result = await addMealEntry(
+          link.category!,
+          link.timestamp,
+          link.notes,
+          link.tags
+        );
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+        setState({
+          status: "done",
+          entry: result.mealEntry,
+          isToday: result.isToday,
+        });
+      } catch (error) {
+        console.error("[LogLink] Failed to log entry:", error);
+        setState({
+          status: "error",
+          message: "Failed to log the entry. Please try again.",
+        });
+      }
+    };
+
+    handleLink();
+  }, [params, addMealEntry]);
+
+  if (state.status === "working") {
+    return <LinkActionResult status="working" icon="" title="Logging..." />;
+  }
+
+  if (state.status === "error") {
+    return (
+      <LinkActionResult
+        status="error"
+        icon="⚠️"
+        title="Couldn't log from this link"
+        message={state.message}
+        secondaryAction={{
+          label: "Open Quick Add",
+          onPress: () => router.replace("/quick-add"),
+        }}
+      />
+    );
+  }
+
+  const { entry, isToday } = state;
+  const categoryConfig = getCategoryConfig(entry.category);
+  const loggedAt = isToday
+    ? formatEntryTime(entry)
+    : `${new Date(entry.timestamp).toLocaleDateString([], {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+      })}, ${formatEntryTime(entry)}`;
+
+  return (
+    <LinkActionResult
+      status="done"
+      icon={categoryConfig.icon}
+      title={`${categoryConfig.label} logged`}
+      message={
+        entry.notes ? `${loggedAt} · ${entry.notes}` : `Logged at ${loggedAt}`
+      }
+      secondaryAction={{
+        label: "Edit Entry",
+        onPress: () =>
+          router.replace({
+            pathname: "/quick-add",
+            params: { editEntryId: entry.id },
+          }),
+      }}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   ScrollView,
@@ -13,28 +13,103 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { IconSymbol } from "@/components/ui/IconSymbol";
-import { CategoryGrid, TimeSelector } from "@/components/quick-add";
+import {
+  CategoryGrid,
+  TimeSelector,
+  NotesInput,
+  RevisionHistory,
+  TagPicker,
+  QuickPicks,
+  SaveTemplateButton,
+} from "@/components/quick-add";
 import { useMealData } from "@/contexts/MealDataContext";
-import { MealCategory, MealEntry } from "@/types";
+import { useSettings } from "@/contexts/SettingsContext";
+import { getCategoryLabel, isValidCategory } from "@/constants/MealCategories";
+import {
+  MAX_TEMPLATE_NAME_LENGTH,
+  RECENT_ENTRIES_COUNT,
+  RECENT_ENTRIES_DAYS,
+} from "@/constants/Settings";
+import {
+  MealCategory,
+  MealEntry,
+  MealTemplate,
+  EntryRevision,
+  MealEntrySnapshot,
+  Tag,
+} from "@/types";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { databaseService } from "@/services/database";
+import { storageService } from "@/services/storage";
+import {
+  findYesterdayMeal,
+  getRecentDistinctEntries,
+} from "@/services/mealTemplates";
+import {
+  getCurrentTimeZone,
+  getDateStringFromTimestamp,
+  getDateStringWithOffset,
+  getEntryDateString,
+  getTodayDateString,
+  getUtcOffsetMinutes,
+  parseDateString,
+} from "@/services/dateUtils";
+
+const MINUTE_MS = 60 * 1000;
+
+// Shorter offsets are just the time it took to open quick-add
+const MIN_TEMPLATE_OFFSET_MINUTES = 5;
 
 export default function QuickAddModal() {
-  const params = useLocalSearchParams<{ editEntryId?: string }>();
+  const params = useLocalSearchParams<{
+    editEntryId?: string;
+    // Prefill from a gutrest://log link
+    category?: string;
+    timestamp?: string;
+    notes?: string;
+    tags?: string;
+  }>();
   const editEntryId = params.editEntryId;
   const isEditMode = !!editEntryId;
 
+  const { settings } = useSettings();
+  // Preselect the user's default for new entries, unless it was archived
+  const defaultCategory =
+    !isEditMode && isValidCategory(settings.defaultMealCategory)
+      ? settings.defaultMealCategory
+      : null;
+
   const [selectedCategory, setSelectedCategory] = useState<MealCategory | null>(
-    null
+    () =>
+      !isEditMode && params.category && isValidCategory(params.category)
+        ? params.category
+        : defaultCategory
+  );
+  const [selectedTime, setSelectedTime] = useState(() =>
+    !isEditMode && params.timestamp
+      ? new Date(Number(params.timestamp))
+      : new Date()
+  );
+  const [notes, setNotes] = useState(() =>
+    isEditMode ? "" : (params.notes ?? "")
   );
-  const [selectedTime, setSelectedTime] = useState(new Date());
+  const [tags, setTags] = useState<string[]>(() =>
+    !isEditMode && params.tags ? params.tags.split(",") : []
+  );
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [editingEntry, setEditingEntry] = useState<MealEntry | null>(null);
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [recentPool, setRecentPool] = useState<MealEntry[]>([]);
 
   const {
     addMealEntry,
     updateMealEntry,
     getMealEntryById,
+    getEntryRevisions,
+    getTags,
     todayEntries,
     error,
   } = useMealData();
@@ -53,6 +128,65 @@ export default function QuickAddModal() {
     "text"
   );
 
+  // Load previously used tags for autocomplete
+  useEffect(() => {
+    getTags()
+      .then(setAvailableTags)
+      .catch((error) =>
+        console.error("[QuickAdd] Failed to load tags:", error)
+      );
+  }, [getTags]);
+
+  // Settings may still be loading when quick-add opens from a link
+  useEffect(() => {
+    if (!isEditMode && selectedCategory === null && defaultCategory) {
+      setSelectedCategory(defaultCategory);
+    }
+  }, [isEditMode, selectedCategory, defaultCategory]);
+
+  // Load templates and recent entries for the shortcuts on new entries
+  useEffect(() => {
+    if (isEditMode) return;
+
+    const loadQuickPicks = async () => {
+      try {
+        await databaseService.initialize();
+
+        const today = getTodayDateString();
+        const [savedTemplates, entries] = await Promise.all([
+          storageService.getMealTemplates(),
+          databaseService.getMealEntriesInRange(
+            getDateStringWithOffset(today, -(RECENT_ENTRIES_DAYS - 1)),
+            today
+          ),
+        ]);
+        // Templates of archived categories stay stored but aren't offered
+        setTemplates(
+          savedTemplates.filter((template) =>
+            isValidCategory(template.category)
+          )
+        );
+        setRecentPool(entries);
+      } catch (error) {
+        console.error("[QuickAdd] Failed to load quick picks:", error);
+      }
+    };
+
+    loadQuickPicks();
+  }, [isEditMode]);
+
+  const recentEntries = useMemo(
+    () => getRecentDistinctEntries(recentPool, RECENT_ENTRIES_COUNT, templates),
+    [recentPool, templates]
+  );
+
+  const yesterdayMeal = useMemo(() => {
+    const yesterday = getDateStringWithOffset(getTodayDateString(), -1);
+    return findYesterdayMeal(
+      recentPool.filter((entry) => getEntryDateString(entry) === yesterday)
+    );
+  }, [recentPool]);
+
   // Load existing entry data when in edit mode
   useEffect(() => {
     const loadEditEntry = async () => {
@@ -67,6 +201,9 @@ export default function QuickAddModal() {
             setEditingEntry(existingEntry);
             setSelectedCategory(existingEntry.category);
             setSelectedTime(new Date(existingEntry.timestamp));
+            setNotes(existingEntry.notes ?? "");
+            setTags(existingEntry.tags ?? []);
+            setRevisions(await getEntryRevisions(existingEntry.id));
             console.log(
               "[QuickAdd] Loaded existing entry for editing:",
               existingEntry
@@ -96,7 +233,7 @@ export default function QuickAddModal() {
     };
 
     loadEditEntry();
-  }, [isEditMode, editEntryId, getMealEntryById]);
+  }, [isEditMode, editEntryId, getMealEntryById, getEntryRevisions]);
 
   const handleCategorySelect = useCallback((categoryId: MealCategory) => {
     setSelectedCategory(categoryId);
@@ -106,6 +243,96 @@ export default function QuickAddModal() {
     setSelectedTime(time);
   }, []);
 
+  const handleApplyTemplate = useCallback(async (template: MealTemplate) => {
+    await Haptics.selectionAsync();
+    setSelectedCategory(template.category);
+    setNotes(template.notes ?? "");
+    setTags(template.tags);
+    setSelectedTime(
+      new Date(Date.now() - (template.timeOffsetMinutes ?? 0) * MINUTE_MS)
+    );
+  }, []);
+
+  const handleApplyEntry = useCallback(async (entry: MealEntry) => {
+    await Haptics.selectionAsync();
+    setSelectedCategory(entry.category);
+    setNotes(entry.notes ?? "");
+    setTags(entry.tags ?? []);
+  }, []);
+
+  const handleRepeatYesterday = useCallback(async () => {
+    if (!yesterdayMeal) return;
+
+    try {
+      setIsSaving(true);
+      const { entry } = yesterdayMeal;
+      await addMealEntry(entry.category, Date.now(), entry.notes, entry.tags);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (error) {
+      console.error("[QuickAdd] Failed to repeat yesterday's meal:", error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert("Error", "Failed to save your meal. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [yesterdayMeal, addMealEntry]);
+
+  const handleSaveTemplate = useCallback(
+    async (name: string) => {
+      if (!selectedCategory) return;
+
+      const offsetMinutes = Math.round(
+        (Date.now() - selectedTime.getTime()) / MINUTE_MS
+      );
+      const now = Date.now();
+      const template: MealTemplate = {
+        id: `template_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        category: selectedCategory,
+        notes: notes.trim() || undefined,
+        tags,
+        ...(offsetMinutes >= MIN_TEMPLATE_OFFSET_MINUTES && {
+          timeOffsetMinutes: offsetMinutes,
+        }),
+        createdAt: now,
+      };
+
+      try {
+        const saved = await storageService.saveMealTemplate(template);
+        setTemplates(saved.filter((item) => isValidCategory(item.category)));
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+      } catch (error) {
+        console.error("[QuickAdd] Failed to save template:", error);
+        Alert.alert("Error", "Failed to save the template. Please try again.");
+      }
+    },
+    [selectedCategory, selectedTime, notes, tags]
+  );
+
+  const handleDeleteTemplate = useCallback((template: MealTemplate) => {
+    Alert.alert("Delete Template?", `"${template.name}" will be removed.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            const saved = await storageService.deleteMealTemplate(template.id);
+            setTemplates(
+              saved.filter((item) => isValidCategory(item.category))
+            );
+          } catch (error) {
+            console.error("[QuickAdd] Failed to delete template:", error);
+            Alert.alert("Error", "Failed to delete the template.");
+          }
+        },
+      },
+    ]);
+  }, []);
+
   const handleSave = useCallback(async () => {
     if (!selectedCategory) {
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
@@ -124,23 +351,34 @@ export default function QuickAddModal() {
 
       if (isEditMode && editingEntry) {
         // Update existing entry
-        const updates = {
+        const timestamp = selectedTime.getTime();
+        const timeChanged = timestamp !== editingEntry.timestamp;
+        const updates: Partial<MealEntry> = {
           category: selectedCategory,
-          timestamp: selectedTime.getTime(),
+          timestamp,
+          notes: notes.trim(),
+          tags,
+          // A new time is picked on this device's clock, so it takes its zone
+          ...(timeChanged && {
+            utcOffset: getUtcOffsetMinutes(timestamp),
+            timezone: getCurrentTimeZone(),
+          }),
         };
 
         await updateMealEntry(editingEntry.id, updates);
 
         // Check if the date changed
-        const originalDate = new Date(
-          editingEntry.timestamp
-        ).toLocaleDateString();
-        const newDate = selectedTime.toLocaleDateString();
+        const originalDate = getEntryDateString(editingEntry);
+        const newDate = timeChanged
+          ? getDateStringFromTimestamp(timestamp)
+          : originalDate;
 
         if (originalDate !== newDate) {
           Alert.alert(
             "Entry Updated",
-            `Your meal entry was moved to ${newDate} due to the time change.`,
+            `Your meal entry was moved to ${parseDateString(
+              newDate
+            ).toLocaleDateString()} due to the time change.`,
             [{ text: "Got it" }]
           );
         }
@@ -150,7 +388,9 @@ export default function QuickAddModal() {
         // Add new meal entry
         const result = await addMealEntry(
           selectedCategory,
-          selectedTime.getTime()
+          selectedTime.getTime(),
+          notes.trim() || undefined,
+          tags
         );
 
         if (result.success && !result.isToday) {
@@ -191,12 +431,70 @@ export default function QuickAddModal() {
   }, [
     selectedCategory,
     selectedTime,
+    notes,
+    tags,
     addMealEntry,
     updateMealEntry,
     isEditMode,
     editingEntry,
   ]);
 
+  const handleRevert = useCallback(
+    (snapshot: MealEntrySnapshot) => {
+      if (!editingEntry) return;
+
+      Alert.alert(
+        "Revert Entry?",
+        "The entry will be restored to this version. The revert is recorded in its history.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Revert",
+            onPress: async () => {
+              try {
+                setIsSaving(true);
+                await updateMealEntry(editingEntry.id, {
+                  category: snapshot.category,
+                  timestamp: snapshot.timestamp,
+                  notes: snapshot.notes ?? "",
+                  ...(snapshot.tags && { tags: snapshot.tags }),
+                  ...(snapshot.utcOffset !== undefined && {
+                    utcOffset: snapshot.utcOffset,
+                    timezone: snapshot.timezone,
+                  }),
+                });
+
+                const revertedEntry = await getMealEntryById(editingEntry.id);
+                if (revertedEntry) {
+                  setEditingEntry(revertedEntry);
+                  setSelectedCategory(revertedEntry.category);
+                  setSelectedTime(new Date(revertedEntry.timestamp));
+                  setNotes(revertedEntry.notes ?? "");
+                  setTags(revertedEntry.tags ?? []);
+                }
+                setRevisions(await getEntryRevisions(editingEntry.id));
+
+                await Haptics.notificationAsync(
+                  Haptics.NotificationFeedbackType.Success
+                );
+                console.log("[QuickAdd] Entry reverted:", editingEntry.id);
+              } catch (error) {
+                console.error("[QuickAdd] Failed to revert entry:", error);
+                Alert.alert(
+                  "Error",
+                  "Failed to revert the entry. Please try again."
+                );
+              } finally {
+                setIsSaving(false);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [editingEntry, updateMealEntry, getMealEntryById, getEntryRevisions]
+  );
+
   const handleCancel = useCallback(async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
@@ -204,8 +502,13 @@ export default function QuickAddModal() {
     const hasChanges = isEditMode
       ? editingEntry &&
         (selectedCategory !== editingEntry.category ||
-          selectedTime.getTime() !== editingEntry.timestamp)
-      : selectedCategory !== null;
+          selectedTime.getTime() !== editingEntry.timestamp ||
+          notes.trim() !== (editingEntry.notes ?? "") ||
+          [...tags].sort().join(",") !==
+            [...(editingEntry.tags ?? [])].sort().join(","))
+      : selectedCategory !== defaultCategory ||
+        notes.trim() !== "" ||
+        tags.length > 0;
 
     if (hasChanges) {
       // Show confirmation if user has made changes
@@ -225,7 +528,15 @@ export default function QuickAddModal() {
     } else {
       router.back();
     }
-  }, [selectedCategory, selectedTime, isEditMode, editingEntry]);
+  }, [
+    selectedCategory,
+    defaultCategory,
+    selectedTime,
+    notes,
+    tags,
+    isEditMode,
+    editingEntry,
+  ]);
 
   const isSaveEnabled = selectedCategory && !isSaving && !isLoading;
 
@@ -288,10 +599,25 @@ export default function QuickAddModal() {
         contentContainerStyle={styles.scrollContent}
       >
         <ThemedView style={styles.content}>
+          {/* Templates, recent entries and yesterday's meal */}
+          {!isEditMode && (
+            <QuickPicks
+              templates={templates}
+              recentEntries={recentEntries}
+              yesterdayMeal={yesterdayMeal}
+              onApplyTemplate={handleApplyTemplate}
+              onDeleteTemplate={handleDeleteTemplate}
+              onApplyEntry={handleApplyEntry}
+              onRepeatYesterday={handleRepeatYesterday}
+              editable={!isSaving}
+            />
+          )}
+
           {/* Category Selection */}
           <CategoryGrid
             selectedCategory={selectedCategory}
             onCategorySelect={handleCategorySelect}
+            onManageCategories={() => router.push("/categories")}
           />
 
           {/* Time Selection */}
@@ -301,6 +627,32 @@ export default function QuickAddModal() {
             maxTime={new Date()}
           />
 
+          {/* Notes */}
+          <NotesInput
+            notes={notes}
+            onNotesChange={setNotes}
+            editable={!isSaving}
+          />
+
+          {/* Tags */}
+          <TagPicker
+            selectedTags={tags}
+            onTagsChange={setTags}
+            availableTags={availableTags}
+            editable={!isSaving}
+          />
+
+          {/* Save the form for next time */}
+          {!isEditMode && selectedCategory && (
+            <SaveTemplateButton
+              defaultName={(
+                notes.trim() || getCategoryLabel(selectedCategory)
+              ).slice(0, MAX_TEMPLATE_NAME_LENGTH)}
+              onSave={handleSaveTemplate}
+              editable={!isSaving}
+            />
+          )}
+
           {/* Quick Tips */}
           <ThemedView style={styles.tipsContainer}>
             <ThemedText type="default" style={styles.tipsTitle}>
@@ -333,6 +685,27 @@ export default function QuickAddModal() {
             )}
           </ThemedView>
 
+          {/* Revision History */}
+          {isEditMode && (
+            <RevisionHistory
+              revisions={revisions}
+              current={
+                editingEntry
+                  ? {
+                      category: editingEntry.category,
+                      timestamp: editingEntry.timestamp,
+                      notes: editingEntry.notes || null,
+                      tags: [...(editingEntry.tags ?? [])].sort(),
+                      utcOffset: editingEntry.utcOffset,
+                      timezone: editingEntry.timezone,
+                    }
+                  : null
+              }
+              onRevert={handleRevert}
+              disabled={isSaving}
+            />
+          )}
+
           {/* Error Display */}
           {error && (
             <ThemedView style={styles.errorContainer}>
@@ -354,7 +727,7 @@ export default function QuickAddModal() {
             <ThemedText style={styles.summaryText}>
               Selected:{" "}
               <ThemedText style={styles.summaryCategory}>
-                {selectedCategory.replace("_", " ")}
+                {getCategoryLabel(selectedCategory)}
               </ThemedText>
             </ThemedText>
           ) : (
@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { databaseService } from "@/services/database";
+import {
+  formatEntryTime,
+  getEntryDateString,
+  getTodayDateString,
+  getYesterdayDateString,
+} from "@/services/dateUtils";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { MealEntry } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchResultDay {
+  date: string; // YYYY-MM-DD
+  entries: MealEntry[];
+}
+
+export default function SearchScreen() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MealEntry[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  // Debounce typing so we only query once the user pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        setError(null);
+
+        await databaseService.initialize();
+        const entries = await databaseService.searchMealEntries(trimmed);
+        if (!cancelled) {
+          setResults(entries);
+        }
+      } catch (err) {
+        console.error("Failed to search meal notes:", err);
+        if (!cancelled) {
+          setError("Search failed. Please try again.");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Results arrive newest first, so days come out newest first too
+  const resultDays = useMemo(() => {
+    const days: SearchResultDay[] = [];
+    for (const entry of results) {
+      const date = getEntryDateString(entry);
+      const lastDay = days[days.length - 1];
+      if (lastDay && lastDay.date === date) {
+        lastDay.entries.push(entry);
+      } else {
+        days.push({ date, entries: [entry] });
+      }
+    }
+    return days;
+  }, [results]);
+
+  const openDay = (date: string) => {
+    router.dismissTo({ pathname: "/history", params: { date } });
+  };
+
+  const formatDayHeader = (dateString: string) => {
+    if (dateString === getTodayDateString()) return "Today";
+    if (dateString === getYesterdayDateString()) return "Yesterday";
+
+    const [year, month, day] = dateString.split("-").map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+      year:
+        date.getFullYear() !== new Date().getFullYear() ? "numeric" : undefined,
+    });
+  };
+
+  const renderDay = ({ date, entries }: SearchResultDay) => (
+    <ThemedView key={date} style={styles.dayGroup}>
+      <Pressable onPress={() => openDay(date)} style={styles.dayHeader}>
+        <ThemedText type="defaultSemiBold">{formatDayHeader(date)}</ThemedText>
+        <ThemedText style={[styles.dayLink, { color: primaryColor }]}>
+          Open day ›
+        </ThemedText>
+      </Pressable>
+
+      {entries.map((entry) => {
+        const categoryConfig = getCategoryConfig(entry.category);
+
+        return (
+          <Pressable
+            key={entry.id}
+            onPress={() => openDay(date)}
+            style={styles.entryCard}
+          >
+            <ThemedText style={styles.entryIcon}>
+              {categoryConfig.icon}
+            </ThemedText>
+            <ThemedView style={styles.entryText}>
+              <ThemedText style={styles.entryTitle}>
+                {categoryConfig.label}
+                <ThemedText
+                  style={[styles.entryTime, { color: subtleTextColor }]}
+                >
+                  {"  "}
+                  {formatEntryTime(entry)}
+                </ThemedText>
+              </ThemedText>
+              <ThemedText
+                style={[styles.entryNotes, { color: subtleTextColor }]}
+                numberOfLines={2}
+              >
+                {entry.notes}
+              </ThemedText>
+            </ThemedView>
+          </Pressable>
+        );
+      })}
+    </ThemedView>
+  );
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Search Notes
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ThemedView style={styles.searchBar}>
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search your meal notes"
+          placeholderTextColor={subtleTextColor}
+          style={[styles.searchInput, { color: textColor }]}
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {isSearching ? (
+          <ThemedView style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={primaryColor} />
+          </ThemedView>
+        ) : error ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </ThemedView>
+        ) : !hasQuery ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={styles.emptyIcon}>🔍</ThemedText>
+            <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>
+              Find past meals by the notes you wrote for them.
+            </ThemedText>
+          </ThemedView>
+        ) : resultDays.length === 0 ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText type="subtitle" style={styles.emptyTitle}>
+              No matches
+            </ThemedText>
+            <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>
+              No notes contain &quot;{query.trim()}&quot;.
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          resultDays.map(renderDay)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  searchBar: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  searchInput: {
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.12)",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingTop: Spacing.sm,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.md,
+  },
+  dayGroup: {
+    gap: Spacing.xs,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+  },
+  dayLink: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  entryCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    gap: Spacing.sm,
+  },
+  entryIcon: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  entryText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  entryTime: {
+    fontSize: 13,
+    fontWeight: "400",
+  },
+  entryNotes: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: "italic",
+  },
+  centerContainer: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    lineHeight: 56,
+  },
+  emptyTitle: {
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  errorText: {
+    color: "#FF6B6B",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,594 @@
+import React, { useCallback } from "react";
+import { StyleSheet, ScrollView, Pressable, Alert } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, Href } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  MIN_FASTING_GOAL_HOURS,
+  MAX_FASTING_GOAL_HOURS,
+  STREAK_GRACE_OPTIONS,
+  THEME_OPTIONS,
+  REMINDER_OPTIONS,
+  LOGGING_REMINDER_HOURS_OPTIONS,
+} from "@/constants/Settings";
+import { NotificationService } from "@/services/NotificationService";
+import { AppSettings, NotificationPreferences, ReminderKind } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const DATA_LINKS: { href: Href; title: string; description: string }[] = [
+  {
+    href: "/categories",
+    title: "Categories",
+    description: "Add, rename, reorder or archive meal categories",
+  },
+  {
+    href: "/trash",
+    title: "Trash",
+    description: "Restore deleted entries and set how long they're kept",
+  },
+  {
+    href: "/data-transfer",
+    title: "Export & Import",
+    description: "Move your meal log in and out as CSV",
+  },
+  {
+    href: "/backup",
+    title: "Backup & Restore",
+    description: "Save everything to a file or restore from one",
+  },
+];
+
+export default function SettingsScreen() {
+  const { settings, updateSettings, resetSettings } = useSettings();
+  const { activeCategories } = useCategories();
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const saveSettings = useCallback(
+    async (updates: Partial<AppSettings>) => {
+      try {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        await updateSettings(updates);
+      } catch (error) {
+        console.error("Failed to update settings:", error);
+        Alert.alert("Error", "Failed to save the setting. Please try again.");
+      }
+    },
+    [updateSettings]
+  );
+
+  const handleReset = useCallback(() => {
+    Alert.alert(
+      "Reset Settings?",
+      "Your fasting goal, day start, streak grace days, default meal, reminders and appearance go back to their defaults. Your meal log isn't affected.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await resetSettings();
+              await Haptics.notificationAsync(
+                Haptics.NotificationFeedbackType.Success
+              );
+            } catch (error) {
+              console.error("Failed to reset settings:", error);
+              Alert.alert("Error", "Failed to reset settings.");
+            }
+          },
+        },
+      ]
+    );
+  }, [resetSettings]);
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        isSelected && {
+          backgroundColor: primaryColor,
+          borderColor: primaryColor,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[styles.chipText, isSelected && styles.chipTextSelected]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const goal = settings.fastingGoalHours;
+  const dayStart = settings.dayStartHour;
+  const reminderPreferences = settings.notificationPreferences;
+
+  const saveReminderPreferences = (updates: Partial<NotificationPreferences>) =>
+    saveSettings({
+      notificationPreferences: { ...reminderPreferences, ...updates },
+    });
+
+  // Permission is only asked for once the user wants a reminder
+  const toggleReminder = async (kind: ReminderKind, isEnabled: boolean) => {
+    if (!isEnabled && !(await NotificationService.ensurePermission())) {
+      Alert.alert(
+        "Notifications Are Off",
+        "Allow notifications for GutRest in your device settings to get reminders."
+      );
+      return;
+    }
+    await saveReminderPreferences({
+      reminders: { ...reminderPreferences.reminders, [kind]: !isEnabled },
+    });
+  };
+
+  const formatHour = (hour: number) =>
+    new Date(2000, 0, 1, hour).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const renderHourStepper = (
+    label: string,
+    hour: number,
+    onChange: (hour: number) => void
+  ) => (
+    <ThemedView style={styles.hourStepper}>
+      <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+        {label}
+      </ThemedText>
+      <ThemedView style={styles.stepper}>
+        <Pressable
+          onPress={() => onChange((hour + 23) % 24)}
+          style={[styles.stepperButton, { borderColor: primaryColor }]}
+          accessibilityLabel={`${label} an hour earlier`}
+        >
+          <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+            −
+          </ThemedText>
+        </Pressable>
+        <ThemedText type="defaultSemiBold" style={styles.dayStartValue}>
+          {formatHour(hour)}
+        </ThemedText>
+        <Pressable
+          onPress={() => onChange((hour + 1) % 24)}
+          style={[styles.stepperButton, { borderColor: primaryColor }]}
+          accessibilityLabel={`${label} an hour later`}
+        >
+          <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+            +
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+    </ThemedView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Settings
+        </ThemedText>
+
+        <ThemedView style={styles.headerButton} />
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Fasting goal */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Fasting Goal</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            An overnight fast at least this long counts as intermittent fasting.
+          </ThemedText>
+
+          <ThemedView style={styles.stepper}>
+            <Pressable
+              onPress={() => saveSettings({ fastingGoalHours: goal - 1 })}
+              disabled={goal <= MIN_FASTING_GOAL_HOURS}
+              style={[
+                styles.stepperButton,
+                { borderColor: primaryColor },
+                goal <= MIN_FASTING_GOAL_HOURS && styles.disabledButton,
+              ]}
+              accessibilityLabel="Decrease fasting goal"
+            >
+              <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+                −
+              </ThemedText>
+            </Pressable>
+            <ThemedText type="title" style={styles.goalValue}>
+              {goal}h
+            </ThemedText>
+            <Pressable
+              onPress={() => saveSettings({ fastingGoalHours: goal + 1 })}
+              disabled={goal >= MAX_FASTING_GOAL_HOURS}
+              style={[
+                styles.stepperButton,
+                { borderColor: primaryColor },
+                goal >= MAX_FASTING_GOAL_HOURS && styles.disabledButton,
+              ]}
+              accessibilityLabel="Increase fasting goal"
+            >
+              <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+                +
+              </ThemedText>
+            </Pressable>
+          </ThemedView>
+        </ThemedView>
+
+        {/* Day start */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Day Starts At</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Entries before this time count toward the previous day. Move it
+            later if you eat after midnight or work night shifts.
+          </ThemedText>
+
+          <ThemedView style={styles.stepper}>
+            <Pressable
+              onPress={() => saveSettings({ dayStartHour: dayStart - 1 })}
+              disabled={dayStart <= 0}
+              style={[
+                styles.stepperButton,
+                { borderColor: primaryColor },
+                dayStart <= 0 && styles.disabledButton,
+              ]}
+              accessibilityLabel="Start the day an hour earlier"
+            >
+              <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+                −
+              </ThemedText>
+            </Pressable>
+            <ThemedText type="subtitle" style={styles.dayStartValue}>
+              {formatHour(dayStart)}
+            </ThemedText>
+            <Pressable
+              onPress={() => saveSettings({ dayStartHour: dayStart + 1 })}
+              disabled={dayStart >= 23}
+              style={[
+                styles.stepperButton,
+                { borderColor: primaryColor },
+                dayStart >= 23 && styles.disabledButton,
+              ]}
+              accessibilityLabel="Start the day an hour later"
+            >
+              <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+                +
+              </ThemedText>
+            </Pressable>
+          </ThemedView>
+        </ThemedView>
+
+        {/* Streak grace */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Streak Grace Days</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Missed days per week that keep a streak going instead of ending it.
+          </ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {STREAK_GRACE_OPTIONS.map((days) =>
+              renderChip(
+                String(days),
+                days === 0 ? "None" : `${days} per week`,
+                settings.streakGraceDays === days,
+                () => saveSettings({ streakGraceDays: days })
+              )
+            )}
+          </ThemedView>
+        </ThemedView>
+
+        {/* Default meal */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Default Meal</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Preselected when you add a new entry.
+          </ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {activeCategories.map((category) =>
+              renderChip(
+                category.id,
+                `${category.icon} ${category.label}`,
+                settings.defaultMealCategory === category.id,
+                () => saveSettings({ defaultMealCategory: category.id })
+              )
+            )}
+          </ThemedView>
+        </ThemedView>
+
+        {/* Reminders */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Reminders</ThemedText>
+          <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+            Local notifications, updated whenever you log, edit or delete an
+            entry.
+          </ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {renderChip("on", "On", settings.notifications, () =>
+              saveSettings({ notifications: true })
+            )}
+            {renderChip("off", "Off", !settings.notifications, () =>
+              saveSettings({ notifications: false })
+            )}
+          </ThemedView>
+
+          {settings.notifications && (
+            <>
+              {REMINDER_OPTIONS.map((option) => {
+                const isEnabled = reminderPreferences.reminders[option.kind];
+                return (
+                  <ThemedView key={option.kind} style={styles.linkRow}>
+                    <ThemedView style={styles.linkText}>
+                      <ThemedText type="defaultSemiBold">
+                        {option.label}
+                      </ThemedText>
+                      <ThemedText
+                        style={[styles.hint, { color: subtleTextColor }]}
+                      >
+                        {option.description}
+                      </ThemedText>
+                    </ThemedView>
+                    {renderChip(
+                      option.kind,
+                      isEnabled ? "On" : "Off",
+                      isEnabled,
+                      () => toggleReminder(option.kind, isEnabled)
+                    )}
+                  </ThemedView>
+                );
+              })}
+
+              {reminderPreferences.reminders.logging && (
+                <ThemedView style={styles.chipRow}>
+                  {LOGGING_REMINDER_HOURS_OPTIONS.map((hours) =>
+                    renderChip(
+                      String(hours),
+                      `After ${hours}h`,
+                      reminderPreferences.loggingReminderHours === hours,
+                      () =>
+                        saveReminderPreferences({
+                          loggingReminderHours: hours,
+                        })
+                    )
+                  )}
+                </ThemedView>
+              )}
+
+              <ThemedText type="defaultSemiBold">Quiet Hours</ThemedText>
+              <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                Reminders due in quiet hours wait until they end. Eating window
+                warnings are skipped.
+              </ThemedText>
+              <ThemedView style={styles.chipRow}>
+                {renderChip(
+                  "quiet-on",
+                  "On",
+                  reminderPreferences.quietHoursEnabled,
+                  () => saveReminderPreferences({ quietHoursEnabled: true })
+                )}
+                {renderChip(
+                  "quiet-off",
+                  "Off",
+                  !reminderPreferences.quietHoursEnabled,
+                  () => saveReminderPreferences({ quietHoursEnabled: false })
+                )}
+              </ThemedView>
+              {reminderPreferences.quietHoursEnabled && (
+                <>
+                  {renderHourStepper(
+                    "From",
+                    reminderPreferences.quietHoursStart,
+                    (hour) => saveReminderPreferences({ quietHoursStart: hour })
+                  )}
+                  {renderHourStepper(
+                    "Until",
+                    reminderPreferences.quietHoursEnd,
+                    (hour) => saveReminderPreferences({ quietHoursEnd: hour })
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </ThemedView>
+
+        {/* Appearance */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Appearance</ThemedText>
+          <ThemedView style={styles.chipRow}>
+            {THEME_OPTIONS.map((option) =>
+              renderChip(
+                option.value,
+                option.label,
+                settings.theme === option.value,
+                () => saveSettings({ theme: option.value })
+              )
+            )}
+          </ThemedView>
+        </ThemedView>
+
+        {/* Data */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle">Data</ThemedText>
+          {DATA_LINKS.map((link) => (
+            <Pressable
+              key={link.title}
+              onPress={() => router.push(link.href)}
+              style={styles.linkRow}
+            >
+              <ThemedView style={styles.linkText}>
+                <ThemedText type="defaultSemiBold">{link.title}</ThemedText>
+                <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+                  {link.description}
+                </ThemedText>
+              </ThemedView>
+              <ThemedText style={[styles.chevron, { color: subtleTextColor }]}>
+                ›
+              </ThemedText>
+            </Pressable>
+          ))}
+        </ThemedView>
+
+        <Pressable onPress={handleReset} style={styles.resetButton}>
+          <ThemedText style={styles.dangerText}>Reset Settings</ThemedText>
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.lg,
+  },
+  section: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    gap: Spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.lg,
+    backgroundColor: "transparent",
+  },
+  stepperButton: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperText: {
+    fontSize: 22,
+    lineHeight: 26,
+    fontWeight: "600",
+  },
+  goalValue: {
+    minWidth: 80,
+    textAlign: "center",
+  },
+  dayStartValue: {
+    minWidth: 100,
+    textAlign: "center",
+  },
+  hourStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "transparent",
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+  },
+  linkText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  chevron: {
+    fontSize: 24,
+    lineHeight: 28,
+  },
+  resetButton: {
+    alignSelf: "center",
+    padding: Spacing.sm,
+  },
+  dangerText: {
+    color: "#FF6B6B",
+    fontWeight: "600",
+  },
+});
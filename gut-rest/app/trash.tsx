@@ -0,0 +1,459 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { databaseService } from "@/services/database";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { MealEntry } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_OPTIONS = [7, 30, 90];
+
+export default function TrashScreen() {
+  const [deletedEntries, setDeletedEntries] = useState<MealEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { restoreMealEntry } = useMealData();
+  const {
+    settings: { trashRetentionDays: retentionDays },
+    updateSettings,
+  } = useSettings();
+
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      await databaseService.initialize();
+      const entries = await databaseService.getDeletedMealEntries();
+      setDeletedEntries(entries);
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+      setError("Failed to load deleted entries");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = useCallback(
+    async (entry: MealEntry) => {
+      try {
+        await restoreMealEntry(entry.id);
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success
+        );
+        setDeletedEntries((entries) =>
+          entries.filter((e) => e.id !== entry.id)
+        );
+      } catch (err) {
+        console.error("Failed to restore entry:", err);
+        Alert.alert("Error", "Failed to restore the entry. Please try again.");
+      }
+    },
+    [restoreMealEntry]
+  );
+
+  const handlePurge = useCallback((entry: MealEntry) => {
+    const label = getCategoryConfig(entry.category).label.toLowerCase();
+
+    Alert.alert(
+      "Delete Forever",
+      `This ${label} entry will be permanently deleted. This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await databaseService.purgeMealEntry(entry.id);
+              setDeletedEntries((entries) =>
+                entries.filter((e) => e.id !== entry.id)
+              );
+            } catch (err) {
+              console.error("Failed to purge entry:", err);
+              Alert.alert("Error", "Failed to delete the entry.");
+            }
+          },
+        },
+      ]
+    );
+  }, []);
+
+  const handleEmptyTrash = useCallback(() => {
+    Alert.alert(
+      "Empty Trash",
+      `Permanently delete all ${deletedEntries.length} entries in the trash? This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              // Everything in the trash was deleted before now
+              await databaseService.purgeDeletedEntries(Date.now() + 1);
+              setDeletedEntries([]);
+            } catch (err) {
+              console.error("Failed to empty trash:", err);
+              Alert.alert("Error", "Failed to empty the trash.");
+            }
+          },
+        },
+      ]
+    );
+  }, [deletedEntries.length]);
+
+  const handleRetentionChange = useCallback(
+    async (days: number) => {
+      try {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        await updateSettings({ trashRetentionDays: days });
+      } catch (err) {
+        console.error("Failed to update trash retention:", err);
+        Alert.alert("Error", "Failed to update the retention period.");
+      }
+    },
+    [updateSettings]
+  );
+
+  const formatEntryTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  };
+
+  const getPurgeLabel = (deletedAt: number) => {
+    const remainingMs = deletedAt + retentionDays * DAY_MS - Date.now();
+    if (remainingMs <= 0) {
+      return "Will be removed soon";
+    }
+    return `Removed in ${TimeCalculationService.formatLongDuration(
+      remainingMs
+    )}`;
+  };
+
+  const renderEntry = (entry: MealEntry) => {
+    const categoryConfig = getCategoryConfig(entry.category);
+
+    return (
+      <ThemedView key={entry.id} style={styles.entryCard}>
+        <ThemedView style={styles.entryInfo}>
+          <ThemedText style={styles.entryIcon}>
+            {categoryConfig.icon}
+          </ThemedText>
+          <ThemedView style={styles.entryText}>
+            <ThemedText type="defaultSemiBold">
+              {categoryConfig.label}
+            </ThemedText>
+            <ThemedText style={[styles.entryMeta, { color: subtleTextColor }]}>
+              {formatEntryTime(entry.timestamp)}
+            </ThemedText>
+            {entry.notes && (
+              <ThemedText
+                style={[styles.entryNotes, { color: subtleTextColor }]}
+                numberOfLines={1}
+              >
+                {entry.notes}
+              </ThemedText>
+            )}
+            {entry.deletedAt && (
+              <ThemedText
+                style={[styles.entryMeta, { color: subtleTextColor }]}
+              >
+                {getPurgeLabel(entry.deletedAt)}
+              </ThemedText>
+            )}
+          </ThemedView>
+        </ThemedView>
+
+        <ThemedView style={styles.entryActions}>
+          <Pressable
+            onPress={() => handleRestore(entry)}
+            style={[styles.actionButton, { borderColor: primaryColor }]}
+          >
+            <ThemedText style={[styles.actionText, { color: primaryColor }]}>
+              Restore
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={() => handlePurge(entry)}
+            style={[styles.actionButton, styles.dangerButton]}
+          >
+            <ThemedText style={[styles.actionText, styles.dangerText]}>
+              Delete
+            </ThemedText>
+          </Pressable>
+        </ThemedView>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      {/* Header */}
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <IconSymbol size={24} name="xmark" color={textColor} />
+        </Pressable>
+
+        <ThemedText type="title" style={styles.title}>
+          Trash
+        </ThemedText>
+
+        <Pressable
+          onPress={handleEmptyTrash}
+          style={styles.headerButton}
+          disabled={deletedEntries.length === 0}
+        >
+          <ThemedText
+            style={[
+              styles.emptyTrashText,
+              deletedEntries.length === 0 && styles.disabledText,
+            ]}
+          >
+            Empty
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Retention period */}
+        <ThemedView style={styles.retentionCard}>
+          <ThemedText type="defaultSemiBold">
+            Keep deleted entries for
+          </ThemedText>
+          <ThemedView style={styles.retentionOptions}>
+            {RETENTION_OPTIONS.map((days) => {
+              const isSelected = days === retentionDays;
+              return (
+                <Pressable
+                  key={days}
+                  onPress={() => handleRetentionChange(days)}
+                  style={[
+                    styles.retentionChip,
+                    isSelected && {
+                      backgroundColor: primaryColor,
+                      borderColor: primaryColor,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.retentionText,
+                      isSelected && styles.retentionTextSelected,
+                    ]}
+                  >
+                    {days} days
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </ThemedView>
+        </ThemedView>
+
+        {isLoading ? (
+          <ThemedView style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={primaryColor} />
+          </ThemedView>
+        ) : error ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </ThemedView>
+        ) : deletedEntries.length === 0 ? (
+          <ThemedView style={styles.centerContainer}>
+            <ThemedText style={styles.emptyIcon}>🗑️</ThemedText>
+            <ThemedText type="subtitle" style={styles.emptyTitle}>
+              Trash is empty
+            </ThemedText>
+            <ThemedText style={[styles.emptyText, { color: subtleTextColor }]}>
+              Deleted entries show up here so you can restore them.
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          deletedEntries.map(renderEntry)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.2)",
+    minHeight: 64,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+    alignItems: "center",
+  },
+  title: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  emptyTrashText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  retentionCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    marginBottom: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  retentionOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  retentionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  retentionText: {
+    fontSize: 14,
+  },
+  retentionTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  entryCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    gap: Spacing.sm,
+  },
+  entryInfo: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.sm,
+  },
+  entryIcon: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryMeta: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  entryNotes: {
+    fontSize: 13,
+    lineHeight: 18,
+    fontStyle: "italic",
+  },
+  entryActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  dangerButton: {
+    borderColor: "rgba(255, 99, 99, 0.5)",
+  },
+  dangerText: {
+    color: "#FF6B6B",
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: 60,
+    gap: Spacing.sm,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    lineHeight: 60,
+    opacity: 0.5,
+  },
+  emptyTitle: {
+    textAlign: "center",
+  },
+  emptyText: {
+    textAlign: "center",
+    maxWidth: 280,
+    lineHeight: 20,
+  },
+  errorText: {
+    color: "#FF6B6B",
+  },
+});
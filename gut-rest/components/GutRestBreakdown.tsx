@@ -0,0 +1,123 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { formatEntryTime } from "@/services/dateUtils";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { GutRestScore, MealEntry } from "@/types";
+import { Spacing } from "@/styles/globals";
+
+interface GutRestBreakdownProps {
+  score: GutRestScore | null; // null when the day had too little to score
+  entries: MealEntry[]; // The day's entries, to show when short gaps began
+}
+
+/**
+ * Where a day's gut rest points came from and which gaps lost them
+ */
+export function GutRestBreakdown({ score, entries }: GutRestBreakdownProps) {
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const formatPoints = (points: number, maxPoints: number) =>
+    `${Math.round(points)} / ${maxPoints}`;
+
+  if (!score) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          Not scored: a single meal leaves no gap to rate, and there&apos;s no
+          overnight fast without a meal logged the day before.
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.row}>
+        <ThemedText style={[styles.label, { color: subtleTextColor }]}>
+          Gaps between meals
+        </ThemedText>
+        <ThemedText style={styles.value}>
+          {formatPoints(score.gapPoints, score.gapMaxPoints)}
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.row}>
+        <ThemedText style={[styles.label, { color: subtleTextColor }]}>
+          Overnight fast ({score.overnightTargetHours}h for full credit)
+        </ThemedText>
+        <ThemedText style={styles.value}>
+          {score.overnightMaxPoints > 0
+            ? formatPoints(score.overnightPoints, score.overnightMaxPoints)
+            : "Not measured"}
+        </ThemedText>
+      </ThemedView>
+
+      {score.shortGaps.length === 0 ? (
+        <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+          Every gap met the recommended rest for the meal before it.
+        </ThemedText>
+      ) : (
+        score.shortGaps.map((gap) => {
+          const entry = entries.find(({ id }) => id === gap.entryId);
+          const categoryConfig = getCategoryConfig(gap.category);
+          return (
+            <ThemedView key={gap.entryId} style={styles.row}>
+              <ThemedText style={[styles.gapText, { color: subtleTextColor }]}>
+                {categoryConfig.icon} {categoryConfig.label}
+                {entry ? ` at ${formatEntryTime(entry)}` : ""}:{" "}
+                {TimeCalculationService.formatDuration(gap.durationMs)} of{" "}
+                {TimeCalculationService.formatDuration(gap.recommendedMs)}
+              </ThemedText>
+              <ThemedText style={styles.lostPoints}>
+                −{gap.pointsLost < 1 ? "<1" : Math.round(gap.pointsLost)}
+              </ThemedText>
+            </ThemedView>
+          );
+        })
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+  },
+  value: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  gapText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  lostPoints: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#FF6B6B",
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,140 @@
+import React from "react";
+import { StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router } from "expo-router";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+interface LinkActionResultProps {
+  status: "working" | "done" | "error";
+  icon: string;
+  title: string;
+  message?: string;
+  secondaryAction?: { label: string; onPress: () => void };
+}
+
+/**
+ * Confirmation screen for actions started from a gutrest:// link
+ */
+export function LinkActionResult({
+  status,
+  icon,
+  title,
+  message,
+  secondaryAction,
+}: LinkActionResultProps) {
+  const backgroundColor = useThemeColor(
+    { light: "#fff", dark: "#000" },
+    "background"
+  );
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  // Links can open the app cold, with nothing underneath to go back to
+  const handleDone = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/");
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor }]}>
+      <ThemedView style={styles.content}>
+        {status === "working" ? (
+          <ActivityIndicator size="large" color={primaryColor} />
+        ) : (
+          <ThemedText style={styles.icon}>{icon}</ThemedText>
+        )}
+        <ThemedText
+          type="subtitle"
+          style={[styles.title, status === "error" && styles.errorText]}
+        >
+          {title}
+        </ThemedText>
+        {message ? (
+          <ThemedText style={[styles.message, { color: subtleTextColor }]}>
+            {message}
+          </ThemedText>
+        ) : null}
+
+        {status !== "working" && (
+          <ThemedView style={styles.actions}>
+            <Pressable
+              onPress={handleDone}
+              style={[styles.button, { backgroundColor: primaryColor }]}
+            >
+              <ThemedText style={styles.buttonText}>Done</ThemedText>
+            </Pressable>
+            {secondaryAction && (
+              <Pressable
+                onPress={secondaryAction.onPress}
+                style={styles.secondaryButton}
+              >
+                <ThemedText style={{ color: primaryColor }}>
+                  {secondaryAction.label}
+                </ThemedText>
+              </Pressable>
+            )}
+          </ThemedView>
+        )}
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  icon: {
+    fontSize: 56,
+    lineHeight: 68,
+  },
+  title: {
+    textAlign: "center",
+  },
+  message: {
+    textAlign: "center",
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  errorText: {
+    color: "#FF6B6B",
+  },
+  actions: {
+    alignSelf: "stretch",
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  button: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: Spacing.sm,
+    alignItems: "center",
+  },
+});
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { AppState } from "react-native";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useFasting } from "@/contexts/FastingContext";
+import { databaseService } from "@/services/database";
+import { NotificationService } from "@/services/NotificationService";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import {
+  getEntryDateString,
+  getNextDayStart,
+  getTodayDateString,
+} from "@/services/dateUtils";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
+import { getFastingProtocol } from "@/constants/Fasting";
+
+/**
+ * Keeps scheduled reminders in step with the meal log, the running fast
+ * and the notification settings. Renders nothing.
+ */
+export function ReminderScheduler() {
+  const { todayEntries, dataVersion } = useMealData();
+  const { settings, isLoading: settingsLoading } = useSettings();
+  const { activeSession, currentProtocol } = useFasting();
+
+  // Bumped when the app returns to the foreground or a new day begins
+  const [replanCount, setReplanCount] = useState(0);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        setReplanCount((count) => count + 1);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => setReplanCount((count) => count + 1),
+      getNextDayStart() - Date.now()
+    );
+    return () => clearTimeout(timer);
+  }, [replanCount, settings.dayStartHour]);
+
+  // Every add, edit, delete or restore bumps dataVersion, on any day, which
+  // replans from scratch
+  useEffect(() => {
+    if (settingsLoading) return;
+    let cancelled = false;
+
+    const replan = async () => {
+      if (!settings.notifications) {
+        await NotificationService.scheduleReminders([]);
+        return;
+      }
+
+      // The latest entries may be from before the day start, when today's
+      // bucket is still empty
+      await databaseService.initialize();
+      const [lastEntry, lastMeal] = await Promise.all([
+        databaseService.getLatestMealEntry(),
+        databaseService.getLatestMealEntry(true),
+      ]);
+      if (cancelled) return;
+
+      // todayEntries still holds yesterday until the meal data reloads
+      const today = getTodayDateString();
+      const firstMealToday =
+        todayEntries.find(
+          (entry) =>
+            getEntryDateString(entry) === today &&
+            doesCategoryBreakFasting(entry.category)
+        ) ?? null;
+      const protocol = currentProtocol?.protocolId
+        ? getFastingProtocol(currentProtocol.protocolId)
+        : undefined;
+      const isFastDay = currentProtocol
+        ? TimeCalculationService.isProtocolFastDay(currentProtocol, today)
+        : false;
+
+      await NotificationService.scheduleReminders(
+        NotificationService.planReminders({
+          lastEntry,
+          lastMeal,
+          firstMealToday,
+          activeSession,
+          eatingWindowHours: isFastDay
+            ? 0
+            : (protocol?.eatingWindowHours ?? 24 - settings.fastingGoalHours),
+          preferences: settings.notificationPreferences,
+        })
+      );
+    };
+
+    replan().catch((error) => {
+      // Reminders are a nicety, never block logging on them
+      console.warn("Failed to schedule reminders:", error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    todayEntries,
+    dataVersion,
+    activeSession,
+    currentProtocol,
+    settings,
+    settingsLoading,
+    replanCount,
+  ]);
+
+  return null;
+}
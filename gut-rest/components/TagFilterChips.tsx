@@ -0,0 +1,93 @@
+import React from "react";
+import { StyleSheet, ScrollView, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+interface TagFilterChipsProps {
+  tags: string[]; // Tags available to filter by
+  selectedTags: string[]; // Empty means no filter
+  onChange: (tags: string[]) => void;
+}
+
+export function TagFilterChips({
+  tags,
+  selectedTags,
+  onChange,
+}: TagFilterChipsProps) {
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const toggleTag = (tag: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter((selected) => selected !== tag)
+        : [...selectedTags, tag]
+    );
+  };
+
+  const renderChip = (
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        isSelected && {
+          backgroundColor: primaryColor,
+          borderColor: primaryColor,
+        },
+      ]}
+    >
+      <ThemedText style={[styles.chipText, isSelected && styles.selectedText]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {renderChip("All", selectedTags.length === 0, () => onChange([]))}
+      {tags.map((tag) =>
+        renderChip(`#${tag}`, selectedTags.includes(tag), () => toggleTag(tag))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  selectedText: {
+    color: "white",
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,71 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { formatUtcOffset } from "@/services/dateUtils";
+import { TimeZoneChange } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+interface TimeZoneChangeNoticeProps {
+  changes: TimeZoneChange[];
+}
+
+/**
+ * Banner for days where entries were logged in more than one time zone
+ */
+export function TimeZoneChangeNotice({ changes }: TimeZoneChangeNoticeProps) {
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const describeZone = (offset: number, timeZone?: string) =>
+    timeZone
+      ? `${timeZone.replace(/_/g, " ")} (${formatUtcOffset(offset)})`
+      : formatUtcOffset(offset);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="defaultSemiBold" style={styles.title}>
+        🌍 Time zone changed
+      </ThemedText>
+      {changes.map((change) => (
+        <ThemedText key={change.timestamp} style={styles.change}>
+          {describeZone(change.fromOffset, change.fromTimeZone)} →{" "}
+          {describeZone(change.toOffset, change.toTimeZone)}
+        </ThemedText>
+      ))}
+      <ThemedText style={[styles.hint, { color: subtleTextColor }]}>
+        Times are shown in the zone each meal was logged in. Fasting and gap
+        durations are the actual time that passed.
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(0, 122, 255, 0.1)",
+    gap: 2,
+  },
+  title: {
+    fontSize: 14,
+  },
+  change: {
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,94 @@
+import React, { useEffect } from "react";
+import { StyleSheet, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useMealData } from "@/contexts/MealDataContext";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { BorderRadius, GlobalStyles, Spacing } from "@/styles/globals";
+
+const UNDO_TIMEOUT_MS = 5000;
+
+interface UndoSnackbarProps {
+  onUndo?: () => void; // Called after the entry has been restored
+}
+
+export function UndoSnackbar({ onUndo }: UndoSnackbarProps) {
+  const { lastDeletedEntry, undoDelete, dismissUndo } = useMealData();
+
+  // Hide the snackbar after a few seconds; the entry stays in the trash
+  useEffect(() => {
+    if (!lastDeletedEntry) return;
+
+    const timer = setTimeout(dismissUndo, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [lastDeletedEntry, dismissUndo]);
+
+  if (!lastDeletedEntry) {
+    return null;
+  }
+
+  const categoryConfig = getCategoryConfig(lastDeletedEntry.category);
+
+  const handleUndo = async () => {
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await undoDelete();
+      onUndo?.();
+    } catch (error) {
+      console.error("Failed to undo delete:", error);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container} pointerEvents="box-none">
+      <ThemedView style={styles.snackbar}>
+        <ThemedText style={styles.message} numberOfLines={1}>
+          {categoryConfig.icon} {categoryConfig.label} moved to trash
+        </ThemedText>
+        <Pressable onPress={handleUndo} style={styles.undoButton}>
+          <ThemedText style={styles.undoText}>Undo</ThemedText>
+        </Pressable>
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: Spacing.md,
+    right: Spacing.md,
+    bottom: 160, // Above the tab bar and floating action button
+    zIndex: 9999,
+  },
+  snackbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#323232",
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    paddingLeft: Spacing.md,
+    paddingRight: Spacing.sm,
+    ...GlobalStyles.shadowMedium,
+  },
+  message: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 14,
+  },
+  undoButton: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    minHeight: 36,
+    justifyContent: "center",
+  },
+  undoText: {
+    color: "#4FC3F7",
+    fontSize: 14,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+});
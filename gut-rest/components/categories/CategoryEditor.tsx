@@ -0,0 +1,393 @@
+import React, { useState } from "react";
+import { StyleSheet, Pressable, TextInput, Switch } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import {
+  CATEGORY_COLOR_OPTIONS,
+  getAlternativeIcons,
+} from "@/constants/MealCategories";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { CategoryDefinition, CategoryInput } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+// Same scale as the built-in CATEGORY_WEIGHTS
+const WEIGHT_OPTIONS = [
+  { value: 0.1, label: "Very light" },
+  { value: 0.3, label: "Light" },
+  { value: 0.5, label: "Moderate" },
+  { value: 0.8, label: "Substantial" },
+  { value: 1.0, label: "Heavy" },
+  { value: 1.2, label: "Very heavy" },
+];
+
+const GAP_STEP_HOURS = 0.5;
+const MIN_GAP_HOURS = 0.5;
+const MAX_GAP_HOURS = 12;
+
+const DEFAULT_INPUT: CategoryInput = {
+  label: "",
+  icon: "🍽️",
+  color: CATEGORY_COLOR_OPTIONS[7],
+  darkColor: CATEGORY_COLOR_OPTIONS[7],
+  weight: 0.5,
+  recommendedGapHours: 3,
+  breaksFast: true,
+};
+
+interface CategoryEditorProps {
+  category?: CategoryDefinition; // Omit to create a new category
+  onSave: (input: CategoryInput) => void;
+  onCancel: () => void;
+  onArchive?: () => void;
+  isSaving?: boolean;
+}
+
+export function CategoryEditor({
+  category,
+  onSave,
+  onCancel,
+  onArchive,
+  isSaving = false,
+}: CategoryEditorProps) {
+  const [input, setInput] = useState<CategoryInput>(() =>
+    category
+      ? {
+          label: category.label,
+          icon: category.icon,
+          color: category.color,
+          darkColor: category.darkColor,
+          weight: category.weight,
+          recommendedGapHours: category.recommendedGapHours,
+          breaksFast: category.breaksFast,
+        }
+      : DEFAULT_INPUT
+  );
+
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  // Keep the current icon selectable even if it isn't in the suggested set
+  const iconOptions = Array.from(
+    new Set([input.icon, ...getAlternativeIcons(category?.id ?? "")])
+  );
+  const colorOptions = CATEGORY_COLOR_OPTIONS.includes(input.color)
+    ? CATEGORY_COLOR_OPTIONS
+    : [input.color, ...CATEGORY_COLOR_OPTIONS];
+
+  const update = (updates: Partial<CategoryInput>) => {
+    setInput((current) => ({ ...current, ...updates }));
+  };
+
+  const changeGap = (delta: number) => {
+    const next = input.recommendedGapHours + delta;
+    update({
+      recommendedGapHours: Math.min(
+        MAX_GAP_HOURS,
+        Math.max(MIN_GAP_HOURS, next)
+      ),
+    });
+  };
+
+  const canSave = input.label.trim().length > 0 && !isSaving;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.title}>
+        {category ? `Edit ${category.label}` : "New Category"}
+      </ThemedText>
+
+      {/* Name */}
+      <ThemedText style={styles.fieldLabel}>Name</ThemedText>
+      <TextInput
+        value={input.label}
+        onChangeText={(label) => update({ label })}
+        placeholder="e.g. Protein Shake"
+        placeholderTextColor={subtleTextColor}
+        style={[styles.textInput, { color: textColor }]}
+        maxLength={30}
+      />
+
+      {/* Icon */}
+      <ThemedText style={styles.fieldLabel}>Icon</ThemedText>
+      <ThemedView style={styles.optionRow}>
+        {iconOptions.map((icon) => (
+          <Pressable
+            key={icon}
+            onPress={() => update({ icon })}
+            style={[
+              styles.iconOption,
+              input.icon === icon && {
+                borderColor: input.color,
+                backgroundColor: `${input.color}20`,
+              },
+            ]}
+          >
+            <ThemedText style={styles.iconText}>{icon}</ThemedText>
+          </Pressable>
+        ))}
+      </ThemedView>
+
+      {/* Color */}
+      <ThemedText style={styles.fieldLabel}>Color</ThemedText>
+      <ThemedView style={styles.optionRow}>
+        {colorOptions.map((color) => (
+          <Pressable
+            key={color}
+            onPress={() => update({ color, darkColor: color })}
+            style={[
+              styles.colorOption,
+              { backgroundColor: color },
+              input.color === color && {
+                borderColor: textColor,
+              },
+            ]}
+          />
+        ))}
+      </ThemedView>
+
+      {/* Weight */}
+      <ThemedText style={styles.fieldLabel}>How heavy is it?</ThemedText>
+      <ThemedView style={styles.optionRow}>
+        {WEIGHT_OPTIONS.map((option) => {
+          const isSelected = input.weight === option.value;
+          return (
+            <Pressable
+              key={option.value}
+              onPress={() => update({ weight: option.value })}
+              style={[
+                styles.chip,
+                isSelected && {
+                  backgroundColor: primaryColor,
+                  borderColor: primaryColor,
+                },
+              ]}
+            >
+              <ThemedText
+                style={[styles.chipText, isSelected && styles.chipTextSelected]}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ThemedView>
+
+      {/* Recommended gap */}
+      <ThemedText style={styles.fieldLabel}>Recommended gap after</ThemedText>
+      <ThemedView style={styles.stepperRow}>
+        <Pressable
+          onPress={() => changeGap(-GAP_STEP_HOURS)}
+          style={[styles.stepperButton, { borderColor: primaryColor }]}
+        >
+          <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+            −
+          </ThemedText>
+        </Pressable>
+        <ThemedText type="defaultSemiBold" style={styles.stepperValue}>
+          {input.recommendedGapHours}h
+        </ThemedText>
+        <Pressable
+          onPress={() => changeGap(GAP_STEP_HOURS)}
+          style={[styles.stepperButton, { borderColor: primaryColor }]}
+        >
+          <ThemedText style={[styles.stepperText, { color: primaryColor }]}>
+            +
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      {/* Breaks fast */}
+      <ThemedView style={styles.switchRow}>
+        <ThemedView style={styles.switchText}>
+          <ThemedText style={styles.fieldLabel}>Breaks a fast</ThemedText>
+          <ThemedText style={[styles.hintText, { color: subtleTextColor }]}>
+            Turn off for things like water or black coffee
+          </ThemedText>
+        </ThemedView>
+        <Switch
+          value={input.breaksFast}
+          onValueChange={(breaksFast) => update({ breaksFast })}
+          trackColor={{ true: primaryColor }}
+        />
+      </ThemedView>
+
+      {/* Actions */}
+      <ThemedView style={styles.actions}>
+        {onArchive && (
+          <Pressable
+            onPress={onArchive}
+            style={[styles.actionButton, styles.dangerButton]}
+            disabled={isSaving}
+          >
+            <ThemedText style={[styles.actionText, styles.dangerText]}>
+              Archive
+            </ThemedText>
+          </Pressable>
+        )}
+        <ThemedView style={styles.actionSpacer} />
+        <Pressable
+          onPress={onCancel}
+          style={styles.actionButton}
+          disabled={isSaving}
+        >
+          <ThemedText style={styles.actionText}>Cancel</ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={() => onSave({ ...input, label: input.label.trim() })}
+          style={[
+            styles.actionButton,
+            { backgroundColor: primaryColor, borderColor: primaryColor },
+            !canSave && styles.disabledButton,
+          ]}
+          disabled={!canSave}
+        >
+          <ThemedText style={[styles.actionText, styles.saveText]}>
+            Save
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    gap: Spacing.sm,
+  },
+  title: {
+    textAlign: "center",
+    marginBottom: Spacing.xs,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: Spacing.xs,
+  },
+  textInput: {
+    fontSize: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.12)",
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    borderColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  iconText: {
+    fontSize: 24,
+    lineHeight: 30,
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  stepperRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperText: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  stepperValue: {
+    minWidth: 48,
+    textAlign: "center",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  switchText: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  hintText: {
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  actionSpacer: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  saveText: {
+    color: "white",
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  dangerButton: {
+    borderColor: "#FF6B6B",
+  },
+  dangerText: {
+    color: "#FF6B6B",
+  },
+});
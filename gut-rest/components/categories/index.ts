@@ -0,0 +1 @@
+export { CategoryEditor } from "./CategoryEditor";
@@ -0,0 +1,150 @@
+import React from "react";
+import { StyleSheet, ScrollView, Pressable } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { CSV_FIELDS } from "@/services/csv";
+import { CsvColumnMapping, CsvField } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  id: "Entry ID",
+  timestamp: "Time",
+  category: "Category",
+  notes: "Notes",
+  tags: "Tags",
+  createdAt: "Created",
+  updatedAt: "Updated",
+};
+
+export const REQUIRED_CSV_FIELDS: CsvField[] = ["timestamp", "category"];
+
+interface ColumnMappingEditorProps {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  onMappingChange: (mapping: CsvColumnMapping) => void;
+  disabled?: boolean;
+}
+
+export function ColumnMappingEditor({
+  headers,
+  mapping,
+  onMappingChange,
+  disabled = false,
+}: ColumnMappingEditorProps) {
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+
+  const selectColumn = (field: CsvField, index: number | null) => {
+    onMappingChange({ ...mapping, [field]: index });
+  };
+
+  const renderChip = (
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+    key: string
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      disabled={disabled}
+      style={[
+        styles.chip,
+        isSelected && {
+          backgroundColor: primaryColor,
+          borderColor: primaryColor,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[styles.chipText, isSelected && styles.chipTextSelected]}
+        numberOfLines={1}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      {CSV_FIELDS.map((field) => {
+        const isRequired = REQUIRED_CSV_FIELDS.includes(field);
+        return (
+          <ThemedView key={field} style={styles.fieldRow}>
+            <ThemedText style={styles.fieldLabel}>
+              {FIELD_LABELS[field]}
+              {isRequired && (
+                <ThemedText style={{ color: subtleTextColor }}>
+                  {" "}
+                  (required)
+                </ThemedText>
+              )}
+            </ThemedText>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.chipRow}
+            >
+              {!isRequired &&
+                renderChip(
+                  "Skip",
+                  mapping[field] === null,
+                  () => selectColumn(field, null),
+                  "skip"
+                )}
+              {headers.map((header, index) =>
+                renderChip(
+                  header || `Column ${index + 1}`,
+                  mapping[field] === index,
+                  () => selectColumn(field, index),
+                  String(index)
+                )
+              )}
+            </ScrollView>
+          </ThemedView>
+        );
+      })}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  fieldRow: {
+    gap: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  chipRow: {
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+    maxWidth: 160,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+});
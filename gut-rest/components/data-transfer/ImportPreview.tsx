@@ -0,0 +1,164 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { CsvImportPreview } from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+// Long error reports are cut short; the counts still cover every row
+const MAX_ROWS_LISTED = 50;
+const MAX_NEW_ROWS_LISTED = 5;
+
+interface ImportPreviewProps {
+  preview: CsvImportPreview;
+}
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString([], {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ImportPreview({ preview }: ImportPreviewProps) {
+  const newRows = preview.rows.filter((row) => row.status === "new");
+  const errorRows = preview.rows.filter((row) => row.status === "error");
+  const duplicateRows = preview.rows.filter(
+    (row) => row.status === "duplicate"
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.countRow}>
+        <ThemedView style={styles.countBox}>
+          <ThemedText style={[styles.countValue, styles.newText]}>
+            {preview.newCount}
+          </ThemedText>
+          <ThemedText style={styles.countLabel}>New</ThemedText>
+        </ThemedView>
+        <ThemedView style={styles.countBox}>
+          <ThemedText style={[styles.countValue, styles.duplicateText]}>
+            {preview.duplicateCount}
+          </ThemedText>
+          <ThemedText style={styles.countLabel}>Duplicates</ThemedText>
+        </ThemedView>
+        <ThemedView style={styles.countBox}>
+          <ThemedText style={[styles.countValue, styles.errorText]}>
+            {preview.errorCount}
+          </ThemedText>
+          <ThemedText style={styles.countLabel}>Errors</ThemedText>
+        </ThemedView>
+      </ThemedView>
+
+      {newRows.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold">Will be imported</ThemedText>
+          {newRows.slice(0, MAX_NEW_ROWS_LISTED).map((row) => {
+            const category = getCategoryConfig(row.entry!.category);
+            return (
+              <ThemedText key={row.rowNumber} style={styles.rowText}>
+                {category.icon} {category.label} ·{" "}
+                {formatDateTime(row.entry!.timestamp)}
+              </ThemedText>
+            );
+          })}
+          {newRows.length > MAX_NEW_ROWS_LISTED && (
+            <ThemedText style={styles.moreText}>
+              and {newRows.length - MAX_NEW_ROWS_LISTED} more
+            </ThemedText>
+          )}
+        </ThemedView>
+      )}
+
+      {duplicateRows.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold">Skipped as duplicates</ThemedText>
+          {duplicateRows.slice(0, MAX_ROWS_LISTED).map((row) => (
+            <ThemedText key={row.rowNumber} style={styles.rowText}>
+              Row {row.rowNumber}:{" "}
+              {row.duplicateReason === "id"
+                ? "same entry ID"
+                : "same time and category"}
+            </ThemedText>
+          ))}
+          {duplicateRows.length > MAX_ROWS_LISTED && (
+            <ThemedText style={styles.moreText}>
+              and {duplicateRows.length - MAX_ROWS_LISTED} more
+            </ThemedText>
+          )}
+        </ThemedView>
+      )}
+
+      {errorRows.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="defaultSemiBold" style={styles.errorText}>
+            Rows with errors
+          </ThemedText>
+          {errorRows.slice(0, MAX_ROWS_LISTED).map((row) => (
+            <ThemedText key={row.rowNumber} style={styles.rowText}>
+              Row {row.rowNumber}: {row.errors.join("; ")}
+            </ThemedText>
+          ))}
+          {errorRows.length > MAX_ROWS_LISTED && (
+            <ThemedText style={styles.moreText}>
+              and {errorRows.length - MAX_ROWS_LISTED} more
+            </ThemedText>
+          )}
+        </ThemedView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  countRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  countBox: {
+    flex: 1,
+    alignItems: "center",
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+  },
+  countValue: {
+    fontSize: 22,
+    fontWeight: "700",
+    lineHeight: 28,
+  },
+  countLabel: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  newText: {
+    color: "#4CAF50",
+  },
+  duplicateText: {
+    color: "#FF9800",
+  },
+  errorText: {
+    color: "#FF6B6B",
+  },
+  section: {
+    gap: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  rowText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  moreText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
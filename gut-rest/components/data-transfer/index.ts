@@ -0,0 +1,5 @@
+export {
+  ColumnMappingEditor,
+  REQUIRED_CSV_FIELDS,
+} from "./ColumnMappingEditor";
+export { ImportPreview } from "./ImportPreview";
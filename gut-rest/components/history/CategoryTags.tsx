@@ -3,6 +3,7 @@ import { StyleSheet, View } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useCategories } from "@/contexts/CategoriesContext";
 import { DailySummary } from "@/types";
 import { BorderRadius, Spacing } from "@/styles/globals";
 
@@ -11,6 +12,7 @@ interface CategoryTagsProps {
 }
 
 export function CategoryTags({ entries }: CategoryTagsProps) {
+  const { getCategory } = useCategories();
   const tagBackground = useThemeColor(
     { light: "#F2F2F7", dark: "#3C3C43" },
     "background"
@@ -41,14 +43,14 @@ export function CategoryTags({ entries }: CategoryTagsProps) {
   return (
     <View style={styles.container}>
       {categoryEntries.map(([category, count]) => {
-        const label = category.replace("_", " ");
+        const { icon, label } = getCategory(category);
         return (
           <ThemedView
             key={category}
             style={[styles.tag, { backgroundColor: tagBackground }]}
           >
             <ThemedText style={[styles.tagText, { color: tagTextColor }]}>
-              {label}
+              {icon} {label}
             </ThemedText>
             {count > 1 && (
               <ThemedText style={[styles.countText, { color: countColor }]}>
@@ -2,7 +2,9 @@ import React from "react";
 import { StyleSheet, ScrollView, RefreshControl } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { TagFilterChips } from "@/components/TagFilterChips";
 import { DailySummary } from "@/types";
+import { collectTags, matchesAnyTag } from "@/services/tagUtils";
 import { CompactMealEntry } from "./CompactMealEntry";
 import { DaySummaryCard } from "./DaySummaryCard";
 import { EmptyHistoryView } from "./EmptyHistoryView";
@@ -13,7 +15,10 @@ interface CompactHistoryViewProps {
   isLoading: boolean;
   error: string | null;
   onRefresh: () => void;
+  onDeleteEntry?: (id: string) => void;
   currentDate: string;
+  tagFilter?: string[]; // Only show timeline entries with any of these tags
+  onTagFilterChange?: (tags: string[]) => void;
 }
 
 export function CompactHistoryView({
@@ -21,7 +26,10 @@ export function CompactHistoryView({
   isLoading,
   error,
   onRefresh,
+  onDeleteEntry,
   currentDate,
+  tagFilter = [],
+  onTagFilterChange,
 }: CompactHistoryViewProps) {
   if (error) {
     return (
@@ -47,6 +55,11 @@ export function CompactHistoryView({
 
   const { entries, fastingWindow, gaps } = dailySummary;
 
+  // The summary card always reflects the whole day; the filter only narrows the timeline
+  const visibleEntries = entries.filter((entry) =>
+    matchesAnyTag(entry.tags, tagFilter)
+  );
+
   return (
     <ScrollView
       style={styles.container}
@@ -70,19 +83,28 @@ export function CompactHistoryView({
           Timeline
         </ThemedText>
 
+        {onTagFilterChange && (
+          <TagFilterChips
+            tags={collectTags(entries)}
+            selectedTags={tagFilter}
+            onChange={onTagFilterChange}
+          />
+        )}
+
         <ThemedView style={styles.timeline}>
-          {entries.map((entry, index) => (
+          {visibleEntries.map((entry, index) => (
             <CompactMealEntry
               key={entry.id}
               entry={entry}
               isFirst={index === 0}
-              isLast={index === entries.length - 1}
+              isLast={index === visibleEntries.length - 1}
               gap={gaps.find(
                 (g) =>
                   g.startTime === entry.timestamp &&
-                  index < entries.length - 1 &&
-                  g.endTime === entries[index + 1].timestamp
+                  index < visibleEntries.length - 1 &&
+                  g.endTime === visibleEntries[index + 1].timestamp
               )}
+              onDelete={onDeleteEntry}
             />
           ))}
         </ThemedView>
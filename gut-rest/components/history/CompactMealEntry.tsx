@@ -1,17 +1,21 @@
 import React from "react";
-import { StyleSheet } from "react-native";
+import { StyleSheet, Pressable, Alert } from "react-native";
+import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { MealEntry, TimeGap } from "@/types";
-import { getCategoryConfig } from "@/constants/MealCategories";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useCategoryColor } from "@/hooks/useCategoryColor";
 import { Spacing } from "@/styles/globals";
+import { formatEntryTime } from "@/services/dateUtils";
 
 interface CompactMealEntryProps {
   entry: MealEntry;
   isFirst: boolean;
   isLast: boolean;
   gap?: TimeGap;
+  onDelete?: (id: string) => void;
 }
 
 export function CompactMealEntry({
@@ -19,8 +23,11 @@ export function CompactMealEntry({
   isFirst,
   isLast,
   gap,
+  onDelete,
 }: CompactMealEntryProps) {
-  const categoryConfig = getCategoryConfig(entry.category);
+  const { getCategory } = useCategories();
+  const categoryConfig = getCategory(entry.category);
+  const categoryColor = useCategoryColor(entry.category);
 
   // Theme colors
   const textColor = useThemeColor({}, "text");
@@ -33,16 +40,29 @@ export function CompactMealEntry({
     "text"
   );
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
+  const handleDelete = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    Alert.alert(
+      "Delete Entry",
+      `Move this ${categoryConfig.label.toLowerCase()} entry to the trash?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => onDelete?.(entry.id),
+        },
+      ]
+    );
   };
 
   return (
-    <ThemedView style={styles.container}>
+    <Pressable
+      onLongPress={onDelete ? handleDelete : undefined}
+      delayLongPress={400}
+      style={({ pressed }) => [styles.container, pressed && styles.pressed]}
+    >
       {/* Timeline dot and line */}
       <ThemedView style={styles.timelineContainer}>
         {!isFirst && (
@@ -51,10 +71,7 @@ export function CompactMealEntry({
           />
         )}
         <ThemedView
-          style={[
-            styles.timelineDot,
-            { backgroundColor: categoryConfig.color },
-          ]}
+          style={[styles.timelineDot, { backgroundColor: categoryColor }]}
         />
         {!isLast && (
           <ThemedView
@@ -77,7 +94,7 @@ export function CompactMealEntry({
               {categoryConfig.label}
             </ThemedText>
             <ThemedText style={[styles.timestamp, { color: subtleTextColor }]}>
-              {formatTime(entry.timestamp)}
+              {formatEntryTime(entry)}
             </ThemedText>
           </ThemedView>
 
@@ -86,6 +103,12 @@ export function CompactMealEntry({
               {entry.notes}
             </ThemedText>
           )}
+
+          {entry.tags && entry.tags.length > 0 && (
+            <ThemedText style={[styles.tags, { color: subtleTextColor }]}>
+              {entry.tags.map((tag) => `#${tag}`).join(" ")}
+            </ThemedText>
+          )}
         </ThemedView>
 
         {/* Gap indicator */}
@@ -97,7 +120,7 @@ export function CompactMealEntry({
           </ThemedView>
         )}
       </ThemedView>
-    </ThemedView>
+    </Pressable>
   );
 }
 
@@ -106,6 +129,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     marginBottom: Spacing.xs,
   },
+  pressed: {
+    opacity: 0.7,
+  },
   timelineContainer: {
     width: 20,
     alignItems: "center",
@@ -153,6 +179,11 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     fontStyle: "italic",
   },
+  tags: {
+    fontSize: 11,
+    marginTop: 2,
+    marginLeft: 24, // Align with category label
+  },
   gapContainer: {
     alignItems: "center",
     paddingVertical: Spacing.xs,
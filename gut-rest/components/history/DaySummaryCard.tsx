@@ -1,14 +1,21 @@
-import React from "react";
-import { StyleSheet } from "react-native";
+import React, { useState } from "react";
+import { StyleSheet, Pressable } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { DailySummary } from "@/types";
 import {
+  formatEntryTime,
   getTodayDateString,
   getDateStringWithOffset,
+  parseDateString,
 } from "@/services/dateUtils";
+import { getFastingProtocol } from "@/constants/Fasting";
+import { getGutRestScoreColor } from "@/constants/Gaps";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
 import { BorderRadius, Spacing } from "@/styles/globals";
+import { TimeZoneChangeNotice } from "@/components/TimeZoneChangeNotice";
+import { GutRestBreakdown } from "@/components/GutRestBreakdown";
 import { CategoryTags } from "./CategoryTags";
 
 interface DaySummaryCardProps {
@@ -34,16 +41,20 @@ export function DaySummaryCard({
     "text"
   );
 
-  const { entries, fastingWindow, totalEntries, firstIntake, lastIntake } =
-    dailySummary;
-
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
-  };
+  const {
+    entries,
+    fastingWindow,
+    totalEntries,
+    timeZoneChanges,
+    protocolGrade,
+    gutRestScore,
+  } = dailySummary;
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const hasMeal = entries.some((entry) =>
+    doesCategoryBreakFasting(entry.category)
+  );
+  const protocol =
+    protocolGrade && getFastingProtocol(protocolGrade.protocolId);
 
   const getDateLabel = () => {
     const today = getTodayDateString();
@@ -54,7 +65,7 @@ export function DaySummaryCard({
     } else if (currentDate === yesterday) {
       return "Yesterday";
     } else {
-      const date = new Date(currentDate);
+      const date = parseDateString(currentDate);
       return date.toLocaleDateString("en-US", {
         weekday: "short",
         month: "short",
@@ -77,15 +88,18 @@ export function DaySummaryCard({
         </ThemedText>
       </ThemedView>
 
+      <TimeZoneChangeNotice changes={timeZoneChanges} />
+
       <ThemedView style={styles.stats}>
         {/* First/Last intake times */}
-        {firstIntake && lastIntake && (
+        {entries.length > 0 && (
           <ThemedView style={styles.statRow}>
             <ThemedText style={[styles.statLabel, { color: subtleTextColor }]}>
               Eating window
             </ThemedText>
             <ThemedText style={[styles.statValue, { color: textColor }]}>
-              {formatTime(firstIntake)} - {formatTime(lastIntake)}
+              {formatEntryTime(entries[0])} -{" "}
+              {formatEntryTime(entries[entries.length - 1])}
             </ThemedText>
           </ThemedView>
         )}
@@ -120,6 +134,63 @@ export function DaySummaryCard({
           </ThemedView>
         )}
 
+        {/* Grade against the protocol followed that day */}
+        {protocolGrade && protocol && (
+          <ThemedView style={styles.statRow}>
+            <ThemedText style={[styles.statLabel, { color: subtleTextColor }]}>
+              {protocol.label}
+              {protocolGrade.isFastDay ? " fast day" : ""}
+            </ThemedText>
+            <ThemedText
+              style={[
+                styles.fastingBadge,
+                { color: protocolGrade.met ? successColor : subtleTextColor },
+              ]}
+            >
+              {protocolGrade.met ? "✓ On track" : "Missed"}
+            </ThemedText>
+          </ThemedView>
+        )}
+
+        {/* Gut rest score, tap for what lost points */}
+        {hasMeal && (
+          <>
+            <Pressable
+              onPress={() => setShowBreakdown(!showBreakdown)}
+              style={styles.statRow}
+              accessibilityLabel={
+                gutRestScore
+                  ? `Gut rest score ${gutRestScore.score} out of 100`
+                  : "Gut rest score not scored"
+              }
+            >
+              <ThemedText
+                style={[styles.statLabel, { color: subtleTextColor }]}
+              >
+                Gut rest score {showBreakdown ? "▾" : "▸"}
+              </ThemedText>
+              <ThemedText
+                style={[
+                  styles.fastingDuration,
+                  {
+                    color: gutRestScore
+                      ? getGutRestScoreColor(gutRestScore.score)
+                      : subtleTextColor,
+                  },
+                ]}
+              >
+                {gutRestScore ? `${gutRestScore.score}/100` : "Not scored"}
+              </ThemedText>
+            </Pressable>
+            {showBreakdown && (
+              <GutRestBreakdown
+                score={gutRestScore ?? null}
+                entries={entries}
+              />
+            )}
+          </>
+        )}
+
         {/* Total entries breakdown by category */}
         {entries.length > 0 && (
           <ThemedView style={styles.categoryRow}>
@@ -6,6 +6,7 @@ import { useThemeColor } from "@/hooks/useThemeColor";
 import {
   getTodayDateString,
   getDateStringWithOffset,
+  parseDateString,
 } from "@/services/dateUtils";
 import { GlobalStyles, Spacing } from "@/styles/globals";
 
@@ -43,7 +44,7 @@ export function EmptyHistoryView({
         message: "Yesterday had no meal entries recorded.",
       };
     } else {
-      const date = new Date(currentDate);
+      const date = parseDateString(currentDate);
       const dateStr = date.toLocaleDateString("en-US", {
         weekday: "long",
         month: "long",
@@ -6,6 +6,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { MealCategory, CategoryConfig } from "@/types";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useCategoryColor } from "@/hooks/useCategoryColor";
 
 interface CategoryButtonProps {
   category: CategoryConfig;
@@ -22,10 +23,11 @@ export function CategoryButton({
     { light: "rgba(128, 128, 128, 0.05)", dark: "rgba(128, 128, 128, 0.1)" },
     "background"
   );
+  const categoryColor = useCategoryColor(category.id);
 
-  const borderColor = isSelected ? category.color : "rgba(128, 128, 128, 0.3)";
+  const borderColor = isSelected ? categoryColor : "rgba(128, 128, 128, 0.3)";
   const selectedBackgroundColor = isSelected
-    ? `${category.color}20`
+    ? `${categoryColor}20`
     : backgroundColor;
 
   const handlePress = async () => {
@@ -46,7 +48,7 @@ export function CategoryButton({
       ]}
       onPress={handlePress}
       android_ripple={{
-        color: category.color,
+        color: categoryColor,
         borderless: false,
       }}
     >
@@ -58,7 +60,7 @@ export function CategoryButton({
         type="default"
         style={[
           styles.categoryLabel,
-          isSelected && { color: category.color, fontWeight: "600" },
+          isSelected && { color: categoryColor, fontWeight: "600" },
         ]}
       >
         {category.label}
@@ -66,10 +68,7 @@ export function CategoryButton({
 
       {isSelected && (
         <ThemedView
-          style={[
-            styles.selectedIndicator,
-            { backgroundColor: category.color },
-          ]}
+          style={[styles.selectedIndicator, { backgroundColor: categoryColor }]}
         />
       )}
     </Pressable>
@@ -1,22 +1,29 @@
 import React from "react";
-import { StyleSheet } from "react-native";
+import { StyleSheet, Pressable } from "react-native";
 
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { CategoryButton } from "./CategoryButton";
 import { MealCategory, CategoryConfig } from "@/types";
-import { getSortedCategories } from "@/constants/MealCategories";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useThemeColor } from "@/hooks/useThemeColor";
 
 interface CategoryGridProps {
   selectedCategory: MealCategory | null;
   onCategorySelect: (categoryId: MealCategory) => void;
+  onManageCategories?: () => void; // Shows a "Manage" link when provided
 }
 
 export function CategoryGrid({
   selectedCategory,
   onCategorySelect,
+  onManageCategories,
 }: CategoryGridProps) {
-  const categories = getSortedCategories();
+  const { activeCategories: categories } = useCategories();
+  const linkColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
 
   return (
     <ThemedView style={styles.container}>
@@ -34,6 +41,14 @@ export function CategoryGrid({
           />
         ))}
       </ThemedView>
+
+      {onManageCategories && (
+        <Pressable onPress={onManageCategories} style={styles.manageButton}>
+          <ThemedText style={[styles.manageText, { color: linkColor }]}>
+            Manage categories
+          </ThemedText>
+        </Pressable>
+      )}
     </ThemedView>
   );
 }
@@ -54,4 +69,14 @@ const styles = StyleSheet.create({
     gap: 12,
     backgroundColor: "transparent",
   },
+  manageButton: {
+    alignSelf: "center",
+    marginTop: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  manageText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
 });
@@ -0,0 +1,79 @@
+import React from "react";
+import { StyleSheet, TextInput } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+
+export const MAX_NOTES_LENGTH = 500;
+
+interface NotesInputProps {
+  notes: string;
+  onNotesChange: (notes: string) => void;
+  editable?: boolean;
+}
+
+export function NotesInput({
+  notes,
+  onNotesChange,
+  editable = true,
+}: NotesInputProps) {
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const placeholderColor = useThemeColor(
+    { light: "rgba(0, 0, 0, 0.4)", dark: "rgba(255, 255, 255, 0.4)" },
+    "text"
+  );
+  const borderColor = useThemeColor(
+    { light: "rgba(128, 128, 128, 0.3)", dark: "rgba(128, 128, 128, 0.4)" },
+    "text"
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        Any notes?
+      </ThemedText>
+
+      <TextInput
+        value={notes}
+        onChangeText={onNotesChange}
+        placeholder="e.g. Pizza night with friends"
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, { color: textColor, borderColor }]}
+        maxLength={MAX_NOTES_LENGTH}
+        editable={editable}
+        multiline
+        textAlignVertical="top"
+      />
+
+      <ThemedText style={styles.counter}>
+        {notes.length}/{MAX_NOTES_LENGTH}
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    backgroundColor: "transparent",
+  },
+  sectionTitle: {
+    marginBottom: 16,
+    textAlign: "center",
+  },
+  input: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  counter: {
+    marginTop: 4,
+    fontSize: 12,
+    opacity: 0.5,
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,164 @@
+import React from "react";
+import { StyleSheet, Pressable, ScrollView } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { MealEntry, MealSlot, MealTemplate } from "@/types";
+
+interface QuickPicksProps {
+  templates: MealTemplate[];
+  recentEntries: MealEntry[]; // Newest first
+  yesterdayMeal: { slot: MealSlot; entry: MealEntry } | null;
+  onApplyTemplate: (template: MealTemplate) => void;
+  onDeleteTemplate: (template: MealTemplate) => void;
+  onApplyEntry: (entry: MealEntry) => void;
+  onRepeatYesterday: () => void;
+  editable?: boolean;
+}
+
+/**
+ * Saved templates, recent entries and yesterday's meal, to fill the form fast
+ */
+export function QuickPicks({
+  templates,
+  recentEntries,
+  yesterdayMeal,
+  onApplyTemplate,
+  onDeleteTemplate,
+  onApplyEntry,
+  onRepeatYesterday,
+  editable = true,
+}: QuickPicksProps) {
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const borderColor = useThemeColor(
+    { light: "rgba(128, 128, 128, 0.3)", dark: "rgba(128, 128, 128, 0.4)" },
+    "text"
+  );
+
+  if (templates.length === 0 && recentEntries.length === 0 && !yesterdayMeal) {
+    return null;
+  }
+
+  const renderRow = (title: string, chips: React.ReactNode[]) =>
+    chips.length > 0 && (
+      <ThemedView style={styles.row}>
+        <ThemedText style={styles.rowTitle}>{title}</ThemedText>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {chips}
+        </ScrollView>
+      </ThemedView>
+    );
+
+  const yesterdayConfig = yesterdayMeal
+    ? getCategoryConfig(yesterdayMeal.entry.category)
+    : null;
+
+  return (
+    <ThemedView style={styles.container}>
+      {yesterdayMeal && yesterdayConfig && (
+        <Pressable
+          onPress={() => editable && onRepeatYesterday()}
+          style={[styles.repeatButton, { borderColor: primaryColor }]}
+          accessibilityHint="Logs the same entry now"
+        >
+          <ThemedText style={[styles.repeatText, { color: primaryColor }]}>
+            ↻ Same as yesterday&apos;s {yesterdayMeal.slot}
+          </ThemedText>
+          <ThemedText style={styles.repeatDetail} numberOfLines={1}>
+            {yesterdayConfig.icon}{" "}
+            {yesterdayMeal.entry.notes || yesterdayConfig.label}
+          </ThemedText>
+        </Pressable>
+      )}
+
+      {renderRow(
+        "Templates",
+        templates.map((template) => (
+          <Pressable
+            key={template.id}
+            onPress={() => editable && onApplyTemplate(template)}
+            onLongPress={() => editable && onDeleteTemplate(template)}
+            style={[styles.chip, { borderColor }]}
+            accessibilityHint="Long press to delete"
+          >
+            <ThemedText style={styles.chipText} numberOfLines={1}>
+              {getCategoryConfig(template.category).icon} {template.name}
+            </ThemedText>
+          </Pressable>
+        ))
+      )}
+
+      {renderRow(
+        "Recent",
+        recentEntries.map((entry) => {
+          const categoryConfig = getCategoryConfig(entry.category);
+          return (
+            <Pressable
+              key={entry.id}
+              onPress={() => editable && onApplyEntry(entry)}
+              style={[styles.chip, { borderColor }]}
+            >
+              <ThemedText style={styles.chipText} numberOfLines={1}>
+                {categoryConfig.icon} {entry.notes || categoryConfig.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    backgroundColor: "transparent",
+    gap: 12,
+  },
+  repeatButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 2,
+  },
+  repeatText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  repeatDetail: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  row: {
+    gap: 6,
+    backgroundColor: "transparent",
+  },
+  rowTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    opacity: 0.6,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    maxWidth: 200,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,212 @@
+import React from "react";
+import { StyleSheet, Pressable } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { getCategoryConfig } from "@/constants/MealCategories";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { formatUtcOffset } from "@/services/dateUtils";
+import { EntryRevision, MealEntrySnapshot, RevisionAction } from "@/types";
+
+interface RevisionHistoryProps {
+  revisions: EntryRevision[]; // Newest first
+  current: MealEntrySnapshot | null; // Saved state of the entry being edited
+  onRevert: (snapshot: MealEntrySnapshot) => void;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  insert: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const isSameTags = (a: string[], b: string[]) => a.join(",") === b.join(",");
+
+const isSameZone = (a: MealEntrySnapshot, b: MealEntrySnapshot) =>
+  a.utcOffset === b.utcOffset && (a.timezone ?? null) === (b.timezone ?? null);
+
+const formatZone = (snapshot: MealEntrySnapshot): string =>
+  snapshot.timezone ?? formatUtcOffset(snapshot.utcOffset ?? 0);
+
+/**
+ * Describe what a revision changed in plain language
+ */
+const describeRevision = (revision: EntryRevision): string[] => {
+  const { before, after } = revision;
+
+  if (!before || !after) {
+    const snapshot = after ?? before;
+    if (!snapshot) return [];
+
+    const category = getCategoryConfig(snapshot.category);
+    return [
+      `${category.icon} ${category.label} at ${formatDateTime(
+        snapshot.timestamp
+      )}`,
+    ];
+  }
+
+  const changes: string[] = [];
+  if (before.category !== after.category) {
+    changes.push(
+      `Category: ${getCategoryConfig(before.category).label} → ${
+        getCategoryConfig(after.category).label
+      }`
+    );
+  }
+  if (before.timestamp !== after.timestamp) {
+    changes.push(
+      `Time: ${formatDateTime(before.timestamp)} → ${formatDateTime(
+        after.timestamp
+      )}`
+    );
+  }
+  if (before.notes !== after.notes) {
+    changes.push(after.notes ? `Notes: "${after.notes}"` : "Notes removed");
+  }
+  if (before.tags && after.tags && !isSameTags(before.tags, after.tags)) {
+    changes.push(
+      after.tags.length > 0
+        ? `Tags: ${after.tags.map((tag) => `#${tag}`).join(" ")}`
+        : "Tags removed"
+    );
+  }
+  if (
+    before.utcOffset !== undefined &&
+    after.utcOffset !== undefined &&
+    !isSameZone(before, after)
+  ) {
+    changes.push(`Time zone: ${formatZone(before)} → ${formatZone(after)}`);
+  }
+  return changes;
+};
+
+// Revisions recorded before tags or zones existed match on the other fields alone
+const isSameSnapshot = (a: MealEntrySnapshot, b: MealEntrySnapshot | null) =>
+  !!b &&
+  a.category === b.category &&
+  a.timestamp === b.timestamp &&
+  a.notes === b.notes &&
+  (!a.tags || !b.tags || isSameTags(a.tags, b.tags)) &&
+  (a.utcOffset === undefined || b.utcOffset === undefined || isSameZone(a, b));
+
+export function RevisionHistory({
+  revisions,
+  current,
+  onRevert,
+  disabled = false,
+}: RevisionHistoryProps) {
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        History
+      </ThemedText>
+
+      {revisions.map((revision) => {
+        // Reverting restores the entry as it was right after this revision
+        const target = revision.after ?? revision.before;
+        const isCurrent = !!target && isSameSnapshot(target, current);
+
+        return (
+          <ThemedView key={revision.id} style={styles.revisionRow}>
+            <ThemedView style={styles.revisionInfo}>
+              <ThemedText style={styles.revisionTitle}>
+                {ACTION_LABELS[revision.action]} ·{" "}
+                {formatDateTime(revision.createdAt)}
+              </ThemedText>
+              {describeRevision(revision).map((change) => (
+                <ThemedText key={change} style={styles.revisionChange}>
+                  {change}
+                </ThemedText>
+              ))}
+            </ThemedView>
+
+            {target && !isCurrent ? (
+              <Pressable
+                onPress={() => onRevert(target)}
+                style={[styles.revertButton, { borderColor: primaryColor }]}
+                disabled={disabled}
+              >
+                <ThemedText
+                  style={[styles.revertText, { color: primaryColor }]}
+                >
+                  Revert
+                </ThemedText>
+              </Pressable>
+            ) : (
+              isCurrent && (
+                <ThemedText style={styles.currentText}>Current</ThemedText>
+              )
+            )}
+          </ThemedView>
+        );
+      })}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+    backgroundColor: "transparent",
+  },
+  sectionTitle: {
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  revisionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.15)",
+    gap: 12,
+    backgroundColor: "transparent",
+  },
+  revisionInfo: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  revisionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  revisionChange: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  revertButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  revertText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  currentText: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+});
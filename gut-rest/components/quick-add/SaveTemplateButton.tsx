@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { StyleSheet, Pressable, TextInput } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { MAX_TEMPLATE_NAME_LENGTH } from "@/constants/Settings";
+
+interface SaveTemplateButtonProps {
+  defaultName: string;
+  onSave: (name: string) => Promise<void>;
+  editable?: boolean;
+}
+
+/**
+ * Saves the form as a quick-add template after asking for a name
+ */
+export function SaveTemplateButton({
+  defaultName,
+  onSave,
+  editable = true,
+}: SaveTemplateButtonProps) {
+  const [name, setName] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const placeholderColor = useThemeColor(
+    { light: "rgba(0, 0, 0, 0.4)", dark: "rgba(255, 255, 255, 0.4)" },
+    "text"
+  );
+  const borderColor = useThemeColor(
+    { light: "rgba(128, 128, 128, 0.3)", dark: "rgba(128, 128, 128, 0.4)" },
+    "text"
+  );
+
+  const handleSave = async () => {
+    const trimmed = (name ?? "").trim();
+    if (!trimmed) return;
+
+    try {
+      setIsSaving(true);
+      await onSave(trimmed);
+      setName(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (name === null) {
+    return (
+      <Pressable
+        onPress={() => editable && setName(defaultName)}
+        style={styles.linkButton}
+      >
+        <ThemedText style={{ color: primaryColor }}>
+          ☆ Save as template
+        </ThemedText>
+      </Pressable>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <TextInput
+        value={name}
+        onChangeText={setName}
+        onSubmitEditing={handleSave}
+        placeholder="Template name"
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, { color: textColor, borderColor }]}
+        maxLength={MAX_TEMPLATE_NAME_LENGTH}
+        returnKeyType="done"
+        editable={editable && !isSaving}
+        autoFocus
+        selectTextOnFocus
+      />
+      <ThemedView style={styles.actions}>
+        <Pressable onPress={() => setName(null)} style={styles.linkButton}>
+          <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={handleSave}
+          disabled={isSaving || !name.trim()}
+          style={styles.linkButton}
+        >
+          <ThemedText
+            style={[
+              styles.saveText,
+              { color: primaryColor },
+              !name.trim() && styles.disabledText,
+            ]}
+          >
+            Save Template
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    backgroundColor: "transparent",
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+    backgroundColor: "transparent",
+  },
+  linkButton: {
+    alignSelf: "center",
+    paddingVertical: 8,
+  },
+  cancelText: {
+    opacity: 0.6,
+  },
+  saveText: {
+    fontWeight: "600",
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet, Pressable, TextInput } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { normalizeTagName } from "@/services/tagUtils";
+import { Tag } from "@/types";
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagPickerProps {
+  selectedTags: string[];
+  onTagsChange: (tags: string[]) => void;
+  availableTags: Tag[]; // Tags already in use, most used first
+  editable?: boolean;
+}
+
+export function TagPicker({
+  selectedTags,
+  onTagsChange,
+  availableTags,
+  editable = true,
+}: TagPickerProps) {
+  const [input, setInput] = useState("");
+
+  const textColor = useThemeColor({ light: "#000", dark: "#fff" }, "text");
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const placeholderColor = useThemeColor(
+    { light: "rgba(0, 0, 0, 0.4)", dark: "rgba(255, 255, 255, 0.4)" },
+    "text"
+  );
+  const borderColor = useThemeColor(
+    { light: "rgba(128, 128, 128, 0.3)", dark: "rgba(128, 128, 128, 0.4)" },
+    "text"
+  );
+
+  // Autocomplete from tags already used, matching the typed prefix first
+  const suggestions = useMemo(() => {
+    const query = normalizeTagName(input);
+    const unused = availableTags.filter(
+      (tag) => !selectedTags.includes(tag.name)
+    );
+    if (!query) return unused.slice(0, MAX_SUGGESTIONS);
+
+    const prefixMatches = unused.filter((tag) => tag.name.startsWith(query));
+    const otherMatches = unused.filter(
+      (tag) => !tag.name.startsWith(query) && tag.name.includes(query)
+    );
+    return [...prefixMatches, ...otherMatches].slice(0, MAX_SUGGESTIONS);
+  }, [input, availableTags, selectedTags]);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name);
+    if (tag && !selectedTags.includes(tag)) {
+      onTagsChange([...selectedTags, tag]);
+    }
+    setInput("");
+  };
+
+  const removeTag = (name: string) => {
+    onTagsChange(selectedTags.filter((tag) => tag !== name));
+  };
+
+  // A trailing comma finishes the tag, like most tag inputs
+  const handleChangeText = (text: string) => {
+    if (/[,\n]$/.test(text)) {
+      addTag(text.slice(0, -1));
+    } else {
+      setInput(text);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText type="subtitle" style={styles.sectionTitle}>
+        Tags
+      </ThemedText>
+
+      {selectedTags.length > 0 && (
+        <ThemedView style={styles.chipRow}>
+          {selectedTags.map((tag) => (
+            <Pressable
+              key={tag}
+              onPress={() => editable && removeTag(tag)}
+              style={[
+                styles.chip,
+                { backgroundColor: primaryColor, borderColor: primaryColor },
+              ]}
+              accessibilityLabel={`Remove tag ${tag}`}
+            >
+              <ThemedText style={[styles.chipText, styles.selectedChipText]}>
+                #{tag} ×
+              </ThemedText>
+            </Pressable>
+          ))}
+        </ThemedView>
+      )}
+
+      <TextInput
+        value={input}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => addTag(input)}
+        placeholder="Add a tag, e.g. dairy or late-night"
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, { color: textColor, borderColor }]}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+        editable={editable}
+      />
+
+      {suggestions.length > 0 && (
+        <ThemedView style={styles.chipRow}>
+          {suggestions.map((tag) => (
+            <Pressable
+              key={tag.id}
+              onPress={() => editable && addTag(tag.name)}
+              style={[styles.chip, { borderColor }]}
+            >
+              <ThemedText style={styles.chipText}>#{tag.name}</ThemedText>
+            </Pressable>
+          ))}
+        </ThemedView>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    backgroundColor: "transparent",
+    gap: 8,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    backgroundColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+  },
+});
@@ -1,3 +1,8 @@
 export { CategoryButton } from "./CategoryButton";
 export { CategoryGrid } from "./CategoryGrid";
 export { TimeSelector } from "./TimeSelector";
+export { NotesInput } from "./NotesInput";
+export { RevisionHistory } from "./RevisionHistory";
+export { TagPicker } from "./TagPicker";
+export { QuickPicks } from "./QuickPicks";
+export { SaveTemplateButton } from "./SaveTemplateButton";
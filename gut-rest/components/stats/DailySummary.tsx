@@ -5,20 +5,25 @@ import { ThemedView } from "@/components/ThemedView";
 import { GlobalStyles } from "@/styles/globals";
 import { DailySummary as DailySummaryType } from "@/types";
 import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { getGutRestScoreColor } from "@/constants/Gaps";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
+import { GutRestBreakdown } from "@/components/GutRestBreakdown";
 
 interface DailySummaryProps {
   summary: DailySummaryType | null;
   isLoading?: boolean;
+  fastingStreak?: number; // Current fasting streak from StreakService
 }
 
 export function DailySummary({
   summary,
   isLoading = false,
+  fastingStreak = 0,
 }: DailySummaryProps) {
   const stats = React.useMemo(() => {
     if (!summary) return null;
-    return TimeCalculationService.getDailyStats(summary);
-  }, [summary]);
+    return TimeCalculationService.getDailyStats(summary, fastingStreak);
+  }, [summary, fastingStreak]);
 
   const eatingWindow = React.useMemo(() => {
     if (!summary || summary.entries.length < 2) return 0;
@@ -168,6 +173,37 @@ export function DailySummary({
         </ThemedView>
       )}
 
+      {/* Gut Rest Score */}
+      {summary.entries.some((entry) =>
+        doesCategoryBreakFasting(entry.category)
+      ) && (
+        <ThemedView style={styles.gutRestSection}>
+          <ThemedView style={styles.detailRow}>
+            <ThemedText type="default" style={styles.detailLabel}>
+              Gut Rest Score:
+            </ThemedText>
+            {summary.gutRestScore ? (
+              <ThemedText
+                type="defaultSemiBold"
+                style={{
+                  color: getGutRestScoreColor(summary.gutRestScore.score),
+                }}
+              >
+                {summary.gutRestScore.score}/100
+              </ThemedText>
+            ) : (
+              <ThemedText type="default" style={styles.detailLabel}>
+                Not scored
+              </ThemedText>
+            )}
+          </ThemedView>
+          <GutRestBreakdown
+            score={summary.gutRestScore ?? null}
+            entries={summary.entries}
+          />
+        </ThemedView>
+      )}
+
       {/* Fasting Achievement */}
       {summary.fastingWindow?.isIntermittentFasting && (
         <ThemedView style={styles.achievementBanner}>
@@ -244,6 +280,13 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     fontSize: 14,
   },
+  gutRestSection: {
+    borderTopWidth: 1,
+    borderTopColor: "rgba(128, 128, 128, 0.2)",
+    paddingTop: 16,
+    marginTop: 16,
+    gap: 8,
+  },
   achievementBanner: {
     flexDirection: "row",
     alignItems: "center",
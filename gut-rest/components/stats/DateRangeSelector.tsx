@@ -0,0 +1,229 @@
+import React, { useState } from "react";
+import { StyleSheet, Pressable, Platform } from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { BorderRadius, Spacing } from "@/styles/globals";
+import {
+  INSIGHTS_RANGE_PRESETS,
+  MAX_CUSTOM_INSIGHTS_DAYS,
+  getPresetInsightsRange,
+} from "@/constants/Insights";
+import {
+  getDateStringWithOffset,
+  getDaysBetween,
+  getLocalDateString,
+  getTodayDateString,
+  parseDateString,
+} from "@/services/dateUtils";
+import { InsightsRange } from "@/types";
+
+interface DateRangeSelectorProps {
+  range: InsightsRange;
+  onRangeChange: (range: InsightsRange) => void;
+}
+
+/**
+ * Preset period chips plus a custom start and end date
+ */
+export function DateRangeSelector({
+  range,
+  onRangeChange,
+}: DateRangeSelectorProps) {
+  const colorScheme = useColorScheme();
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+  const [editingDate, setEditingDate] = useState<"start" | "end" | null>(null);
+
+  const today = getTodayDateString();
+
+  const formatRangeDate = (date: string) =>
+    parseDateString(date).toLocaleDateString([], {
+      month: "short",
+      day: "numeric",
+    });
+
+  const handleCustomPress = () => {
+    if (range.preset !== "custom") {
+      onRangeChange({ ...range, preset: "custom" });
+    }
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    const field = editingDate;
+    // Android shows a one-shot dialog, iOS keeps the picker inline
+    if (Platform.OS === "android") {
+      setEditingDate(null);
+    }
+    if (!field || !selectedDate || event.type === "dismissed") {
+      return;
+    }
+
+    const date = getLocalDateString(selectedDate);
+    let { startDate, endDate } = range;
+
+    if (field === "start") {
+      startDate = date;
+      if (startDate > endDate) {
+        endDate = startDate;
+      }
+      if (getDaysBetween(startDate, endDate) >= MAX_CUSTOM_INSIGHTS_DAYS) {
+        endDate = getDateStringWithOffset(
+          startDate,
+          MAX_CUSTOM_INSIGHTS_DAYS - 1
+        );
+      }
+    } else {
+      endDate = date;
+      if (endDate < startDate) {
+        startDate = endDate;
+      }
+      if (getDaysBetween(startDate, endDate) >= MAX_CUSTOM_INSIGHTS_DAYS) {
+        startDate = getDateStringWithOffset(
+          endDate,
+          -(MAX_CUSTOM_INSIGHTS_DAYS - 1)
+        );
+      }
+    }
+
+    onRangeChange({ preset: "custom", startDate, endDate });
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.chipRow}>
+        {INSIGHTS_RANGE_PRESETS.map(({ preset, label }) => {
+          const isSelected = range.preset === preset;
+          return (
+            <Pressable
+              key={preset}
+              style={[
+                styles.chip,
+                isSelected && { backgroundColor: primaryColor },
+              ]}
+              onPress={() => onRangeChange(getPresetInsightsRange(preset))}
+            >
+              <ThemedText
+                style={[styles.chipText, isSelected && styles.chipTextSelected]}
+              >
+                {label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+        <Pressable
+          style={[
+            styles.chip,
+            range.preset === "custom" && { backgroundColor: primaryColor },
+          ]}
+          onPress={handleCustomPress}
+        >
+          <ThemedText
+            style={[
+              styles.chipText,
+              range.preset === "custom" && styles.chipTextSelected,
+            ]}
+          >
+            Custom
+          </ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      {range.preset === "custom" && (
+        <ThemedView style={styles.dateRow}>
+          <Pressable
+            style={[
+              styles.dateButton,
+              editingDate === "start" && { borderColor: primaryColor },
+            ]}
+            onPress={() =>
+              setEditingDate(editingDate === "start" ? null : "start")
+            }
+          >
+            <ThemedText style={styles.dateLabel}>From</ThemedText>
+            <ThemedText style={styles.dateValue}>
+              {formatRangeDate(range.startDate)}
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            style={[
+              styles.dateButton,
+              editingDate === "end" && { borderColor: primaryColor },
+            ]}
+            onPress={() => setEditingDate(editingDate === "end" ? null : "end")}
+          >
+            <ThemedText style={styles.dateLabel}>To</ThemedText>
+            <ThemedText style={styles.dateValue}>
+              {formatRangeDate(range.endDate)}
+            </ThemedText>
+          </Pressable>
+        </ThemedView>
+      )}
+
+      {range.preset === "custom" && editingDate && (
+        <DateTimePicker
+          value={parseDateString(
+            editingDate === "start" ? range.startDate : range.endDate
+          )}
+          mode="date"
+          display={Platform.OS === "ios" ? "inline" : "default"}
+          maximumDate={parseDateString(today)}
+          onChange={handleDateChange}
+          themeVariant={colorScheme === "dark" ? "dark" : "light"}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  dateRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  dateButton: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.3)",
+  },
+  dateLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  dateValue: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,114 @@
+import React from "react";
+import Svg, { Line, Rect, Text as SvgText } from "react-native-svg";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { getDayStartHour, parseDateString } from "@/services/dateUtils";
+import { DailyTrend } from "@/types";
+
+const CHART_HEIGHT = 180;
+const AXIS_WIDTH = 40; // Room for the clock labels on the left
+const LABEL_HEIGHT = 18; // Room for the day labels underneath
+const TOP_PADDING = 8;
+const MAX_X_LABELS = 7;
+const HOUR_TICKS = [0, 6, 12, 18, 24]; // Hours after the day start
+
+const WINDOW_COLOR = "#FFB74D";
+const LATE_COLOR = "#FF6B6B";
+
+interface EatingWindowChartProps {
+  trends: DailyTrend[];
+  targetWindowHours: number; // Windows longer than this are highlighted
+  width: number;
+}
+
+/**
+ * First meal to last meal per day as floating bars on a 24-hour axis
+ */
+export function EatingWindowChart({
+  trends,
+  targetWindowHours,
+  width,
+}: EatingWindowChartProps) {
+  const textColor = useThemeColor({}, "text");
+  const dayStartHour = getDayStartHour();
+
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const plotHeight = CHART_HEIGHT - LABEL_HEIGHT - TOP_PADDING;
+  const toY = (hours: number) =>
+    TOP_PADDING + (Math.min(Math.max(hours, 0), 24) / 24) * plotHeight;
+
+  const slotWidth = trends.length > 0 ? plotWidth / trends.length : 0;
+  const barWidth = Math.max(slotWidth * 0.6, 2);
+  const labelEvery = Math.ceil(trends.length / MAX_X_LABELS);
+
+  const formatClock = (hoursAfterStart: number) =>
+    new Date(2000, 0, 1, (dayStartHour + hoursAfterStart) % 24)
+      .toLocaleTimeString("en-US", { hour: "numeric" })
+      .replace(":00", "");
+
+  if (width <= 0) {
+    return null;
+  }
+
+  return (
+    <Svg width={width} height={CHART_HEIGHT}>
+      {HOUR_TICKS.map((hours) => (
+        <React.Fragment key={hours}>
+          <Line
+            x1={AXIS_WIDTH}
+            x2={width}
+            y1={toY(hours)}
+            y2={toY(hours)}
+            stroke={textColor}
+            strokeOpacity={0.1}
+          />
+          <SvgText
+            x={AXIS_WIDTH - 6}
+            y={toY(hours) + 4}
+            fontSize={10}
+            fill={textColor}
+            fillOpacity={0.6}
+            textAnchor="end"
+          >
+            {formatClock(hours)}
+          </SvgText>
+        </React.Fragment>
+      ))}
+
+      {trends.map((trend, index) => {
+        const x = AXIS_WIDTH + index * slotWidth + (slotWidth - barWidth) / 2;
+        const { eatingWindowStartHour: start, eatingWindowEndHour: end } =
+          trend;
+
+        return (
+          <React.Fragment key={trend.date}>
+            {start !== null && end !== null && (
+              <Rect
+                x={x}
+                y={toY(start)}
+                width={barWidth}
+                // Single-meal days still show up as a short tick
+                height={Math.max(toY(end) - toY(start), 3)}
+                rx={2}
+                fill={
+                  end - start > targetWindowHours ? LATE_COLOR : WINDOW_COLOR
+                }
+              />
+            )}
+            {index % labelEvery === 0 && (
+              <SvgText
+                x={x + barWidth / 2}
+                y={CHART_HEIGHT - 4}
+                fontSize={10}
+                fill={textColor}
+                fillOpacity={0.6}
+                textAnchor="middle"
+              >
+                {String(parseDateString(trend.date).getDate())}
+              </SvgText>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </Svg>
+  );
+}
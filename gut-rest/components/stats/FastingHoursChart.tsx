@@ -0,0 +1,137 @@
+import React from "react";
+import Svg, { Line, Rect, Text as SvgText } from "react-native-svg";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { parseDateString } from "@/services/dateUtils";
+import { DailyTrend } from "@/types";
+
+const CHART_HEIGHT = 160;
+const AXIS_WIDTH = 28; // Room for the hour labels on the left
+const LABEL_HEIGHT = 18; // Room for the day labels underneath
+const TOP_PADDING = 8;
+const MAX_X_LABELS = 7;
+
+const MET_COLOR = "#4FC3F7";
+const SHORT_COLOR = "rgba(79, 195, 247, 0.35)";
+const GOAL_COLOR = "#81C784";
+
+interface FastingHoursChartProps {
+  trends: DailyTrend[];
+  goalHours: number;
+  width: number;
+}
+
+/**
+ * Overnight fast length per day as bars, with a line at the fasting goal
+ */
+export function FastingHoursChart({
+  trends,
+  goalHours,
+  width,
+}: FastingHoursChartProps) {
+  const textColor = useThemeColor({}, "text");
+
+  const plotWidth = Math.max(width - AXIS_WIDTH, 0);
+  const plotHeight = CHART_HEIGHT - LABEL_HEIGHT - TOP_PADDING;
+
+  // Round the scale up to whole 4-hour steps above the goal and longest fast
+  const longestFast = Math.max(
+    ...trends.map((trend) => trend.overnightFastHours ?? 0)
+  );
+  const maxHours = Math.ceil(Math.max(longestFast, goalHours + 2) / 4) * 4;
+  const toY = (hours: number) =>
+    TOP_PADDING +
+    plotHeight -
+    (Math.min(hours, maxHours) / maxHours) * plotHeight;
+
+  const slotWidth = trends.length > 0 ? plotWidth / trends.length : 0;
+  const barWidth = Math.max(slotWidth * 0.6, 2);
+  const labelEvery = Math.ceil(trends.length / MAX_X_LABELS);
+  const ticks = [0, maxHours / 2, maxHours];
+
+  if (width <= 0) {
+    return null;
+  }
+
+  return (
+    <Svg width={width} height={CHART_HEIGHT}>
+      {ticks.map((hours) => (
+        <React.Fragment key={hours}>
+          <Line
+            x1={AXIS_WIDTH}
+            x2={width}
+            y1={toY(hours)}
+            y2={toY(hours)}
+            stroke={textColor}
+            strokeOpacity={0.1}
+          />
+          <SvgText
+            x={AXIS_WIDTH - 6}
+            y={toY(hours) + 4}
+            fontSize={10}
+            fill={textColor}
+            fillOpacity={0.6}
+            textAnchor="end"
+          >
+            {`${hours}h`}
+          </SvgText>
+        </React.Fragment>
+      ))}
+
+      {trends.map((trend, index) => {
+        const x = AXIS_WIDTH + index * slotWidth + (slotWidth - barWidth) / 2;
+        return (
+          <React.Fragment key={trend.date}>
+            {trend.overnightFastHours !== null && (
+              <Rect
+                x={x}
+                y={toY(trend.overnightFastHours)}
+                width={barWidth}
+                height={
+                  plotHeight + TOP_PADDING - toY(trend.overnightFastHours)
+                }
+                rx={2}
+                fill={
+                  trend.overnightFastHours >= goalHours
+                    ? MET_COLOR
+                    : SHORT_COLOR
+                }
+              />
+            )}
+            {index % labelEvery === 0 && (
+              <SvgText
+                x={x + barWidth / 2}
+                y={CHART_HEIGHT - 4}
+                fontSize={10}
+                fill={textColor}
+                fillOpacity={0.6}
+                textAnchor="middle"
+              >
+                {String(parseDateString(trend.date).getDate())}
+              </SvgText>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      <Line
+        x1={AXIS_WIDTH}
+        x2={width}
+        y1={toY(goalHours)}
+        y2={toY(goalHours)}
+        stroke={GOAL_COLOR}
+        strokeWidth={1.5}
+        strokeDasharray="4 4"
+      />
+      <SvgText
+        x={width - 2}
+        y={toY(goalHours) - 4}
+        fontSize={10}
+        fontWeight="600"
+        fill={GOAL_COLOR}
+        textAnchor="end"
+      >
+        {`${goalHours}h goal`}
+      </SvgText>
+    </Svg>
+  );
+}
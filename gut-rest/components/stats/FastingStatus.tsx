@@ -1,28 +1,93 @@
 import React from "react";
-import { StyleSheet } from "react-native";
+import { StyleSheet, Pressable } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { GlobalStyles } from "@/styles/globals";
-import { MealEntry } from "@/types";
+import { FastingProtocol, FastingSession, MealEntry } from "@/types";
 import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { DEFAULT_FASTING_GOAL_HOURS } from "@/constants/Settings";
+import { EXTEND_SESSION_HOURS } from "@/constants/Fasting";
+import { useNow } from "@/hooks/useNow";
 
 interface FastingStatusProps {
   lastMealEntry: MealEntry | null;
   isLoading?: boolean;
   fastingGoalHours?: number;
+  activeSession?: FastingSession | null; // Explicitly started fast, shown instead of the inferred one
+  onStartFast?: () => void;
+  onEndFast?: () => void;
+  onExtendFast?: () => void;
+  onManage?: () => void; // Opens the list of fasting sessions
+  protocol?: FastingProtocol; // Protocol in force today
+  isFastDay?: boolean;
+  eatingWindowStart?: number | null; // First fast-breaking meal today
 }
 
 export function FastingStatus({
   lastMealEntry,
   isLoading = false,
-  fastingGoalHours = 16,
+  fastingGoalHours = DEFAULT_FASTING_GOAL_HOURS,
+  activeSession = null,
+  onStartFast,
+  onEndFast,
+  onExtendFast,
+  onManage,
+  protocol,
+  isFastDay = false,
+  eatingWindowStart = null,
 }: FastingStatusProps) {
+  const now = useNow();
+
   const fastingStatus = React.useMemo(() => {
-    return TimeCalculationService.getCurrentFastingStatus(
-      lastMealEntry,
-      fastingGoalHours
-    );
-  }, [lastMealEntry, fastingGoalHours]);
+    return activeSession
+      ? TimeCalculationService.getFastingSessionStatus(activeSession, now)
+      : TimeCalculationService.getCurrentFastingStatus(
+          lastMealEntry,
+          fastingGoalHours,
+          now
+        );
+  }, [activeSession, lastMealEntry, fastingGoalHours, now]);
+
+  const goalHours = activeSession?.goalHours ?? fastingGoalHours;
+
+  const manageLink = onManage && (
+    <Pressable onPress={onManage} hitSlop={8}>
+      <ThemedText style={styles.manageLink}>History ›</ThemedText>
+    </Pressable>
+  );
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const protocolProgress = (() => {
+    if (!protocol) return null;
+    if (isFastDay) return "Fast day · one small meal at most";
+    if (eatingWindowStart === null) {
+      return `${protocol.fastingHours}h fast · ${protocol.eatingWindowHours}h eating window`;
+    }
+
+    const windowEnd =
+      eatingWindowStart + protocol.eatingWindowHours * 60 * 60 * 1000;
+    return now < windowEnd
+      ? `Eating window closes at ${formatTime(windowEnd)} (${TimeCalculationService.formatDuration(windowEnd - now)} left)`
+      : `Eating window closed at ${formatTime(windowEnd)}`;
+  })();
+
+  const protocolLabel = protocolProgress && (
+    <ThemedText type="default" style={styles.protocolLabel}>
+      <ThemedText style={styles.protocolName}>{protocol?.label}</ThemedText>
+      {"  "}
+      {protocolProgress}
+    </ThemedText>
+  );
+
+  const startButton = onStartFast && (
+    <Pressable onPress={onStartFast} style={styles.primaryButton}>
+      <ThemedText style={styles.primaryButtonText}>Start a Fast</ThemedText>
+    </Pressable>
+  );
 
   if (isLoading) {
     return (
@@ -42,12 +107,16 @@ export function FastingStatus({
     );
   }
 
-  if (!fastingStatus.isCurrentlyFasting || !lastMealEntry) {
+  if (!activeSession && !fastingStatus.isCurrentlyFasting) {
     return (
       <ThemedView style={styles.card}>
-        <ThemedText type="subtitle" style={styles.cardTitle}>
-          Current Fast
-        </ThemedText>
+        <ThemedView style={styles.header}>
+          <ThemedText type="subtitle" style={styles.cardTitle}>
+            Current Fast
+          </ThemedText>
+          {manageLink}
+        </ThemedView>
+        {protocolLabel}
         <ThemedView style={styles.fastingContainer}>
           <ThemedText type="title" style={styles.fastingTime}>
             --:--
@@ -56,44 +125,50 @@ export function FastingStatus({
             Not currently fasting
           </ThemedText>
           <ThemedText type="default" style={styles.suggestion}>
-            Log a meal to start tracking your fasting window
+            Log a meal or start a fast to track your fasting window
           </ThemedText>
+          {startButton}
         </ThemedView>
       </ThemedView>
     );
   }
 
-  const progressRing = () => {
-    const progress = fastingStatus.progressPercentage;
-    const circumference = 2 * Math.PI * 45; // radius = 45
-    const strokeDashoffset = circumference - (progress / 100) * circumference;
-
-    return {
-      circumference,
-      strokeDashoffset,
-      progress,
-    };
-  };
-
-  const ring = progressRing();
-
   return (
     <ThemedView style={styles.card}>
       <ThemedView style={styles.header}>
         <ThemedText type="subtitle" style={styles.cardTitle}>
           Current Fast
         </ThemedText>
-        {fastingStatus.goalReached && (
-          <ThemedText style={styles.achievement}>✅</ThemedText>
-        )}
+        <ThemedView style={styles.headerEnd}>
+          {fastingStatus.goalReached && (
+            <ThemedText style={styles.achievement}>✅</ThemedText>
+          )}
+          {manageLink}
+        </ThemedView>
       </ThemedView>
+      {activeSession && (
+        <ThemedText type="default" style={styles.sessionLabel}>
+          Started{" "}
+          {new Date(activeSession.startTime).toLocaleString("en-US", {
+            weekday: "short",
+            hour: "numeric",
+            minute: "2-digit",
+          })}{" "}
+          · {goalHours}h goal
+        </ThemedText>
+      )}
+      {!activeSession && protocolLabel}
 
       <ThemedView style={styles.fastingContainer}>
         <ThemedView style={styles.progressContainer}>
           {/* Progress ring would go here in a real implementation with react-native-svg */}
           <ThemedView style={styles.timeContainer}>
             <ThemedText type="title" style={styles.fastingTime}>
-              {fastingStatus.currentFastFormatted}
+              {activeSession
+                ? TimeCalculationService.formatTimer(
+                    fastingStatus.currentFastDuration
+                  )
+                : fastingStatus.currentFastFormatted}
             </ThemedText>
           </ThemedView>
         </ThemedView>
@@ -102,13 +177,19 @@ export function FastingStatus({
           <ThemedText type="default" style={styles.fastingLabel}>
             {fastingStatus.goalReached
               ? "Intermittent Fasting Goal Achieved! 🎉"
-              : "Currently fasting since your last meal"}
+              : activeSession
+                ? "Fast in progress"
+                : "Currently fasting since your last meal"}
           </ThemedText>
 
           {!fastingStatus.goalReached && (
             <ThemedText type="default" style={styles.timeToGo}>
-              {fastingStatus.timeToGoalFormatted} until 16h intermittent fasting
-              goal
+              {fastingStatus.timeToGoalFormatted} until {goalHours}h
+              {activeSession
+                ? " goal"
+                : protocol
+                  ? ` ${protocol.label} target`
+                  : " intermittent fasting goal"}
             </ThemedText>
           )}
 
@@ -130,6 +211,31 @@ export function FastingStatus({
               {fastingStatus.progressPercentage}%
             </ThemedText>
           </ThemedView>
+
+          {activeSession ? (
+            <ThemedView style={styles.actions}>
+              {onEndFast && (
+                <Pressable onPress={onEndFast} style={styles.primaryButton}>
+                  <ThemedText style={styles.primaryButtonText}>
+                    End Fast
+                  </ThemedText>
+                </Pressable>
+              )}
+              {onExtendFast && (
+                <Pressable
+                  onPress={onExtendFast}
+                  style={styles.secondaryButton}
+                  accessibilityLabel={`Extend the goal by ${EXTEND_SESSION_HOURS} hour`}
+                >
+                  <ThemedText style={styles.secondaryButtonText}>
+                    +{EXTEND_SESSION_HOURS}h
+                  </ThemedText>
+                </Pressable>
+              )}
+            </ThemedView>
+          ) : (
+            startButton
+          )}
         </ThemedView>
       </ThemedView>
     </ThemedView>
@@ -152,9 +258,36 @@ const styles = StyleSheet.create({
   cardTitle: {
     marginBottom: 0,
   },
+  headerEnd: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
   achievement: {
     fontSize: 20,
   },
+  manageLink: {
+    color: "#4FC3F7",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  protocolLabel: {
+    opacity: 0.8,
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  protocolName: {
+    color: "#4FC3F7",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  sessionLabel: {
+    opacity: 0.6,
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 8,
+  },
   fastingContainer: {
     alignItems: "center",
   },
@@ -220,4 +353,35 @@ const styles = StyleSheet.create({
     minWidth: 35,
     textAlign: "right",
   },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 12,
+    marginTop: 16,
+  },
+  primaryButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: "#4FC3F7",
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#4FC3F7",
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#4FC3F7",
+    fontWeight: "600",
+  },
 });
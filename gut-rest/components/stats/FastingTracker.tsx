@@ -3,26 +3,44 @@ import { StyleSheet } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { GlobalStyles } from "@/styles/globals";
-import { MealEntry, FastingWindow } from "@/types";
+import {
+  MealEntry,
+  FastingWindow,
+  FastingProtocol,
+  ProtocolDayGrade,
+} from "@/types";
 import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { DEFAULT_FASTING_GOAL_HOURS } from "@/constants/Settings";
+import { FAST_DAY_MAX_MEALS } from "@/constants/Fasting";
+
+// Autophagy is commonly cited from this point, independent of the user's goal
+const AUTOPHAGY_HOURS = 16;
 
 interface FastingTrackerProps {
   lastEntryYesterday: MealEntry | null;
   firstEntryToday: MealEntry | null;
   isLoading?: boolean;
+  fastingGoalHours?: number;
+  protocol?: FastingProtocol; // Protocol in force today
+  grade?: ProtocolDayGrade; // Today's grade against that protocol
 }
 
 export function FastingTracker({
   lastEntryYesterday,
   firstEntryToday,
   isLoading = false,
+  fastingGoalHours = DEFAULT_FASTING_GOAL_HOURS,
+  protocol,
+  grade,
 }: FastingTrackerProps) {
   const fastingWindow: FastingWindow | null = React.useMemo(() => {
     return TimeCalculationService.calculateFastingWindow(
       lastEntryYesterday,
-      firstEntryToday
+      firstEntryToday,
+      fastingGoalHours
     );
-  }, [lastEntryYesterday, firstEntryToday]);
+  }, [lastEntryYesterday, firstEntryToday, fastingGoalHours]);
+  const goalMs = fastingGoalHours * 60 * 60 * 1000;
 
   const formatDateTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -97,7 +115,7 @@ export function FastingTracker({
           <ThemedView style={styles.achievementBadge}>
             <ThemedText style={styles.achievementEmoji}>✅</ThemedText>
             <ThemedText type="default" style={styles.achievementLabel}>
-              16h+ Goal
+              {protocol ? protocol.label : `${fastingGoalHours}h+`} Goal
             </ThemedText>
           </ThemedView>
         )}
@@ -143,6 +161,34 @@ export function FastingTracker({
         </ThemedView>
       </ThemedView>
 
+      {/* Today's checks against the protocol */}
+      {protocol && grade && (
+        <ThemedView style={styles.protocolContainer}>
+          <ThemedText type="default" style={styles.protocolTitle}>
+            {protocol.label} {grade.isFastDay ? "fast day" : "eating day"}
+          </ThemedText>
+          {grade.isFastDay ? (
+            <ThemedText type="default" style={styles.protocolCheck}>
+              {grade.fastDayMealsMet ? "✅" : "⚠️"} {grade.mealCount} of{" "}
+              {FAST_DAY_MAX_MEALS} small meal
+              {FAST_DAY_MAX_MEALS === 1 ? "" : "s"}
+            </ThemedText>
+          ) : (
+            <>
+              <ThemedText type="default" style={styles.protocolCheck}>
+                {grade.fastingMet ? "✅" : "⚠️"} Fast:{" "}
+                {fastingWindow.durationFormatted} of {grade.targetFastingHours}h
+              </ThemedText>
+              <ThemedText type="default" style={styles.protocolCheck}>
+                {grade.eatingWindowMet ? "✅" : "⚠️"} Eating window:{" "}
+                {TimeCalculationService.formatDuration(grade.eatingWindowMs)} of{" "}
+                {grade.targetEatingWindowHours}h max
+              </ThemedText>
+            </>
+          )}
+        </ThemedView>
+      )}
+
       {/* Enhanced insights with autophagy information */}
       <ThemedView style={styles.insightsContainer}>
         {fastingWindow.isIntermittentFasting ? (
@@ -150,49 +196,51 @@ export function FastingTracker({
             <ThemedView style={styles.insight}>
               <ThemedText style={styles.insightIcon}>🎯</ThemedText>
               <ThemedText type="default" style={styles.insightText}>
-                Excellent! You&apos;ve achieved the 16-hour intermittent fasting
-                goal.
+                Excellent! You&apos;ve achieved your {fastingGoalHours}-hour
+                intermittent fasting goal.
               </ThemedText>
             </ThemedView>
 
-            <ThemedView style={styles.autophagySection}>
-              <ThemedText type="subtitle" style={styles.autophagyTitle}>
-                🧬 Autophagy Benefits Unlocked
-              </ThemedText>
-              <ThemedText type="default" style={styles.autophagyText}>
-                After 16+ hours of fasting, your body enters autophagy - a
-                cellular &quot;spring cleaning&quot; process that:
-              </ThemedText>
-              <ThemedView style={styles.benefitsList}>
-                <ThemedText style={styles.benefitItem}>
-                  • Removes damaged cellular components
-                </ThemedText>
-                <ThemedText style={styles.benefitItem}>
-                  • Promotes cellular regeneration
+            {fastingWindow.durationMs >= AUTOPHAGY_HOURS * 60 * 60 * 1000 && (
+              <ThemedView style={styles.autophagySection}>
+                <ThemedText type="subtitle" style={styles.autophagyTitle}>
+                  🧬 Autophagy Benefits Unlocked
                 </ThemedText>
-                <ThemedText style={styles.benefitItem}>
-                  • Enhances metabolic efficiency
-                </ThemedText>
-                <ThemedText style={styles.benefitItem}>
-                  • Supports longevity and brain health
+                <ThemedText type="default" style={styles.autophagyText}>
+                  After 16+ hours of fasting, your body enters autophagy - a
+                  cellular &quot;spring cleaning&quot; process that:
                 </ThemedText>
+                <ThemedView style={styles.benefitsList}>
+                  <ThemedText style={styles.benefitItem}>
+                    • Removes damaged cellular components
+                  </ThemedText>
+                  <ThemedText style={styles.benefitItem}>
+                    • Promotes cellular regeneration
+                  </ThemedText>
+                  <ThemedText style={styles.benefitItem}>
+                    • Enhances metabolic efficiency
+                  </ThemedText>
+                  <ThemedText style={styles.benefitItem}>
+                    • Supports longevity and brain health
+                  </ThemedText>
+                </ThemedView>
               </ThemedView>
-            </ThemedView>
+            )}
           </ThemedView>
         ) : (
           <ThemedView style={styles.progressContainer}>
             <ThemedView style={styles.insight}>
               <ThemedText style={styles.insightIcon}>⏰</ThemedText>
               <ThemedText type="default" style={styles.insightText}>
-                {fastingWindow.durationMs >= 12 * 60 * 60 * 1000
-                  ? "Great progress! Extend to 16h to unlock autophagy benefits."
+                {fastingWindow.durationMs >= goalMs * 0.75
+                  ? `Great progress! Extend to ${fastingGoalHours}h to reach your goal.`
                   : "Keep going! Longer fasting windows offer greater metabolic benefits."}
               </ThemedText>
             </ThemedView>
 
             <ThemedView style={styles.goalProgress}>
               <ThemedText type="default" style={styles.goalText}>
-                Goal: 16 hours for intermittent fasting
+                Goal: {fastingGoalHours} hours for intermittent fasting
               </ThemedText>
               <ThemedView style={styles.progressBar}>
                 <ThemedView
@@ -201,17 +249,14 @@ export function FastingTracker({
                     {
                       width: `${Math.min(
                         100,
-                        (fastingWindow.durationMs / (16 * 60 * 60 * 1000)) * 100
+                        (fastingWindow.durationMs / goalMs) * 100
                       )}%`,
                     },
                   ]}
                 />
               </ThemedView>
               <ThemedText type="default" style={styles.progressText}>
-                {Math.round(
-                  (fastingWindow.durationMs / (16 * 60 * 60 * 1000)) * 100
-                )}
-                % to autophagy
+                {Math.round((fastingWindow.durationMs / goalMs) * 100)}% of goal
               </ThemedText>
             </ThemedView>
           </ThemedView>
@@ -320,6 +365,22 @@ const styles = StyleSheet.create({
     marginLeft: 3.5,
     marginBottom: 8,
   },
+  protocolContainer: {
+    padding: 12,
+    backgroundColor: "rgba(128, 128, 128, 0.05)",
+    borderRadius: 8,
+    gap: 4,
+    marginBottom: 16,
+  },
+  protocolTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#4FC3F7",
+  },
+  protocolCheck: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
   insightsContainer: {
     borderTopWidth: 1,
     borderTopColor: "rgba(128, 128, 128, 0.2)",
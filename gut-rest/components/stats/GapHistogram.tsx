@@ -0,0 +1,72 @@
+import React from "react";
+import Svg, { Rect, Text as SvgText } from "react-native-svg";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { GapHistogramBucket } from "@/types";
+
+const CHART_HEIGHT = 140;
+const LABEL_HEIGHT = 18; // Room for the band labels underneath
+const COUNT_HEIGHT = 16; // Room for the counts above the bars
+
+interface GapHistogramProps {
+  buckets: GapHistogramBucket[];
+  width: number;
+}
+
+/**
+ * Number of gaps between entries in each band of the timeline's gap rating
+ */
+export function GapHistogram({ buckets, width }: GapHistogramProps) {
+  const textColor = useThemeColor({}, "text");
+
+  const plotHeight = CHART_HEIGHT - LABEL_HEIGHT - COUNT_HEIGHT;
+  const maxCount = Math.max(...buckets.map((bucket) => bucket.count), 1);
+  const slotWidth = buckets.length > 0 ? width / buckets.length : 0;
+  const barWidth = slotWidth * 0.7;
+
+  if (width <= 0) {
+    return null;
+  }
+
+  return (
+    <Svg width={width} height={CHART_HEIGHT}>
+      {buckets.map((bucket, index) => {
+        const x = index * slotWidth + (slotWidth - barWidth) / 2;
+        const barHeight = (bucket.count / maxCount) * plotHeight;
+        const y = COUNT_HEIGHT + plotHeight - barHeight;
+
+        return (
+          <React.Fragment key={bucket.label}>
+            <Rect
+              x={x}
+              y={y}
+              width={barWidth}
+              height={barHeight}
+              rx={3}
+              fill={bucket.color}
+            />
+            <SvgText
+              x={x + barWidth / 2}
+              y={y - 4}
+              fontSize={11}
+              fontWeight="600"
+              fill={textColor}
+              textAnchor="middle"
+            >
+              {String(bucket.count)}
+            </SvgText>
+            <SvgText
+              x={x + barWidth / 2}
+              y={CHART_HEIGHT - 4}
+              fontSize={10}
+              fill={textColor}
+              fillOpacity={0.6}
+              textAnchor="middle"
+            >
+              {bucket.label}
+            </SvgText>
+          </React.Fragment>
+        );
+      })}
+    </Svg>
+  );
+}
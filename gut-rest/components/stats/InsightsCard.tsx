@@ -0,0 +1,221 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { GlobalStyles, Spacing } from "@/styles/globals";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import {
+  EatingPatternAnalysis,
+  InsightsRange,
+  PeriodComparison,
+} from "@/types";
+import { DateRangeSelector } from "./DateRangeSelector";
+
+interface InsightMetric {
+  label: string;
+  value: (analysis: EatingPatternAnalysis) => number | null; // null when not measured
+  format: (value: number) => string;
+  formatChange: (change: number) => string; // Receives the absolute change
+  higherIsBetter: boolean | null; // null when neither direction is better
+}
+
+const METRICS: InsightMetric[] = [
+  {
+    label: "Avg Eating Window",
+    value: (analysis) => analysis.averageEatingWindow,
+    format: (value) => TimeCalculationService.formatDuration(value),
+    formatChange: (change) => TimeCalculationService.formatDuration(change),
+    higherIsBetter: false,
+  },
+  {
+    label: "Meals per Day",
+    value: (analysis) => analysis.averageMealsPerDay,
+    format: (value) => value.toFixed(1),
+    formatChange: (change) => change.toFixed(1),
+    higherIsBetter: null,
+  },
+  {
+    label: "Avg Overnight Fast",
+    value: (analysis) => analysis.averageFastingHours,
+    format: (value) => `${value.toFixed(1)}h`,
+    formatChange: (change) => `${change.toFixed(1)}h`,
+    higherIsBetter: true,
+  },
+  {
+    label: "IF Days",
+    value: (analysis) => analysis.intermittentFastingPercentage,
+    format: (value) => `${value}%`,
+    formatChange: (change) => `${change} pts`,
+    higherIsBetter: true,
+  },
+  {
+    label: "Gut Rest Score",
+    value: (analysis) => analysis.averageGutRestScore,
+    format: (value) => `${value}/100`,
+    formatChange: (change) => `${change}`,
+    higherIsBetter: true,
+  },
+  {
+    label: "Consistency",
+    value: (analysis) => analysis.consistencyScore,
+    format: (value) => `${value}/100`,
+    formatChange: (change) => `${change}`,
+    higherIsBetter: true,
+  },
+];
+
+const IMPROVED_COLOR = "#4CAF50";
+const WORSENED_COLOR = "#FF6B6B";
+
+interface InsightsCardProps {
+  range: InsightsRange;
+  onRangeChange: (range: InsightsRange) => void;
+  comparison: PeriodComparison | null;
+  isLoading?: boolean;
+}
+
+/**
+ * Eating pattern averages over a chosen period, compared with the period
+ * of the same length just before it
+ */
+export function InsightsCard({
+  range,
+  onRangeChange,
+  comparison,
+  isLoading = false,
+}: InsightsCardProps) {
+  const renderChange = (metric: InsightMetric) => {
+    if (!comparison || comparison.previous.totalDaysAnalyzed === 0) {
+      return <ThemedText style={styles.changeText}>—</ThemedText>;
+    }
+
+    const current = metric.value(comparison.current);
+    const previous = metric.value(comparison.previous);
+    if (current === null || previous === null) {
+      return <ThemedText style={styles.changeText}>—</ThemedText>;
+    }
+
+    const change = current - previous;
+    // Ignore rounding noise such as a few seconds of eating window
+    const isFlat =
+      metric.higherIsBetter === false
+        ? Math.abs(change) < 60 * 1000
+        : Math.abs(change) < 0.05;
+
+    if (isFlat) {
+      return <ThemedText style={styles.changeText}>No change</ThemedText>;
+    }
+
+    const improved =
+      metric.higherIsBetter === null
+        ? null
+        : change > 0 === metric.higherIsBetter;
+
+    return (
+      <ThemedText
+        style={[
+          styles.changeText,
+          improved !== null && {
+            color: improved ? IMPROVED_COLOR : WORSENED_COLOR,
+            opacity: 1,
+          },
+        ]}
+      >
+        {change > 0 ? "▲" : "▼"} {metric.formatChange(Math.abs(change))}
+      </ThemedText>
+    );
+  };
+
+  const formatValue = (metric: InsightMetric) => {
+    const value = comparison && metric.value(comparison.current);
+    return value === null ? "Not scored" : metric.format(value);
+  };
+
+  const renderBody = () => {
+    if (!comparison) {
+      return isLoading ? null : (
+        <ThemedText style={styles.emptyText}>
+          Couldn&apos;t load insights for this period
+        </ThemedText>
+      );
+    }
+
+    if (comparison.current.totalDaysAnalyzed === 0) {
+      return (
+        <ThemedText style={styles.emptyText}>
+          No meals logged in this period
+        </ThemedText>
+      );
+    }
+
+    return (
+      <>
+        <ThemedText style={styles.coverageText}>
+          Based on {comparison.current.totalDaysAnalyzed} of{" "}
+          {comparison.periodDays} days logged · compared with the previous{" "}
+          {comparison.periodDays} {comparison.periodDays === 1 ? "day" : "days"}
+        </ThemedText>
+
+        {METRICS.map((metric) => (
+          <ThemedView key={metric.label} style={styles.metricRow}>
+            <ThemedText style={styles.metricLabel}>{metric.label}</ThemedText>
+            <ThemedView style={styles.metricValues}>
+              <ThemedText style={styles.metricValue}>
+                {formatValue(metric)}
+              </ThemedText>
+              {renderChange(metric)}
+            </ThemedView>
+          </ThemedView>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedText type="subtitle">Insights</ThemedText>
+
+      <DateRangeSelector range={range} onRangeChange={onRangeChange} />
+
+      {renderBody()}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    ...GlobalStyles.card,
+    gap: Spacing.sm,
+  },
+  emptyText: {
+    opacity: 0.6,
+    fontSize: 14,
+  },
+  coverageText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  metricRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  metricLabel: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  metricValues: {
+    alignItems: "flex-end",
+    backgroundColor: "transparent",
+  },
+  metricValue: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  changeText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
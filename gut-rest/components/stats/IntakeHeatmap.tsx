@@ -0,0 +1,132 @@
+import React from "react";
+import { StyleSheet, Pressable } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { WEEKDAY_LABELS } from "@/constants/Fasting";
+import { getDayStartHour } from "@/services/dateUtils";
+import { HeatmapCell } from "@/types";
+
+const HOUR_LABEL_EVERY = 6;
+
+interface IntakeHeatmapProps {
+  cells: HeatmapCell[][]; // Seven rows, Sunday first, of 24 hourly cells
+  selectedCell: { weekday: number; hour: number } | null;
+  onCellPress: (cell: HeatmapCell) => void;
+}
+
+/**
+ * Weekday by hour grid shaded by how much was eaten in each slot
+ */
+export function IntakeHeatmap({
+  cells,
+  selectedCell,
+  onCellPress,
+}: IntakeHeatmapProps) {
+  // Columns start at the day start so each row reads as one logged day
+  const dayStartHour = getDayStartHour();
+  const hours = Array.from(
+    { length: 24 },
+    (_, index) => (dayStartHour + index) % 24
+  );
+
+  const maxValue = Math.max(
+    ...cells.flatMap((row) => row.map((cell) => cell.value)),
+    0
+  );
+
+  const formatHour = (hour: number) =>
+    new Date(2000, 0, 1, hour)
+      .toLocaleTimeString("en-US", { hour: "numeric" })
+      .replace(" ", "")
+      .toLowerCase();
+
+  const getCellColor = (value: number) => {
+    if (value === 0 || maxValue === 0) {
+      return "rgba(128, 128, 128, 0.08)";
+    }
+    const alpha = 0.15 + (value / maxValue) * 0.85;
+    return `rgba(79, 195, 247, ${alpha.toFixed(2)})`;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {cells.map((row, weekday) => (
+        <ThemedView key={WEEKDAY_LABELS[weekday]} style={styles.row}>
+          <ThemedText style={styles.weekdayLabel}>
+            {WEEKDAY_LABELS[weekday]}
+          </ThemedText>
+          {hours.map((hour) => {
+            const cell = row[hour];
+            const isSelected =
+              selectedCell?.weekday === weekday && selectedCell.hour === hour;
+            return (
+              <Pressable
+                key={hour}
+                onPress={() => onCellPress(cell)}
+                style={[
+                  styles.cell,
+                  { backgroundColor: getCellColor(cell.value) },
+                  isSelected && styles.cellSelected,
+                ]}
+                accessibilityLabel={`${WEEKDAY_LABELS[weekday]} ${formatHour(
+                  hour
+                )}: ${cell.entries.length} entries`}
+              />
+            );
+          })}
+        </ThemedView>
+      ))}
+
+      <ThemedView style={styles.row}>
+        <ThemedView style={styles.weekdayLabel} />
+        {hours.map((hour, index) => (
+          <ThemedView key={hour} style={styles.hourLabelSlot}>
+            {index % HOUR_LABEL_EVERY === 0 && (
+              <ThemedText style={styles.hourLabel} numberOfLines={1}>
+                {formatHour(hour)}
+              </ThemedText>
+            )}
+          </ThemedView>
+        ))}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 2,
+    backgroundColor: "transparent",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    backgroundColor: "transparent",
+  },
+  weekdayLabel: {
+    width: 32,
+    fontSize: 11,
+    opacity: 0.6,
+    backgroundColor: "transparent",
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 0.8,
+    borderRadius: 2,
+  },
+  cellSelected: {
+    borderWidth: 1.5,
+    borderColor: "#FF6B6B",
+  },
+  hourLabelSlot: {
+    flex: 1,
+    overflow: "visible",
+    backgroundColor: "transparent",
+  },
+  hourLabel: {
+    width: 40,
+    fontSize: 10,
+    opacity: 0.6,
+  },
+});
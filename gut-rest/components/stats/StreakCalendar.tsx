@@ -0,0 +1,169 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Spacing } from "@/styles/globals";
+import { StreakDayStatus } from "@/types";
+import {
+  createDateRange,
+  getDateStringWithOffset,
+  getTodayDateString,
+  parseDateString,
+} from "@/services/dateUtils";
+import { WEEKDAY_LABELS } from "@/constants/Fasting";
+
+const STATUS_COLORS: Record<StreakDayStatus, string> = {
+  met: "#4FC3F7",
+  grace: "#FFB74D",
+  missed: "rgba(255, 107, 107, 0.35)",
+  pending: "transparent",
+};
+
+const LEGEND: { status: StreakDayStatus; label: string }[] = [
+  { status: "met", label: "Counted" },
+  { status: "grace", label: "Grace day" },
+  { status: "missed", label: "Missed" },
+];
+
+interface StreakCalendarProps {
+  days: Record<string, StreakDayStatus>; // Keyed by YYYY-MM-DD
+  weeks?: number; // Number of weeks shown, ending with the current one
+}
+
+/**
+ * Week-by-week grid of which days counted toward a streak
+ */
+export function StreakCalendar({ days, weeks = 6 }: StreakCalendarProps) {
+  const rows = React.useMemo(() => {
+    const today = getTodayDateString();
+    const firstDate = getDateStringWithOffset(
+      today,
+      -(parseDateString(today).getDay() + (weeks - 1) * 7)
+    );
+    const dates = createDateRange(firstDate, weeks * 7);
+
+    return Array.from({ length: weeks }, (_, week) =>
+      dates.slice(week * 7, week * 7 + 7)
+    );
+  }, [weeks]);
+
+  const today = getTodayDateString();
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.row}>
+        {WEEKDAY_LABELS.map((label) => (
+          <ThemedText key={label} style={styles.weekdayLabel}>
+            {label.charAt(0)}
+          </ThemedText>
+        ))}
+      </ThemedView>
+
+      {rows.map((dates) => (
+        <ThemedView key={dates[0]} style={styles.row}>
+          {dates.map((date) => {
+            const status = days[date];
+            return (
+              <ThemedView
+                key={date}
+                style={[
+                  styles.cell,
+                  status && { backgroundColor: STATUS_COLORS[status] },
+                  date === today && styles.todayCell,
+                  date > today && styles.futureCell,
+                ]}
+              >
+                <ThemedText
+                  style={[
+                    styles.dayNumber,
+                    status === "met" && styles.dayNumberMet,
+                  ]}
+                >
+                  {parseDateString(date).getDate()}
+                </ThemedText>
+              </ThemedView>
+            );
+          })}
+        </ThemedView>
+      ))}
+
+      <ThemedView style={styles.legend}>
+        {LEGEND.map(({ status, label }) => (
+          <ThemedView key={status} style={styles.legendItem}>
+            <ThemedView
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: STATUS_COLORS[status] },
+              ]}
+            />
+            <ThemedText style={styles.legendText}>{label}</ThemedText>
+          </ThemedView>
+        ))}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+    backgroundColor: "transparent",
+  },
+  row: {
+    flexDirection: "row",
+    gap: 4,
+    backgroundColor: "transparent",
+  },
+  weekdayLabel: {
+    flex: 1,
+    fontSize: 11,
+    opacity: 0.5,
+    textAlign: "center",
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 6,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(128, 128, 128, 0.08)",
+  },
+  todayCell: {
+    borderWidth: 1.5,
+    borderColor: "#4FC3F7",
+  },
+  futureCell: {
+    opacity: 0.3,
+  },
+  dayNumber: {
+    fontSize: 11,
+    opacity: 0.7,
+  },
+  dayNumberMet: {
+    color: "white",
+    fontWeight: "600",
+    opacity: 1,
+  },
+  legend: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.xs,
+    backgroundColor: "transparent",
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "transparent",
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { StyleSheet, Pressable } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { GlobalStyles, BorderRadius, Spacing } from "@/styles/globals";
+import { StreakResult, StreakType } from "@/types";
+import { StreakCalendar } from "./StreakCalendar";
+
+const STREAK_TYPES: {
+  type: StreakType;
+  icon: string;
+  label: string;
+  description: string;
+}[] = [
+  {
+    type: "fasting",
+    icon: "🔥",
+    label: "Fasting",
+    description: "Days that met your overnight fast or fast day target",
+  },
+  {
+    type: "eating_window",
+    icon: "⏱️",
+    label: "Window",
+    description: "Days your meals stayed inside the eating window",
+  },
+  {
+    type: "logging",
+    icon: "📝",
+    label: "Logging",
+    description: "Days with at least one entry logged",
+  },
+];
+
+interface StreaksCardProps {
+  streaks: Record<StreakType, StreakResult> | null;
+  graceDays: number; // Missed days per week a streak survives
+  isLoading?: boolean;
+}
+
+export function StreaksCard({
+  streaks,
+  graceDays,
+  isLoading = false,
+}: StreaksCardProps) {
+  const [selectedType, setSelectedType] = useState<StreakType>("fasting");
+
+  if (isLoading && !streaks) {
+    return null;
+  }
+
+  if (!streaks) {
+    return (
+      <ThemedView style={styles.card}>
+        <ThemedText type="subtitle">Streaks</ThemedText>
+        <ThemedText style={styles.emptyText}>
+          Log meals to start building streaks
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const selected = STREAK_TYPES.find(({ type }) => type === selectedType)!;
+  const selectedStreak = streaks[selectedType];
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="subtitle">Streaks</ThemedText>
+        <ThemedText style={styles.graceText}>
+          {graceDays === 0
+            ? "No grace days"
+            : `${graceDays} grace ${graceDays === 1 ? "day" : "days"} / week`}
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.tiles}>
+        {STREAK_TYPES.map(({ type, icon, label }) => {
+          const streak = streaks[type];
+          const isSelected = type === selectedType;
+          return (
+            <Pressable
+              key={type}
+              onPress={() => setSelectedType(type)}
+              style={[styles.tile, isSelected && styles.tileSelected]}
+              accessibilityLabel={`${label} streak: ${streak.current} days, best ${streak.longest}`}
+            >
+              <ThemedText style={styles.tileIcon}>{icon}</ThemedText>
+              <ThemedText type="title" style={styles.tileValue}>
+                {streak.current}
+              </ThemedText>
+              <ThemedText style={styles.tileLabel}>{label}</ThemedText>
+              <ThemedText style={styles.tileBest}>
+                Best {streak.longest}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ThemedView>
+
+      <ThemedText style={styles.description}>
+        {selected.description}
+        {selectedStreak.graceDaysUsed > 0 &&
+          ` · ${selectedStreak.graceDaysUsed} grace ${
+            selectedStreak.graceDaysUsed === 1 ? "day" : "days"
+          } used in this streak`}
+      </ThemedText>
+
+      <StreakCalendar days={selectedStreak.days} />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    ...GlobalStyles.card,
+    gap: Spacing.sm,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "transparent",
+  },
+  graceText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  emptyText: {
+    opacity: 0.6,
+    fontSize: 14,
+  },
+  tiles: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    backgroundColor: "transparent",
+  },
+  tile: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: "rgba(128, 128, 128, 0.2)",
+  },
+  tileSelected: {
+    borderColor: "#4FC3F7",
+    backgroundColor: "rgba(76, 195, 247, 0.1)",
+  },
+  tileIcon: {
+    fontSize: 18,
+  },
+  tileValue: {
+    fontSize: 28,
+    lineHeight: 34,
+  },
+  tileLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  tileBest: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  description: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,125 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { GlobalStyles, Spacing } from "@/styles/globals";
+import { MealEntry } from "@/types";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+
+const MAX_TAGS_SHOWN = 8;
+
+interface TagBreakdownProps {
+  entries: MealEntry[]; // Entries over the period to break down
+  periodLabel: string; // e.g. "Last 30 days"
+  isLoading?: boolean;
+}
+
+export function TagBreakdown({
+  entries,
+  periodLabel,
+  isLoading = false,
+}: TagBreakdownProps) {
+  const breakdown = React.useMemo(
+    () =>
+      TimeCalculationService.getTagBreakdown(entries).slice(0, MAX_TAGS_SHOWN),
+    [entries]
+  );
+
+  if (isLoading || breakdown.length === 0) {
+    return null;
+  }
+
+  const formatAverage = (ms: number, count: number) =>
+    count > 0 ? TimeCalculationService.formatDuration(ms) : "--";
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="subtitle">By Tag</ThemedText>
+        <ThemedText style={styles.periodText}>{periodLabel}</ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.row}>
+        <ThemedText style={[styles.tagCell, styles.headingText]}>
+          Tag
+        </ThemedText>
+        <ThemedText style={[styles.valueCell, styles.headingText]}>
+          Gap after
+        </ThemedText>
+        <ThemedText style={[styles.valueCell, styles.headingText]}>
+          Overnight fast
+        </ThemedText>
+      </ThemedView>
+
+      {breakdown.map((item) => (
+        <ThemedView key={item.tag} style={styles.row}>
+          <ThemedView style={styles.tagCell}>
+            <ThemedText type="defaultSemiBold" numberOfLines={1}>
+              #{item.tag}
+            </ThemedText>
+            <ThemedText style={styles.countText}>
+              {item.entryCount} {item.entryCount === 1 ? "entry" : "entries"}
+            </ThemedText>
+          </ThemedView>
+          <ThemedText style={styles.valueCell}>
+            {formatAverage(item.averageGapAfterMs, item.entryCount)}
+          </ThemedText>
+          <ThemedText style={styles.valueCell}>
+            {formatAverage(item.averageFastAfterMs, item.fastCount)}
+          </ThemedText>
+        </ThemedView>
+      ))}
+
+      <ThemedText style={styles.footnote}>
+        Averages measured from each tagged entry to the next meal.
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    ...GlobalStyles.card,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+    backgroundColor: "transparent",
+  },
+  periodText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(128, 128, 128, 0.15)",
+    backgroundColor: "transparent",
+  },
+  headingText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  tagCell: {
+    flex: 1.4,
+    backgroundColor: "transparent",
+  },
+  valueCell: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  countText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  footnote: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: Spacing.sm,
+  },
+});
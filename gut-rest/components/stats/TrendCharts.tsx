@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { GlobalStyles, Spacing } from "@/styles/globals";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { MealEntry } from "@/types";
+import { FastingHoursChart } from "./FastingHoursChart";
+import { EatingWindowChart } from "./EatingWindowChart";
+import { GapHistogram } from "./GapHistogram";
+
+interface TrendChartsProps {
+  entries: MealEntry[]; // Must also cover the day before the first date
+  dates: string[]; // Days to chart (YYYY-MM-DD), oldest first
+  fastingGoalHours: number;
+  isLoading?: boolean;
+}
+
+/**
+ * Day-by-day charts of overnight fasts, eating windows and gap lengths
+ */
+export function TrendCharts({
+  entries,
+  dates,
+  fastingGoalHours,
+  isLoading = false,
+}: TrendChartsProps) {
+  // Charts draw at the card's measured width on every platform
+  const [chartWidth, setChartWidth] = useState(0);
+
+  const trends = useMemo(
+    () => TimeCalculationService.getDailyTrends(entries, dates),
+    [entries, dates]
+  );
+  const histogram = useMemo(
+    () =>
+      TimeCalculationService.getGapHistogram(
+        trends.flatMap((trend) => trend.gaps)
+      ),
+    [trends]
+  );
+
+  if (isLoading && entries.length === 0) {
+    return null;
+  }
+
+  const hasMeals = trends.some((trend) => trend.eatingWindowStartHour !== null);
+
+  return (
+    <ThemedView
+      style={styles.card}
+      onLayout={(event) =>
+        setChartWidth(
+          event.nativeEvent.layout.width - GlobalStyles.card.padding * 2
+        )
+      }
+    >
+      <ThemedView style={styles.header}>
+        <ThemedText type="subtitle">Trends</ThemedText>
+        <ThemedText style={styles.periodText}>
+          Last {dates.length} days
+        </ThemedText>
+      </ThemedView>
+
+      {!hasMeals ? (
+        <ThemedText style={styles.emptyText}>
+          Log meals to see your trends
+        </ThemedText>
+      ) : (
+        <>
+          <ThemedText style={styles.chartTitle}>Overnight Fast</ThemedText>
+          <FastingHoursChart
+            trends={trends}
+            goalHours={fastingGoalHours}
+            width={chartWidth}
+          />
+
+          <ThemedText style={styles.chartTitle}>Eating Window</ThemedText>
+          <EatingWindowChart
+            trends={trends}
+            targetWindowHours={24 - fastingGoalHours}
+            width={chartWidth}
+          />
+
+          <ThemedText style={styles.chartTitle}>
+            Gaps Between Entries
+          </ThemedText>
+          <GapHistogram buckets={histogram} width={chartWidth} />
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    ...GlobalStyles.card,
+    gap: Spacing.sm,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "transparent",
+  },
+  periodText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  emptyText: {
+    opacity: 0.6,
+    fontSize: 14,
+  },
+  chartTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: Spacing.xs,
+  },
+});
@@ -2,3 +2,13 @@ export { StatCard } from "./StatCard";
 export { FastingStatus } from "./FastingStatus";
 export { DailySummary } from "./DailySummary";
 export { FastingTracker } from "./FastingTracker";
+export { TagBreakdown } from "./TagBreakdown";
+export { StreaksCard } from "./StreaksCard";
+export { StreakCalendar } from "./StreakCalendar";
+export { InsightsCard } from "./InsightsCard";
+export { TrendCharts } from "./TrendCharts";
+export { FastingHoursChart } from "./FastingHoursChart";
+export { EatingWindowChart } from "./EatingWindowChart";
+export { GapHistogram } from "./GapHistogram";
+export { DateRangeSelector } from "./DateRangeSelector";
+export { IntakeHeatmap } from "./IntakeHeatmap";
@@ -4,10 +4,12 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
-import { MealEntry as MealEntryType } from "@/types";
-import { getCategoryConfig } from "@/constants/MealCategories";
+import { DigestionPhase, MealEntry as MealEntryType } from "@/types";
+import { useCategories } from "@/contexts/CategoriesContext";
 import { GlobalStyles, Spacing, BorderRadius } from "@/styles/globals";
-import { useColorScheme } from "@/hooks/useColorScheme";
+import { useCategoryColor } from "@/hooks/useCategoryColor";
+import { formatEntryTime } from "@/services/dateUtils";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
 
 interface MealEntryProps {
   entry: MealEntryType;
@@ -15,6 +17,7 @@ interface MealEntryProps {
   onEdit?: (entry: MealEntryType) => void;
   isFirst?: boolean;
   isLast?: boolean;
+  digestionPhase?: DigestionPhase; // Unset for entries that don't break a fast
 }
 
 export function MealEntry({
@@ -23,9 +26,11 @@ export function MealEntry({
   onEdit,
   isFirst = false,
   isLast = false,
+  digestionPhase,
 }: MealEntryProps) {
-  const colorScheme = useColorScheme();
-  const categoryConfig = getCategoryConfig(entry.category);
+  const { getCategory } = useCategories();
+  const categoryConfig = getCategory(entry.category);
+  const categoryColor = useCategoryColor(entry.category);
   const [isLongPressing, setIsLongPressing] = useState(false);
 
   // Theme colors
@@ -44,14 +49,6 @@ export function MealEntry({
     "text"
   );
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
-  };
-
   const handleDelete = () => {
     // Trigger haptic feedback for delete action
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -84,17 +81,63 @@ export function MealEntry({
     onEdit?.(entry);
   };
 
+  // Digesting bar in the category color, then resting until the next meal
+  const renderDigestion = (phase: DigestionPhase) => {
+    const digestingMs = phase.digestingUntil - phase.startTime;
+    return (
+      <ThemedView style={styles.digestion}>
+        <ThemedView style={styles.phaseBar}>
+          <ThemedView
+            style={[
+              styles.phaseSegment,
+              { flex: digestingMs, backgroundColor: categoryColor },
+            ]}
+          />
+          {phase.restMs !== undefined && phase.restMs > 0 && (
+            <ThemedView
+              style={[
+                styles.phaseSegment,
+                styles.restSegment,
+                { flex: phase.restMs },
+              ]}
+            />
+          )}
+        </ThemedView>
+        <ThemedText style={[styles.phaseText, { color: subtleTextColor }]}>
+          Digesting until{" "}
+          {formatEntryTime({
+            timestamp: phase.digestingUntil,
+            utcOffset: entry.utcOffset,
+          })}
+          {phase.restMs !== undefined &&
+            (phase.restMs > 0
+              ? ` · rested ${TimeCalculationService.formatDuration(
+                  phase.restMs
+                )}`
+              : " · no rest before the next meal")}
+        </ThemedText>
+        {phase.overlapMs > 0 && (
+          <ThemedText style={styles.overlapText}>
+            ⚠️ Eaten {TimeCalculationService.formatDuration(phase.overlapMs)}{" "}
+            before the previous meal was digested
+          </ThemedText>
+        )}
+      </ThemedView>
+    );
+  };
+
   const entryContent = (
     <ThemedView
       style={[
         styles.entryRow,
+        digestionPhase && digestionPhase.overlapMs > 0 && styles.overlappingRow,
         isLongPressing && { backgroundColor: longPressOverlayColor },
       ]}
     >
       {/* Time Column */}
       <ThemedView style={styles.timeColumn}>
         <ThemedText style={[styles.timeText, { color: subtleTextColor }]}>
-          {formatTime(entry.timestamp)}
+          {formatEntryTime(entry)}
         </ThemedText>
       </ThemedView>
 
@@ -104,7 +147,7 @@ export function MealEntry({
           style={[
             styles.timelineDot,
             {
-              backgroundColor: categoryConfig.color,
+              backgroundColor: categoryColor,
               borderColor: backgroundColor,
             },
             isLongPressing && styles.longPressDot,
@@ -131,6 +174,15 @@ export function MealEntry({
                 {entry.notes}
               </ThemedText>
             )}
+            {entry.tags && entry.tags.length > 0 && (
+              <ThemedText
+                style={[styles.mealTags, { color: subtleTextColor }]}
+                numberOfLines={1}
+              >
+                {entry.tags.map((tag) => `#${tag}`).join(" ")}
+              </ThemedText>
+            )}
+            {digestionPhase && renderDigestion(digestionPhase)}
           </ThemedView>
         </ThemedView>
       </ThemedView>
@@ -218,6 +270,42 @@ const styles = StyleSheet.create({
     marginTop: 2,
     lineHeight: 18,
   },
+  mealTags: {
+    fontSize: 12,
+    marginTop: 2,
+    lineHeight: 16,
+  },
+  overlappingRow: {
+    backgroundColor: "rgba(255, 107, 107, 0.08)",
+  },
+  digestion: {
+    marginTop: Spacing.xs,
+    gap: 2,
+    backgroundColor: "transparent",
+  },
+  phaseBar: {
+    flexDirection: "row",
+    height: 4,
+    borderRadius: 2,
+    overflow: "hidden",
+    backgroundColor: "transparent",
+  },
+  phaseSegment: {
+    height: 4,
+  },
+  restSegment: {
+    backgroundColor: "rgba(79, 195, 247, 0.35)",
+  },
+  phaseText: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  overlapText: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: "600",
+    color: "#FF6B6B",
+  },
   longPressDot: {
     transform: [{ scale: 1.2 }],
     shadowOpacity: 0.3,
@@ -0,0 +1,231 @@
+import React, { useMemo } from "react";
+import { StyleSheet } from "react-native";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useNow } from "@/hooks/useNow";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import {
+  formatEntryTime,
+  getDateStringFromTimestamp,
+  getTodayDateString,
+} from "@/services/dateUtils";
+import {
+  getCategoryConfig,
+  getRecommendedGap,
+} from "@/constants/MealCategories";
+import {
+  FastingSession,
+  MealEntry,
+  NextMealConstraint,
+  NextMealRecommendation,
+} from "@/types";
+import { BorderRadius, Spacing } from "@/styles/globals";
+
+const CONSTRAINT_LABELS: Record<NextMealConstraint, string> = {
+  category_gap: "Digestion gap",
+  fasting_goal: "Fasting goal",
+  eating_window: "Eating window",
+};
+
+interface NextMealCardProps {
+  lastMeal: MealEntry | null; // Latest fast-breaking entry
+  firstMealToday: MealEntry | null;
+  activeSession: FastingSession | null;
+  eatingWindowHours: number;
+  fastingHours: number;
+  isFastDay?: boolean;
+}
+
+/**
+ * When the next meal is OK and which rule decides it, counting down live
+ */
+export function NextMealCard({
+  lastMeal,
+  firstMealToday,
+  activeSession,
+  eatingWindowHours,
+  fastingHours,
+  isFastDay = false,
+}: NextMealCardProps) {
+  const now = useNow(30 * 1000);
+  const subtleTextColor = useThemeColor(
+    { light: "#666", dark: "#A0A0A0" },
+    "text"
+  );
+  const primaryColor = useThemeColor(
+    { light: "#007AFF", dark: "#0A84FF" },
+    "tint"
+  );
+
+  const recommendation = useMemo(
+    () =>
+      TimeCalculationService.getNextMealRecommendation(
+        lastMeal,
+        firstMealToday,
+        activeSession,
+        isFastDay ? 0 : eatingWindowHours,
+        fastingHours,
+        now
+      ),
+    [
+      lastMeal,
+      firstMealToday,
+      activeSession,
+      eatingWindowHours,
+      fastingHours,
+      isFastDay,
+      now,
+    ]
+  );
+
+  if (!recommendation) {
+    return null;
+  }
+
+  const formatTime = (timestamp: number) => {
+    const time = formatEntryTime({ timestamp });
+    return getDateStringFromTimestamp(timestamp) > getTodayDateString()
+      ? `${time} tomorrow`
+      : time;
+  };
+
+  const isReady = recommendation.readyAt <= now;
+
+  const explain = ({
+    binding,
+    windowClosesAt,
+  }: NextMealRecommendation): string => {
+    switch (binding) {
+      case "category_gap": {
+        if (!lastMeal) return "";
+        const { label } = getCategoryConfig(lastMeal.category);
+        return `${label} at ${formatEntryTime(lastMeal)} needs ${getRecommendedGap(
+          lastMeal.category
+        )}h to digest`;
+      }
+      case "fasting_goal":
+        return `Your ${activeSession?.goalHours}h fast reaches its goal`;
+      case "eating_window":
+        if (isFastDay) {
+          return `Fast day: the next meal waits for your ${fastingHours}h overnight fast`;
+        }
+        return `Eating window ${
+          windowClosesAt !== undefined && windowClosesAt <= now
+            ? "closed"
+            : "closes"
+        } at ${
+          windowClosesAt !== undefined
+            ? formatEntryTime({ timestamp: windowClosesAt })
+            : "--"
+        }, so wait for your ${fastingHours}h overnight fast`;
+    }
+  };
+
+  const constraints: { constraint: NextMealConstraint; time?: number }[] = [
+    { constraint: "category_gap", time: recommendation.gapReadyAt },
+    { constraint: "fasting_goal", time: recommendation.fastReadyAt },
+    { constraint: "eating_window", time: recommendation.windowClosesAt },
+  ];
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="defaultSemiBold">
+          🍽️{" "}
+          {isReady
+            ? "Next meal OK now"
+            : `Next meal OK at ${formatTime(recommendation.readyAt)}`}
+        </ThemedText>
+        {!isReady && (
+          <ThemedText style={[styles.countdown, { color: primaryColor }]}>
+            in{" "}
+            {TimeCalculationService.formatDuration(
+              recommendation.readyAt - now
+            )}
+          </ThemedText>
+        )}
+      </ThemedView>
+
+      {!isReady && (
+        <ThemedText style={[styles.reason, { color: subtleTextColor }]}>
+          {explain(recommendation)}
+        </ThemedText>
+      )}
+
+      <ThemedView style={styles.constraints}>
+        {constraints
+          .filter(({ time }) => time !== undefined)
+          .map(({ constraint, time }) => {
+            const isBinding = constraint === recommendation.binding;
+            // The window is met while it is still open; the others once passed
+            const isMet =
+              constraint === "eating_window" ? time! > now : time! <= now;
+            return (
+              <ThemedView key={constraint} style={styles.constraintRow}>
+                <ThemedText
+                  style={[
+                    styles.constraintText,
+                    { color: subtleTextColor },
+                    isBinding && !isReady && styles.bindingText,
+                  ]}
+                >
+                  {isMet ? "✓" : "•"} {CONSTRAINT_LABELS[constraint]}
+                </ThemedText>
+                <ThemedText
+                  style={[
+                    styles.constraintText,
+                    { color: subtleTextColor },
+                    isBinding && !isReady && styles.bindingText,
+                  ]}
+                >
+                  {constraint === "eating_window"
+                    ? `${time! > now ? "closes" : "closed"} ${formatTime(time!)}`
+                    : formatTime(time!)}
+                </ThemedText>
+              </ThemedView>
+            );
+          })}
+      </ThemedView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: Spacing.sm,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+    gap: 4,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "transparent",
+  },
+  countdown: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  reason: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  constraints: {
+    gap: 2,
+    backgroundColor: "transparent",
+  },
+  constraintRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    backgroundColor: "transparent",
+  },
+  constraintText: {
+    fontSize: 12,
+  },
+  bindingText: {
+    fontWeight: "700",
+  },
+});
@@ -5,6 +5,7 @@ import { ThemedView } from "@/components/ThemedView";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { TimeGap as TimeGapType } from "@/types";
 import { GlobalStyles, Spacing, BorderRadius } from "@/styles/globals";
+import { getGapThreshold } from "@/constants/Gaps";
 
 interface TimeGapProps {
   gap: TimeGapType;
@@ -27,38 +28,7 @@ export function TimeGap({ gap, isLast = false }: TimeGapProps) {
     "text"
   );
 
-  const getGapColor = (durationMs: number) => {
-    const hours = durationMs / (1000 * 60 * 60);
-
-    if (hours < 2) {
-      return "#FF6B6B"; // Red for short gaps
-    } else if (hours < 4) {
-      return "#FFB74D"; // Orange for moderate gaps
-    } else if (hours < 8) {
-      return "#81C784"; // Green for good gaps
-    } else {
-      return "#4FC3F7"; // Blue for long gaps/fasting
-    }
-  };
-
-  const getGapLabel = (durationMs: number) => {
-    const hours = durationMs / (1000 * 60 * 60);
-
-    if (hours < 2) {
-      return "Short gap";
-    } else if (hours < 4) {
-      return "Moderate gap";
-    } else if (hours < 8) {
-      return "Good gap";
-    } else if (hours < 16) {
-      return "Long gap";
-    } else {
-      return "Fasting period";
-    }
-  };
-
-  const gapColor = getGapColor(gap.durationMs);
-  const gapLabel = getGapLabel(gap.durationMs);
+  const { color: gapColor, label: gapLabel } = getGapThreshold(gap.durationMs);
 
   return (
     <ThemedView style={styles.container}>
@@ -7,11 +7,17 @@ import {
 } from "react-native";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
-import { MealEntry as MealEntryType, TimeGap as TimeGapType } from "@/types";
+import {
+  DigestionPhase,
+  MealEntry as MealEntryType,
+  TimeGap as TimeGapType,
+} from "@/types";
 import { MealEntry } from "./MealEntry";
 import { EmptyTimeline } from "./EmptyTimeline";
 import { GlobalStyles, Spacing } from "@/styles/globals";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useNow } from "@/hooks/useNow";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
 import { router } from "expo-router";
 
 // Timeline item types for the FlatList
@@ -34,6 +40,7 @@ interface TimelineListProps {
   onRefresh: () => Promise<void>;
   onDeleteEntry: (id: string) => void;
   onEditEntry?: (entry: MealEntryType) => void;
+  digestionEntries?: MealEntryType[]; // Unfiltered day when entries are filtered
 }
 
 export function TimelineList({
@@ -45,12 +52,27 @@ export function TimelineList({
   onRefresh,
   onDeleteEntry,
   onEditEntry,
+  digestionEntries,
 }: TimelineListProps) {
   const timelineColor = useThemeColor(
     { light: "#E5E5E7", dark: "#38383A" },
     "text"
   );
 
+  // Digestion follows everything eaten, even entries hidden by a filter
+  const phaseEntries = digestionEntries ?? entries;
+  const digestionPhases = useMemo(() => {
+    const sortedEntries = [...phaseEntries].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    return new Map<string, DigestionPhase>(
+      TimeCalculationService.getDigestionPhases(sortedEntries).map((phase) => [
+        phase.entryId,
+        phase,
+      ])
+    );
+  }, [phaseEntries]);
+
   // Create timeline items
   const timelineItems = useMemo((): TimelineItem[] => {
     if (entries.length === 0) {
@@ -111,17 +133,18 @@ export function TimelineList({
               onEdit={handleEditEntry}
               isFirst={item.isFirst}
               isLast={item.isLast}
+              digestionPhase={digestionPhases.get(mealData.id)}
             />
           );
 
         case "now-marker":
-          return <NowMarker />;
+          return <NowMarker entries={phaseEntries} />;
 
         default:
           return null;
       }
     },
-    [onDeleteEntry, handleEditEntry]
+    [onDeleteEntry, handleEditEntry, digestionPhases, phaseEntries]
   );
 
   const renderEmpty = () => (
@@ -180,8 +203,18 @@ export function TimelineList({
   );
 }
 
-// Simple Now Marker component
-function NowMarker() {
+// Now marker with whether the gut is digesting or resting
+function NowMarker({ entries }: { entries: MealEntryType[] }) {
+  const now = useNow(60 * 1000);
+  const status = useMemo(
+    () =>
+      TimeCalculationService.getDigestionStatus(
+        [...entries].sort((a, b) => a.timestamp - b.timestamp),
+        now
+      ),
+    [entries, now]
+  );
+
   return (
     <ThemedView style={styles.nowMarkerRow}>
       {/* Time Column */}
@@ -194,9 +227,19 @@ function NowMarker() {
         <ThemedView style={styles.nowDot} />
       </ThemedView>
 
-      {/* Content Column - empty for now marker */}
+      {/* Content Column */}
       <ThemedView style={styles.nowContentColumn}>
         <ThemedView style={styles.nowLine} />
+        {status && (
+          <ThemedText
+            style={[
+              styles.nowStatus,
+              status.state === "resting" && styles.nowStatusResting,
+            ]}
+          >
+            {TimeCalculationService.formatDigestionStatus(status, now)}
+          </ThemedText>
+        )}
       </ThemedView>
     </ThemedView>
   );
@@ -292,4 +335,13 @@ const styles = StyleSheet.create({
     opacity: 0.4,
     borderRadius: 1,
   },
+  nowStatus: {
+    marginTop: Spacing.xs,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#FFB74D",
+  },
+  nowStatusResting: {
+    color: "#4FC3F7",
+  },
 });
@@ -2,3 +2,4 @@ export { TimelineList } from "./TimelineList";
 export { MealEntry } from "./MealEntry";
 export { TimeMarker } from "./TimeMarker";
 export { EmptyTimeline } from "./EmptyTimeline";
+export { NextMealCard } from "./NextMealCard";
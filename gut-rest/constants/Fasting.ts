@@ -0,0 +1,113 @@
+import { FastingProtocol, FastingProtocolId } from "../types";
+
+/**
+ * Goal choices offered when starting a fast (in hours)
+ */
+export const SESSION_GOAL_OPTIONS = [12, 14, 16, 18, 20, 24, 36, 48, 72];
+
+/**
+ * Session goal bounds (in hours); extended fasts run for days
+ */
+export const MIN_SESSION_GOAL_HOURS = 1;
+export const MAX_SESSION_GOAL_HOURS = 7 * 24;
+
+/**
+ * Hours added to a running fast's goal by the extend action
+ */
+export const EXTEND_SESSION_HOURS = 1;
+
+/**
+ * Shortest gap between fast-breaking meals that backfill turns into a session
+ */
+export const BACKFILL_MIN_FAST_HOURS = 12;
+
+/**
+ * Longest gap between days' meals read as an overnight fast; longer gaps mean
+ * days went unlogged
+ */
+export const MAX_OVERNIGHT_FAST_HOURS = 48;
+
+/**
+ * Number of past sessions shown on the fasting screen
+ */
+export const RECENT_SESSION_LIMIT = 30;
+
+/**
+ * Fast-breaking meals allowed on a 5:2 or ADF fast day - one small
+ * (~500 kcal) meal, since calories aren't tracked
+ */
+export const FAST_DAY_MAX_MEALS = 1;
+
+/**
+ * Built-in fasting protocols in display order
+ */
+export const FASTING_PROTOCOLS: FastingProtocol[] = [
+  {
+    id: "16_8",
+    label: "16:8",
+    description: "Fast 16 hours, eat within 8",
+    fastingHours: 16,
+    eatingWindowHours: 8,
+    usesFastDays: false,
+    defaultFastDays: [],
+  },
+  {
+    id: "18_6",
+    label: "18:6",
+    description: "Fast 18 hours, eat within 6",
+    fastingHours: 18,
+    eatingWindowHours: 6,
+    usesFastDays: false,
+    defaultFastDays: [],
+  },
+  {
+    id: "20_4",
+    label: "20:4",
+    description: "Fast 20 hours, eat within 4",
+    fastingHours: 20,
+    eatingWindowHours: 4,
+    usesFastDays: false,
+    defaultFastDays: [],
+  },
+  {
+    id: "omad",
+    label: "OMAD",
+    description: "One meal a day within a 1-hour window",
+    fastingHours: 23,
+    eatingWindowHours: 1,
+    usesFastDays: false,
+    defaultFastDays: [],
+  },
+  {
+    // Eating days only need a regular overnight fast
+    id: "5_2",
+    label: "5:2",
+    description: "Eat normally 5 days, one small meal on 2 fast days",
+    fastingHours: 12,
+    eatingWindowHours: 12,
+    usesFastDays: true,
+    defaultFastDays: [1, 4],
+  },
+  {
+    id: "adf",
+    label: "ADF",
+    description: "Alternate eating days with one-small-meal fast days",
+    fastingHours: 12,
+    eatingWindowHours: 12,
+    usesFastDays: true,
+    defaultFastDays: [1, 3, 5],
+  },
+];
+
+/**
+ * Short weekday names, indexed like Date.getDay()
+ */
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Look up a built-in protocol by id
+ */
+export const getFastingProtocol = (
+  id: FastingProtocolId
+): FastingProtocol | undefined =>
+  FASTING_PROTOCOLS.find((protocol) => protocol.id === id);
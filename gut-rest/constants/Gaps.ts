@@ -0,0 +1,78 @@
+/**
+ * How a gap between entries is rated, from shortest to longest
+ */
+export interface GapThreshold {
+  label: string;
+  shortLabel: string; // Fits under a histogram bar
+  minHours: number;
+  maxHours: number | null; // Exclusive; null for the open-ended last band
+  color: string;
+}
+
+export const GAP_THRESHOLDS: GapThreshold[] = [
+  {
+    label: "Short gap",
+    shortLabel: "<2h",
+    minHours: 0,
+    maxHours: 2,
+    color: "#FF6B6B", // Red for short gaps
+  },
+  {
+    label: "Moderate gap",
+    shortLabel: "2-4h",
+    minHours: 2,
+    maxHours: 4,
+    color: "#FFB74D", // Orange for moderate gaps
+  },
+  {
+    label: "Good gap",
+    shortLabel: "4-8h",
+    minHours: 4,
+    maxHours: 8,
+    color: "#81C784", // Green for good gaps
+  },
+  {
+    label: "Long gap",
+    shortLabel: "8-16h",
+    minHours: 8,
+    maxHours: 16,
+    color: "#4FC3F7", // Blue for long gaps/fasting
+  },
+  {
+    label: "Fasting period",
+    shortLabel: "16h+",
+    minHours: 16,
+    maxHours: null,
+    color: "#4FC3F7",
+  },
+];
+
+/**
+ * Find the band a gap falls into
+ */
+export const getGapThreshold = (durationMs: number): GapThreshold => {
+  const hours = durationMs / (1000 * 60 * 60);
+  return (
+    GAP_THRESHOLDS.find(
+      ({ maxHours }) => maxHours !== null && hours < maxHours
+    ) ?? GAP_THRESHOLDS[GAP_THRESHOLDS.length - 1]
+  );
+};
+
+/**
+ * Gut rest score split: the overnight fast earns up to this many points and
+ * gaps during the day earn the rest
+ */
+export const GUT_REST_OVERNIGHT_POINTS = 30;
+
+/**
+ * Color for a gut rest score, matching the gap rating colors
+ */
+export const getGutRestScoreColor = (score: number): string => {
+  if (score >= 80) {
+    return "#81C784";
+  } else if (score >= 50) {
+    return "#FFB74D";
+  }
+  return "#FF6B6B";
+};
@@ -0,0 +1,41 @@
+import { InsightsRange, InsightsRangePreset } from "../types";
+import {
+  getDateStringWithOffset,
+  getTodayDateString,
+} from "../services/dateUtils";
+
+/**
+ * Fixed-length periods offered by the insights range selector
+ */
+export const INSIGHTS_RANGE_PRESETS: {
+  preset: Exclude<InsightsRangePreset, "custom">;
+  label: string;
+  days: number;
+}[] = [
+  { preset: "7d", label: "7D", days: 7 },
+  { preset: "30d", label: "30D", days: 30 },
+  { preset: "90d", label: "90D", days: 90 },
+];
+
+/**
+ * Longest custom period, so the comparison stays quick to load
+ */
+export const MAX_CUSTOM_INSIGHTS_DAYS = 365;
+
+/**
+ * Range covering the last `days` days, today included
+ */
+export const getPresetInsightsRange = (
+  preset: Exclude<InsightsRangePreset, "custom">
+): InsightsRange => {
+  const { days } = INSIGHTS_RANGE_PRESETS.find(
+    (option) => option.preset === preset
+  )!;
+  const endDate = getTodayDateString();
+
+  return {
+    preset,
+    startDate: getDateStringWithOffset(endDate, -(days - 1)),
+    endDate,
+  };
+};
@@ -1,9 +1,16 @@
-import { MealCategory, CategoryConfig, MealThemeColors } from "../types";
+import {
+  MealCategory,
+  BuiltInMealCategory,
+  CategoryConfig,
+  CategoryDefinition,
+  MealThemeColors,
+} from "../types";
 
 /**
- * Meal category configurations with icons, colors, and display order
+ * Built-in meal category configurations with icons, colors, and display order
+ * These seed the categories table; read categories through the helpers below
  */
-export const MEAL_CATEGORIES: Record<MealCategory, CategoryConfig> = {
+export const MEAL_CATEGORIES: Record<BuiltInMealCategory, CategoryConfig> = {
   water: {
     id: "water",
     icon: "💧",
@@ -82,15 +89,17 @@ export const MEAL_COLORS: MealThemeColors = {
 /**
  * Get categories sorted by display order
  */
-export const getSortedCategories = (): CategoryConfig[] => {
-  return Object.values(MEAL_CATEGORIES).sort((a, b) => a.order - b.order);
+export const getSortedCategories = (): CategoryDefinition[] => {
+  return getCategoryDefinitions();
 };
 
 /**
  * Get category config by ID
  */
-export const getCategoryConfig = (categoryId: MealCategory): CategoryConfig => {
-  return MEAL_CATEGORIES[categoryId];
+export const getCategoryConfig = (
+  categoryId: MealCategory
+): CategoryDefinition => {
+  return getCategoryDefinition(categoryId);
 };
 
 /**
@@ -100,37 +109,39 @@ export const getCategoryColor = (
   categoryId: MealCategory,
   theme: "light" | "dark" = "light"
 ): string => {
-  return MEAL_COLORS[theme][categoryId];
+  const definition = getCategoryDefinition(categoryId);
+  return theme === "dark" ? definition.darkColor : definition.color;
 };
 
 /**
  * Get category label
  */
 export const getCategoryLabel = (categoryId: MealCategory): string => {
-  return MEAL_CATEGORIES[categoryId].label;
+  return getCategoryDefinition(categoryId).label;
 };
 
 /**
  * Get category icon
  */
 export const getCategoryIcon = (categoryId: MealCategory): string => {
-  return MEAL_CATEGORIES[categoryId].icon;
+  return getCategoryDefinition(categoryId).icon;
 };
 
 /**
- * Check if category ID is valid
+ * Check if category ID belongs to an active (non-archived) category
  */
 export const isValidCategory = (
   categoryId: string
 ): categoryId is MealCategory => {
-  return categoryId in MEAL_CATEGORIES;
+  const definition = categoryRegistry.get(categoryId);
+  return !!definition && !definition.archivedAt;
 };
 
 /**
- * Get all category IDs
+ * Get all active category IDs
  */
 export const getAllCategoryIds = (): MealCategory[] => {
-  return Object.keys(MEAL_CATEGORIES) as MealCategory[];
+  return getCategoryDefinitions().map((category) => category.id);
 };
 
 /**
@@ -153,13 +164,18 @@ export const getCategoryGroup = (
       return groupName as "liquids" | "light" | "substantial";
     }
   }
-  return null;
+  // Custom categories are grouped by how heavy they are
+  if (isBuiltInCategory(categoryId)) return null;
+  const weight = getCategoryWeight(categoryId);
+  if (weight <= 0.2) return "liquids";
+  if (weight <= 0.5) return "light";
+  return "substantial";
 };
 
 /**
  * Alternative icon sets for customization
  */
-export const ALTERNATIVE_ICONS: Record<MealCategory, string[]> = {
+export const ALTERNATIVE_ICONS: Record<BuiltInMealCategory, string[]> = {
   water: ["💧", "🥤", "🚰", "💦"],
   fruit: ["🍎", "🍌", "🍊", "🥝", "🍓", "🍇"],
   light_meal: ["🥗", "🥙", "🍞", "🥪"],
@@ -173,14 +189,18 @@ export const ALTERNATIVE_ICONS: Record<MealCategory, string[]> = {
  * Get alternative icons for a category
  */
 export const getAlternativeIcons = (categoryId: MealCategory): string[] => {
-  return ALTERNATIVE_ICONS[categoryId];
+  if (isBuiltInCategory(categoryId)) {
+    return ALTERNATIVE_ICONS[categoryId];
+  }
+  // Custom categories can pick from every built-in icon set
+  return Array.from(new Set(Object.values(ALTERNATIVE_ICONS).flat()));
 };
 
 /**
  * Category intensity/weight for calculations
  * Used for determining meal "heaviness" in analytics
  */
-export const CATEGORY_WEIGHTS: Record<MealCategory, number> = {
+export const CATEGORY_WEIGHTS: Record<BuiltInMealCategory, number> = {
   water: 0.1,
   drink: 0.2,
   fruit: 0.3,
@@ -194,13 +214,13 @@ export const CATEGORY_WEIGHTS: Record<MealCategory, number> = {
  * Get category weight
  */
 export const getCategoryWeight = (categoryId: MealCategory): number => {
-  return CATEGORY_WEIGHTS[categoryId];
+  return getCategoryDefinition(categoryId).weight;
 };
 
 /**
  * Recommended gaps after each category type (in hours)
  */
-export const RECOMMENDED_GAPS: Record<MealCategory, number> = {
+export const RECOMMENDED_GAPS: Record<BuiltInMealCategory, number> = {
   water: 0.5, // 30 minutes
   drink: 1.0, // 1 hour
   fruit: 2.0, // 2 hours
@@ -214,13 +234,13 @@ export const RECOMMENDED_GAPS: Record<MealCategory, number> = {
  * Get recommended gap after category
  */
 export const getRecommendedGap = (categoryId: MealCategory): number => {
-  return RECOMMENDED_GAPS[categoryId];
+  return getCategoryDefinition(categoryId).recommendedGapHours;
 };
 
 /**
  * Category descriptions for user guidance
  */
-export const CATEGORY_DESCRIPTIONS: Record<MealCategory, string> = {
+export const CATEGORY_DESCRIPTIONS: Record<BuiltInMealCategory, string> = {
   water: "Plain water, hydration",
   fruit: "Fresh fruits, natural sugars",
   light_meal: "Salads, light snacks, vegetables",
@@ -234,14 +254,14 @@ export const CATEGORY_DESCRIPTIONS: Record<MealCategory, string> = {
  * Get category description
  */
 export const getCategoryDescription = (categoryId: MealCategory): string => {
-  return CATEGORY_DESCRIPTIONS[categoryId];
+  return isBuiltInCategory(categoryId) ? CATEGORY_DESCRIPTIONS[categoryId] : "";
 };
 
 /**
  * Categories that should be considered as "breaking fast"
  * Water typically doesn't break intermittent fasting
  */
-export const FASTING_BREAKING_CATEGORIES: Set<MealCategory> = new Set([
+export const FASTING_BREAKING_CATEGORIES: Set<BuiltInMealCategory> = new Set([
   "fruit",
   "light_meal",
   "medium_meal",
@@ -254,7 +274,103 @@ export const FASTING_BREAKING_CATEGORIES: Set<MealCategory> = new Set([
  * Check if category breaks fasting
  */
 export const doesCategoryBreakFasting = (categoryId: MealCategory): boolean => {
-  return FASTING_BREAKING_CATEGORIES.has(categoryId);
+  return getCategoryDefinition(categoryId).breaksFast;
+};
+
+/**
+ * Build the built-in category definitions from the constants above
+ * Used to seed the categories table and before it has been loaded
+ */
+export const getBuiltInCategoryDefinitions = (): CategoryDefinition[] => {
+  return (Object.keys(MEAL_CATEGORIES) as BuiltInMealCategory[])
+    .map((id) => ({
+      ...MEAL_CATEGORIES[id],
+      color: MEAL_COLORS.light[id],
+      darkColor: MEAL_COLORS.dark[id],
+      weight: CATEGORY_WEIGHTS[id],
+      recommendedGapHours: RECOMMENDED_GAPS[id],
+      breaksFast: FASTING_BREAKING_CATEGORIES.has(id),
+      isBuiltIn: true,
+    }))
+    .sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Color choices offered when creating or recoloring a category
+ */
+export const CATEGORY_COLOR_OPTIONS = [
+  "#4FC3F7",
+  "#81C784",
+  "#AED581",
+  "#FFB74D",
+  "#FF8A65",
+  "#F06292",
+  "#BA68C8",
+  "#7986CB",
+  "#4DB6AC",
+  "#A1887F",
+  "#90A4AE",
+  "#FFD54F",
+];
+
+/**
+ * In-memory category registry, loaded from the categories table by the
+ * database service so the synchronous helpers above reflect user edits
+ */
+let categoryRegistry = new Map<string, CategoryDefinition>(
+  getBuiltInCategoryDefinitions().map((category) => [category.id, category])
+);
+
+/**
+ * Replace the registry with categories loaded from the database
+ */
+export const setCategoryRegistry = (categories: CategoryDefinition[]): void => {
+  categoryRegistry = new Map(
+    categories.map((category) => [category.id, category])
+  );
+};
+
+/**
+ * Get category definitions sorted by display order
+ */
+export const getCategoryDefinitions = (
+  includeArchived: boolean = false
+): CategoryDefinition[] => {
+  return Array.from(categoryRegistry.values())
+    .filter((category) => includeArchived || !category.archivedAt)
+    .sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Get a category definition by ID, including archived categories
+ * Unknown IDs get a neutral placeholder so old entries still render
+ */
+export const getCategoryDefinition = (
+  categoryId: MealCategory
+): CategoryDefinition => {
+  return (
+    categoryRegistry.get(categoryId) ?? {
+      id: categoryId,
+      icon: "🍽️",
+      label: categoryId.replace(/_/g, " "),
+      color: "#90A4AE",
+      darkColor: "#607D8B",
+      order: Number.MAX_SAFE_INTEGER,
+      weight: 0.5,
+      recommendedGapHours: 3,
+      breaksFast: true,
+      isBuiltIn: false,
+    }
+  );
+};
+
+/**
+ * Check whether a category ships with the app
+ */
+export const isBuiltInCategory = (
+  categoryId: MealCategory
+): categoryId is BuiltInMealCategory => {
+  return categoryId in MEAL_CATEGORIES;
 };
 
 /**
@@ -281,4 +397,9 @@ export default {
   getRecommendedGap,
   getCategoryDescription,
   doesCategoryBreakFasting,
+  getBuiltInCategoryDefinitions,
+  setCategoryRegistry,
+  getCategoryDefinitions,
+  getCategoryDefinition,
+  isBuiltInCategory,
 };
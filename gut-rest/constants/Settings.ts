@@ -0,0 +1,112 @@
+import { AppSettings, NotificationPreferences, ReminderKind } from "../types";
+
+/**
+ * Fasting goal bounds (in hours)
+ */
+export const MIN_FASTING_GOAL_HOURS = 8;
+export const MAX_FASTING_GOAL_HOURS = 24;
+
+/**
+ * Fasting goal used until the user picks one
+ */
+export const DEFAULT_FASTING_GOAL_HOURS = 16;
+
+/**
+ * Hour a day begins at unless the user changes it (midnight)
+ */
+export const DEFAULT_DAY_START_HOUR = 0;
+
+/**
+ * Streak grace rule: missed days allowed per rolling period
+ */
+export const STREAK_GRACE_OPTIONS = [0, 1, 2];
+export const STREAK_GRACE_PERIOD_DAYS = 7;
+export const DEFAULT_STREAK_GRACE_DAYS = 1;
+
+/**
+ * Quick-add template and recent entry limits
+ */
+export const MAX_TEMPLATE_NAME_LENGTH = 40;
+export const RECENT_ENTRIES_COUNT = 5;
+export const RECENT_ENTRIES_DAYS = 14;
+
+/**
+ * Reminder choices in display order
+ */
+export const REMINDER_OPTIONS: {
+  kind: ReminderKind;
+  label: string;
+  description: string;
+}[] = [
+  {
+    kind: "fasting_goal",
+    label: "Fasting goal reached",
+    description: "When a fast you started hits its goal",
+  },
+  {
+    kind: "meal_gap",
+    label: "Digestion gap over",
+    description: "When the recommended gap after a substantial meal has passed",
+  },
+  {
+    kind: "eating_window",
+    label: "Eating window closing",
+    description: "Shortly before today's eating window closes",
+  },
+  {
+    kind: "logging",
+    label: "Logging reminder",
+    description: "When nothing has been logged for a while",
+  },
+];
+
+/**
+ * Minutes of warning before the eating window closes
+ */
+export const EATING_WINDOW_WARNING_MINUTES = 30;
+
+/**
+ * Hours without an entry before a logging reminder
+ */
+export const LOGGING_REMINDER_HOURS_OPTIONS = [4, 6, 8];
+
+/**
+ * Every reminder off until the user picks it, quiet overnight
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  reminders: {
+    fasting_goal: false,
+    meal_gap: false,
+    eating_window: false,
+    logging: false,
+  },
+  quietHoursEnabled: true,
+  quietHoursStart: 22,
+  quietHoursEnd: 7,
+  loggingReminderHours: 6,
+};
+
+/**
+ * Default app settings
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  theme: "system",
+  notifications: false,
+  notificationPreferences: DEFAULT_NOTIFICATION_PREFERENCES,
+  defaultMealCategory: "medium_meal",
+  fastingGoalHours: DEFAULT_FASTING_GOAL_HOURS,
+  dayStartHour: DEFAULT_DAY_START_HOUR,
+  streakGraceDays: DEFAULT_STREAK_GRACE_DAYS,
+  trashRetentionDays: 30,
+  firstLaunch: true,
+  onboardingCompleted: false,
+};
+
+/**
+ * Theme choices in display order
+ */
+export const THEME_OPTIONS: { value: AppSettings["theme"]; label: string }[] = [
+  { value: "system", label: "System" },
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+];
@@ -0,0 +1,219 @@
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useCallback,
+  useEffect,
+} from "react";
+import { CategoryDefinition, CategoryInput, MealCategory } from "@/types";
+import { databaseService } from "@/services/database";
+import {
+  getCategoryDefinition,
+  getCategoryDefinitions,
+} from "@/constants/MealCategories";
+import { useMealData } from "@/contexts/MealDataContext";
+
+interface CategoriesState {
+  categories: CategoryDefinition[]; // All categories in display order, archived included
+  isLoading: boolean;
+  error: string | null;
+}
+
+type CategoriesAction =
+  | { type: "SET_LOADING"; payload: boolean }
+  | { type: "SET_ERROR"; payload: string | null }
+  | { type: "SET_CATEGORIES"; payload: CategoryDefinition[] };
+
+const initialState: CategoriesState = {
+  categories: getCategoryDefinitions(true), // Built-in defaults until loaded
+  isLoading: false,
+  error: null,
+};
+
+function categoriesReducer(
+  state: CategoriesState,
+  action: CategoriesAction
+): CategoriesState {
+  switch (action.type) {
+    case "SET_LOADING":
+      return { ...state, isLoading: action.payload };
+    case "SET_ERROR":
+      return { ...state, error: action.payload };
+    case "SET_CATEGORIES":
+      return { ...state, categories: action.payload };
+    default:
+      return state;
+  }
+}
+
+interface CategoriesContextType {
+  // State
+  categories: CategoryDefinition[];
+  activeCategories: CategoryDefinition[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  getCategory: (id: MealCategory) => CategoryDefinition;
+  addCategory: (input: CategoryInput) => Promise<CategoryDefinition>;
+  updateCategory: (
+    id: string,
+    updates: Partial<CategoryInput>
+  ) => Promise<void>;
+  archiveCategory: (id: string) => Promise<void>;
+  unarchiveCategory: (id: string) => Promise<void>;
+  reorderCategories: (orderedIds: string[]) => Promise<void>;
+
+  // Utility
+  refreshCategories: () => Promise<void>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(
+  undefined
+);
+
+export function CategoriesProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [state, dispatch] = useReducer(categoriesReducer, initialState);
+  const { refreshData } = useMealData();
+
+  const refreshCategories = useCallback(async () => {
+    try {
+      dispatch({ type: "SET_LOADING", payload: true });
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      // Initialize database if not already done
+      await databaseService.initialize();
+
+      const categories = await databaseService.getCategories();
+      dispatch({ type: "SET_CATEGORIES", payload: categories });
+    } catch (error) {
+      console.error("Failed to load categories:", error);
+      dispatch({ type: "SET_ERROR", payload: "Failed to load categories" });
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: false });
+    }
+  }, []);
+
+  /**
+   * Run a category mutation, then reload categories and today's summary,
+   * since weights and breaks-fast flags feed the fasting calculations.
+   * Refreshing the meal data also marks past days as changed.
+   */
+  const runMutation = useCallback(
+    async <T,>(mutation: () => Promise<T>, errorMessage: string) => {
+      try {
+        dispatch({ type: "SET_ERROR", payload: null });
+        await databaseService.initialize();
+
+        const result = await mutation();
+        await refreshCategories();
+        await refreshData();
+        return result;
+      } catch (error) {
+        console.error(`${errorMessage}:`, error);
+        dispatch({ type: "SET_ERROR", payload: errorMessage });
+        throw error;
+      }
+    },
+    [refreshCategories, refreshData]
+  );
+
+  const addCategory = useCallback(
+    (input: CategoryInput) =>
+      runMutation(
+        () => databaseService.insertCategory(input),
+        "Failed to add category"
+      ),
+    [runMutation]
+  );
+
+  const updateCategory = useCallback(
+    (id: string, updates: Partial<CategoryInput>) =>
+      runMutation(
+        () => databaseService.updateCategory(id, updates),
+        "Failed to update category"
+      ),
+    [runMutation]
+  );
+
+  const archiveCategory = useCallback(
+    (id: string) =>
+      runMutation(
+        () => databaseService.setCategoryArchived(id, true),
+        "Failed to archive category"
+      ),
+    [runMutation]
+  );
+
+  const unarchiveCategory = useCallback(
+    (id: string) =>
+      runMutation(
+        () => databaseService.setCategoryArchived(id, false),
+        "Failed to restore category"
+      ),
+    [runMutation]
+  );
+
+  const reorderCategories = useCallback(
+    (orderedIds: string[]) =>
+      runMutation(
+        () => databaseService.reorderCategories(orderedIds),
+        "Failed to reorder categories"
+      ),
+    [runMutation]
+  );
+
+  // Fall back to the registry for unknown IDs so old entries still render
+  const getCategory = useCallback(
+    (id: MealCategory) =>
+      state.categories.find((category) => category.id === id) ??
+      getCategoryDefinition(id),
+    [state.categories]
+  );
+
+  // Load categories on mount
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories]);
+
+  const contextValue: CategoriesContextType = {
+    // State
+    categories: state.categories,
+    activeCategories: state.categories.filter(
+      (category) => !category.archivedAt
+    ),
+    isLoading: state.isLoading,
+    error: state.error,
+
+    // Actions
+    getCategory,
+    addCategory,
+    updateCategory,
+    archiveCategory,
+    unarchiveCategory,
+    reorderCategories,
+
+    // Utility
+    refreshCategories,
+  };
+
+  return (
+    <CategoriesContext.Provider value={contextValue}>
+      {children}
+    </CategoriesContext.Provider>
+  );
+}
+
+export function useCategories(): CategoriesContextType {
+  const context = useContext(CategoriesContext);
+  if (context === undefined) {
+    throw new Error("useCategories must be used within a CategoriesProvider");
+  }
+  return context;
+}
+
+export { CategoriesContext };
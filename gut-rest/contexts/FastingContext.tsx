@@ -0,0 +1,309 @@
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useCallback,
+  useEffect,
+} from "react";
+import {
+  FastingProtocolChange,
+  FastingProtocolId,
+  FastingSession,
+  FastingSessionUpdate,
+} from "@/types";
+import { databaseService } from "@/services/database";
+import { getTodayDateString } from "@/services/dateUtils";
+import { TimeCalculationService } from "@/services/TimeCalculationService";
+import { doesCategoryBreakFasting } from "@/constants/MealCategories";
+import {
+  BACKFILL_MIN_FAST_HOURS,
+  RECENT_SESSION_LIMIT,
+  getFastingProtocol,
+} from "@/constants/Fasting";
+import { useMealData } from "@/contexts/MealDataContext";
+import { useSettings } from "@/contexts/SettingsContext";
+
+interface FastingState {
+  activeSession: FastingSession | null;
+  sessions: FastingSession[]; // Most recent first, the active one included
+  protocolHistory: FastingProtocolChange[]; // Oldest first
+  isLoading: boolean;
+  error: string | null;
+}
+
+type FastingAction =
+  | { type: "SET_LOADING"; payload: boolean }
+  | { type: "SET_ERROR"; payload: string | null }
+  | {
+      type: "SET_SESSIONS";
+      payload: { active: FastingSession | null; sessions: FastingSession[] };
+    }
+  | { type: "SET_PROTOCOL_HISTORY"; payload: FastingProtocolChange[] };
+
+const initialState: FastingState = {
+  activeSession: null,
+  sessions: [],
+  protocolHistory: [],
+  isLoading: false,
+  error: null,
+};
+
+function fastingReducer(
+  state: FastingState,
+  action: FastingAction
+): FastingState {
+  switch (action.type) {
+    case "SET_LOADING":
+      return { ...state, isLoading: action.payload };
+    case "SET_ERROR":
+      return { ...state, error: action.payload };
+    case "SET_SESSIONS":
+      return {
+        ...state,
+        activeSession: action.payload.active,
+        sessions: action.payload.sessions,
+      };
+    case "SET_PROTOCOL_HISTORY":
+      return { ...state, protocolHistory: action.payload };
+    default:
+      return state;
+  }
+}
+
+interface FastingContextType {
+  // State
+  activeSession: FastingSession | null;
+  sessions: FastingSession[];
+  protocolHistory: FastingProtocolChange[];
+  currentProtocol: FastingProtocolChange | null; // Choice in force today
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  startFast: (goalHours: number, startTime?: number) => Promise<void>;
+  endFast: (endTime?: number) => Promise<void>;
+  extendFast: (hours: number) => Promise<void>;
+  updateSession: (id: string, updates: FastingSessionUpdate) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+  backfillSessions: () => Promise<number>;
+  setProtocol: (
+    protocolId: FastingProtocolId | null,
+    fastDays: number[]
+  ) => Promise<void>;
+
+  // Utility
+  refreshSessions: () => Promise<void>;
+}
+
+const FastingContext = createContext<FastingContextType | undefined>(undefined);
+
+export function FastingProvider({ children }: { children: React.ReactNode }) {
+  const [state, dispatch] = useReducer(fastingReducer, initialState);
+  const { todayEntries, refreshData } = useMealData();
+  const {
+    settings: { fastingGoalHours },
+    updateSettings,
+  } = useSettings();
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      dispatch({ type: "SET_LOADING", payload: true });
+      dispatch({ type: "SET_ERROR", payload: null });
+
+      // Initialize database if not already done
+      await databaseService.initialize();
+
+      const [active, sessions, protocolHistory] = await Promise.all([
+        databaseService.getActiveFastingSession(),
+        databaseService.getFastingSessions(RECENT_SESSION_LIMIT),
+        databaseService.getFastingProtocolHistory(),
+      ]);
+      dispatch({ type: "SET_SESSIONS", payload: { active, sessions } });
+      dispatch({ type: "SET_PROTOCOL_HISTORY", payload: protocolHistory });
+    } catch (error) {
+      console.error("Failed to load fasting sessions:", error);
+      dispatch({ type: "SET_ERROR", payload: "Failed to load your fasts" });
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: false });
+    }
+  }, []);
+
+  /**
+   * Run a session mutation, then reload the sessions
+   */
+  const runMutation = useCallback(
+    async <T,>(mutation: () => Promise<T>, errorMessage: string) => {
+      try {
+        dispatch({ type: "SET_ERROR", payload: null });
+        await databaseService.initialize();
+
+        const result = await mutation();
+        await refreshSessions();
+        return result;
+      } catch (error) {
+        console.error(`${errorMessage}:`, error);
+        dispatch({ type: "SET_ERROR", payload: errorMessage });
+        throw error;
+      }
+    },
+    [refreshSessions]
+  );
+
+  const startFast = useCallback(
+    async (goalHours: number, startTime?: number) => {
+      await runMutation(
+        () => databaseService.startFastingSession(goalHours, startTime),
+        "Failed to start the fast"
+      );
+    },
+    [runMutation]
+  );
+
+  const endFast = useCallback(
+    async (endTime: number = Date.now()) => {
+      const session = state.activeSession;
+      if (!session) return;
+
+      await runMutation(
+        () => databaseService.updateFastingSession(session.id, { endTime }),
+        "Failed to end the fast"
+      );
+    },
+    [state.activeSession, runMutation]
+  );
+
+  const extendFast = useCallback(
+    async (hours: number) => {
+      const session = state.activeSession;
+      if (!session) return;
+
+      await runMutation(
+        () =>
+          databaseService.updateFastingSession(session.id, {
+            goalHours: session.goalHours + hours,
+          }),
+        "Failed to extend the fast"
+      );
+    },
+    [state.activeSession, runMutation]
+  );
+
+  const updateSession = useCallback(
+    async (id: string, updates: FastingSessionUpdate) => {
+      await runMutation(
+        () => databaseService.updateFastingSession(id, updates),
+        "Failed to update the fast"
+      );
+    },
+    [runMutation]
+  );
+
+  const deleteSession = useCallback(
+    (id: string) =>
+      runMutation(
+        () => databaseService.deleteFastingSession(id),
+        "Failed to delete the fast"
+      ),
+    [runMutation]
+  );
+
+  const backfillSessions = useCallback(
+    () =>
+      runMutation(
+        () =>
+          databaseService.backfillFastingSessions(
+            BACKFILL_MIN_FAST_HOURS,
+            fastingGoalHours
+          ),
+        "Failed to create fasts from your meal history"
+      ),
+    [runMutation, fastingGoalHours]
+  );
+
+  const setProtocol = useCallback(
+    async (protocolId: FastingProtocolId | null, fastDays: number[]) => {
+      await runMutation(
+        () =>
+          databaseService.setFastingProtocol(
+            protocolId,
+            fastDays,
+            getTodayDateString()
+          ),
+        "Failed to change your fasting protocol"
+      );
+
+      // New fasts default to the protocol's target
+      const protocol = protocolId && getFastingProtocol(protocolId);
+      if (protocol) {
+        await updateSettings({ fastingGoalHours: protocol.fastingHours });
+      }
+
+      // Regrade today against the new protocol
+      await refreshData();
+    },
+    [runMutation, updateSettings, refreshData]
+  );
+
+  // Logging a fast-breaking meal after the fast started ends it at that meal
+  useEffect(() => {
+    const session = state.activeSession;
+    if (!session) return;
+
+    const breakingMeal = todayEntries.find(
+      (entry) =>
+        entry.timestamp > session.startTime &&
+        doesCategoryBreakFasting(entry.category)
+    );
+    if (breakingMeal) {
+      endFast(breakingMeal.timestamp).catch(() => {
+        // Already reported through the error state
+      });
+    }
+  }, [todayEntries, state.activeSession, endFast]);
+
+  // Load sessions on mount
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const contextValue: FastingContextType = {
+    // State
+    activeSession: state.activeSession,
+    sessions: state.sessions,
+    protocolHistory: state.protocolHistory,
+    currentProtocol: TimeCalculationService.getProtocolChangeForDate(
+      state.protocolHistory,
+      getTodayDateString()
+    ),
+    isLoading: state.isLoading,
+    error: state.error,
+
+    // Actions
+    startFast,
+    endFast,
+    extendFast,
+    updateSession,
+    deleteSession,
+    backfillSessions,
+    setProtocol,
+
+    // Utility
+    refreshSessions,
+  };
+
+  return (
+    <FastingContext.Provider value={contextValue}>
+      {children}
+    </FastingContext.Provider>
+  );
+}
+
+export function useFasting(): FastingContextType {
+  const context = useContext(FastingContext);
+  if (context === undefined) {
+    throw new Error("useFasting must be used within a FastingProvider");
+  }
+  return context;
+}
+
+export { FastingContext };
@@ -5,15 +5,32 @@ import React, {
   useCallback,
   useEffect,
 } from "react";
-import { MealEntry, DailySummary, MealCategory } from "@/types";
+import {
+  MealEntry,
+  DailySummary,
+  MealCategory,
+  EntryRevision,
+  Tag,
+} from "@/types";
 import { databaseService } from "@/services/database";
-import { getTodayDateString } from "@/services/dateUtils";
+import { storageService } from "@/services/storage";
+import { useSettings } from "@/contexts/SettingsContext";
+import {
+  getDateStringFromTimestamp,
+  getEntryDateString,
+  getTodayDateString,
+} from "@/services/dateUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 interface MealDataState {
   todayEntries: MealEntry[];
   todaySummary: DailySummary | null;
+  lastDeletedEntry: MealEntry | null;
   isLoading: boolean;
   error: string | null;
+  dataVersion: number;
+  pastDataVersion: number;
 }
 
 type MealDataAction =
@@ -21,15 +38,20 @@ type MealDataAction =
   | { type: "SET_ERROR"; payload: string | null }
   | { type: "SET_TODAY_ENTRIES"; payload: MealEntry[] }
   | { type: "SET_TODAY_SUMMARY"; payload: DailySummary | null }
+  | { type: "MARK_CHANGED"; payload: { includesPastDays: boolean } }
   | { type: "ADD_ENTRY"; payload: MealEntry }
   | { type: "UPDATE_ENTRY"; payload: { id: string; entry: MealEntry } }
-  | { type: "DELETE_ENTRY"; payload: string };
+  | { type: "DELETE_ENTRY"; payload: string }
+  | { type: "SET_LAST_DELETED"; payload: MealEntry | null };
 
 const initialState: MealDataState = {
   todayEntries: [],
   todaySummary: null,
+  lastDeletedEntry: null,
   isLoading: false,
   error: null,
+  dataVersion: 0,
+  pastDataVersion: 0,
 };
 
 function mealDataReducer(
@@ -45,6 +67,14 @@ function mealDataReducer(
       return { ...state, todayEntries: action.payload };
     case "SET_TODAY_SUMMARY":
       return { ...state, todaySummary: action.payload };
+    case "MARK_CHANGED":
+      return {
+        ...state,
+        dataVersion: state.dataVersion + 1,
+        pastDataVersion: action.payload.includesPastDays
+          ? state.pastDataVersion + 1
+          : state.pastDataVersion,
+      };
     case "ADD_ENTRY":
       return {
         ...state,
@@ -66,6 +96,8 @@ function mealDataReducer(
           (entry) => entry.id !== action.payload
         ),
       };
+    case "SET_LAST_DELETED":
+      return { ...state, lastDeletedEntry: action.payload };
     default:
       return state;
   }
@@ -75,18 +107,27 @@ interface MealDataContextType {
   // State
   todayEntries: MealEntry[];
   todaySummary: DailySummary | null;
+  lastDeletedEntry: MealEntry | null;
   isLoading: boolean;
   error: string | null;
+  dataVersion: number; // Bumped by every add, edit, delete, restore and refresh
+  pastDataVersion: number; // Bumped only when days before today may have changed
 
   // Actions
   addMealEntry: (
     category: MealCategory,
     timestamp?: number,
-    notes?: string
+    notes?: string,
+    tags?: string[]
   ) => Promise<{ success: boolean; mealEntry: MealEntry; isToday: boolean }>;
   updateMealEntry: (id: string, updates: Partial<MealEntry>) => Promise<void>;
   deleteMealEntry: (id: string) => Promise<void>;
+  restoreMealEntry: (id: string) => Promise<void>;
+  undoDelete: () => Promise<void>;
+  dismissUndo: () => void;
   getMealEntryById: (id: string) => Promise<MealEntry | null>;
+  getEntryRevisions: (id: string) => Promise<EntryRevision[]>;
+  getTags: () => Promise<Tag[]>;
 
   // Utility
   refreshData: () => Promise<void>;
@@ -99,6 +140,10 @@ const MealDataContext = createContext<MealDataContextType | undefined>(
 
 export function MealDataProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(mealDataReducer, initialState);
+  const {
+    settings: { fastingGoalHours, dayStartHour },
+    isLoading: settingsLoading,
+  } = useSettings();
 
   const getTodayLocalDateString = useCallback(() => {
     return getTodayDateString(); // Use local time instead of UTC
@@ -114,7 +159,10 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
 
       const todayDate = getTodayLocalDateString();
       const entries = await databaseService.getMealEntriesByDate(todayDate);
-      const summary = await databaseService.getDailySummary(todayDate);
+      const summary = await databaseService.getDailySummary(
+        todayDate,
+        fastingGoalHours
+      );
 
       dispatch({ type: "SET_TODAY_ENTRIES", payload: entries });
       dispatch({ type: "SET_TODAY_SUMMARY", payload: summary });
@@ -124,10 +172,15 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
     } finally {
       dispatch({ type: "SET_LOADING", payload: false });
     }
-  }, [getTodayLocalDateString]);
+  }, [getTodayLocalDateString, fastingGoalHours]);
 
   const addMealEntry = useCallback(
-    async (category: MealCategory, timestamp?: number, notes?: string) => {
+    async (
+      category: MealCategory,
+      timestamp?: number,
+      notes?: string,
+      tags?: string[]
+    ) => {
       try {
         dispatch({ type: "SET_ERROR", payload: null });
 
@@ -136,23 +189,24 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
 
         const now = timestamp || Date.now();
 
-        // Check if entry is for today using timestamps only
-        const todayStart = new Date();
-        todayStart.setHours(0, 0, 0, 0);
-        const todayEnd = new Date();
-        todayEnd.setHours(23, 59, 59, 999);
+        // Check if entry is for today, honoring the day start hour
         const isToday =
-          now >= todayStart.getTime() && now <= todayEnd.getTime();
+          getDateStringFromTimestamp(now) === getTodayLocalDateString();
 
         const entryData = {
           category,
           timestamp: now,
           notes,
+          tags,
           createdAt: Date.now(),
           updatedAt: Date.now(),
         };
 
         const newEntry = await databaseService.insertMealEntry(entryData);
+        dispatch({
+          type: "MARK_CHANGED",
+          payload: { includesPastDays: !isToday },
+        });
 
         // Only add to today's entries if the entry is for today
         if (isToday) {
@@ -173,7 +227,7 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
         throw error;
       }
     },
-    [loadTodayData]
+    [loadTodayData, getTodayLocalDateString]
   );
 
   const updateMealEntry = useCallback(
@@ -193,6 +247,16 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
         const existingEntry = state.todayEntries.find(
           (entry) => entry.id === id
         );
+        dispatch({
+          type: "MARK_CHANGED",
+          payload: {
+            includesPastDays:
+              !existingEntry ||
+              (updates.timestamp !== undefined &&
+                getDateStringFromTimestamp(updates.timestamp) !==
+                  getTodayLocalDateString()),
+          },
+        });
         if (existingEntry) {
           const updatedEntry = {
             ...existingEntry,
@@ -215,7 +279,7 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
         throw error;
       }
     },
-    [state.todayEntries, loadTodayData]
+    [state.todayEntries, loadTodayData, getTodayLocalDateString]
   );
 
   const deleteMealEntry = useCallback(
@@ -226,8 +290,20 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
         // Initialize database if not already done
         await databaseService.initialize();
 
+        // Keep a copy so the delete can be undone from the snackbar
+        const deletedEntry = await databaseService.getMealEntryById(id);
+
         await databaseService.deleteMealEntry(id);
+        dispatch({
+          type: "MARK_CHANGED",
+          payload: {
+            includesPastDays:
+              !deletedEntry ||
+              getEntryDateString(deletedEntry) !== getTodayLocalDateString(),
+          },
+        });
         dispatch({ type: "DELETE_ENTRY", payload: id });
+        dispatch({ type: "SET_LAST_DELETED", payload: deletedEntry });
 
         // Refresh summary to recalculate gaps
         await loadTodayData();
@@ -237,9 +313,60 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
         throw error;
       }
     },
+    [loadTodayData, getTodayLocalDateString]
+  );
+
+  const restoreMealEntry = useCallback(
+    async (id: string) => {
+      try {
+        dispatch({ type: "SET_ERROR", payload: null });
+
+        // Initialize database if not already done
+        await databaseService.initialize();
+
+        await databaseService.restoreMealEntry(id);
+        // Trashed entries can come from any day
+        dispatch({ type: "MARK_CHANGED", payload: { includesPastDays: true } });
+        dispatch({ type: "SET_LAST_DELETED", payload: null });
+
+        // Restored entry may belong to today, so recalculate gaps
+        await loadTodayData();
+      } catch (error) {
+        console.error("Failed to restore meal entry:", error);
+        dispatch({
+          type: "SET_ERROR",
+          payload: "Failed to restore meal entry",
+        });
+        throw error;
+      }
+    },
     [loadTodayData]
   );
 
+  const undoDelete = useCallback(async () => {
+    if (state.lastDeletedEntry) {
+      await restoreMealEntry(state.lastDeletedEntry.id);
+    }
+  }, [state.lastDeletedEntry, restoreMealEntry]);
+
+  const dismissUndo = useCallback(() => {
+    dispatch({ type: "SET_LAST_DELETED", payload: null });
+  }, []);
+
+  const purgeExpiredTrash = useCallback(async () => {
+    try {
+      await databaseService.initialize();
+
+      const retentionDays = await storageService.getTrashRetentionDays();
+      await databaseService.purgeDeletedEntries(
+        Date.now() - retentionDays * DAY_MS
+      );
+    } catch (error) {
+      // Purging is housekeeping only, never block the app on it
+      console.warn("Failed to purge expired trash:", error);
+    }
+  }, []);
+
   const getMealEntryById = useCallback(
     async (id: string): Promise<MealEntry | null> => {
       try {
@@ -255,33 +382,78 @@ export function MealDataProvider({ children }: { children: React.ReactNode }) {
     []
   );
 
+  const getEntryRevisions = useCallback(
+    async (id: string): Promise<EntryRevision[]> => {
+      try {
+        // Initialize database if not already done
+        await databaseService.initialize();
+        return await databaseService.getEntryRevisions(id);
+      } catch (error) {
+        console.error("Failed to get entry revisions:", error);
+        return [];
+      }
+    },
+    []
+  );
+
+  const getTags = useCallback(async (): Promise<Tag[]> => {
+    try {
+      // Initialize database if not already done
+      await databaseService.initialize();
+      return await databaseService.getTags();
+    } catch (error) {
+      console.error("Failed to get tags:", error);
+      return [];
+    }
+  }, []);
+
+  // Imports, restores and category changes refresh through here, and may
+  // touch any day
   const refreshData = useCallback(async () => {
+    dispatch({ type: "MARK_CHANGED", payload: { includesPastDays: true } });
     await loadTodayData();
   }, [loadTodayData]);
 
   const clearCache = useCallback(() => {
     dispatch({ type: "SET_TODAY_ENTRIES", payload: [] });
     dispatch({ type: "SET_TODAY_SUMMARY", payload: null });
+    dispatch({ type: "SET_LAST_DELETED", payload: null });
     dispatch({ type: "SET_ERROR", payload: null });
   }, []);
 
-  // Load today's data on mount
+  // Load today's data on mount and whenever the fasting goal or day start
+  // changes, once settings are in so the summary isn't computed against the
+  // defaults
   useEffect(() => {
+    if (settingsLoading) return;
     loadTodayData();
-  }, [loadTodayData]);
+  }, [loadTodayData, settingsLoading, dayStartHour]);
+
+  // Clear out trash entries past the retention period
+  useEffect(() => {
+    purgeExpiredTrash();
+  }, [purgeExpiredTrash]);
 
   const contextValue: MealDataContextType = {
     // State
     todayEntries: state.todayEntries,
     todaySummary: state.todaySummary,
+    lastDeletedEntry: state.lastDeletedEntry,
     isLoading: state.isLoading,
     error: state.error,
+    dataVersion: state.dataVersion,
+    pastDataVersion: state.pastDataVersion,
 
     // Actions
     addMealEntry,
     updateMealEntry,
     deleteMealEntry,
+    restoreMealEntry,
+    undoDelete,
+    dismissUndo,
     getMealEntryById,
+    getEntryRevisions,
+    getTags,
 
     // Utility
     refreshData,
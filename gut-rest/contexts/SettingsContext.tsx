@@ -0,0 +1,113 @@
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useCallback,
+  useEffect,
+} from "react";
+import { Appearance } from "react-native";
+import { AppSettings, SettingsContextType } from "@/types";
+import { storageService } from "@/services/storage";
+import { DEFAULT_SETTINGS } from "@/constants/Settings";
+import { setDayStartHour } from "@/services/dateUtils";
+
+interface SettingsState {
+  settings: AppSettings;
+  isLoading: boolean;
+}
+
+type SettingsAction =
+  | { type: "SET_LOADING"; payload: boolean }
+  | { type: "SET_SETTINGS"; payload: AppSettings };
+
+const initialState: SettingsState = {
+  settings: DEFAULT_SETTINGS, // Defaults until the stored settings load
+  isLoading: true,
+};
+
+function settingsReducer(
+  state: SettingsState,
+  action: SettingsAction
+): SettingsState {
+  switch (action.type) {
+    case "SET_LOADING":
+      return { ...state, isLoading: action.payload };
+    case "SET_SETTINGS":
+      return { ...state, settings: action.payload };
+    default:
+      return state;
+  }
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined
+);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [state, dispatch] = useReducer(settingsReducer, initialState);
+
+  // Date bucketing reads the day start from dateUtils, so it has to be set
+  // before consumers re-render, not in an effect (children's effects run first)
+  const applySettings = useCallback((settings: AppSettings) => {
+    setDayStartHour(settings.dayStartHour);
+    dispatch({ type: "SET_SETTINGS", payload: settings });
+  }, []);
+
+  const refreshSettings = useCallback(async () => {
+    try {
+      dispatch({ type: "SET_LOADING", payload: true });
+      const settings = await storageService.getAppSettings();
+      applySettings(settings);
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: false });
+    }
+  }, [applySettings]);
+
+  const updateSettings = useCallback(
+    async (updates: Partial<AppSettings>) => {
+      const settings = await storageService.updateAppSettings(updates);
+      applySettings(settings);
+    },
+    [applySettings]
+  );
+
+  const resetSettings = useCallback(async () => {
+    const settings = await storageService.resetAppSettings();
+    applySettings(settings);
+  }, [applySettings]);
+
+  // Load settings on mount
+  useEffect(() => {
+    refreshSettings();
+  }, [refreshSettings]);
+
+  // Native UI (pickers, alerts, keyboard) follows Appearance, not our hooks
+  const { theme } = state.settings;
+  useEffect(() => {
+    Appearance.setColorScheme(theme === "system" ? null : theme);
+  }, [theme]);
+
+  const contextValue: SettingsContextType = {
+    settings: state.settings,
+    updateSettings,
+    resetSettings,
+    refreshSettings,
+    isLoading: state.isLoading,
+  };
+
+  return (
+    <SettingsContext.Provider value={contextValue}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings(): SettingsContextType {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+}
+
+export { SettingsContext };
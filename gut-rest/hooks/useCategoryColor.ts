@@ -0,0 +1,14 @@
+import { useCategories } from "@/contexts/CategoriesContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { MealCategory } from "@/types";
+
+/**
+ * Category color for the active theme
+ */
+export function useCategoryColor(categoryId: MealCategory): string {
+  const colorScheme = useColorScheme() ?? "light";
+  const { getCategory } = useCategories();
+  const category = getCategory(categoryId);
+
+  return colorScheme === "dark" ? category.darkColor : category.color;
+}
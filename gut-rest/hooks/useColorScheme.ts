@@ -1 +1,16 @@
-export { useColorScheme } from 'react-native';
+import { useContext } from 'react';
+import { useColorScheme as useSystemColorScheme } from 'react-native';
+
+import { SettingsContext } from '@/contexts/SettingsContext';
+
+/**
+ * The color scheme the app renders in: the theme picked in settings, or the
+ * OS appearance when that is set to "system". Re-renders when either changes.
+ */
+export function useColorScheme() {
+  const systemColorScheme = useSystemColorScheme();
+  // Read the context directly so components outside the provider still work
+  const theme = useContext(SettingsContext)?.settings.theme ?? 'system';
+
+  return theme === 'system' ? systemColorScheme : theme;
+}
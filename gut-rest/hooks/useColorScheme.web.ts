@@ -1,6 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { SettingsContext } from '@/contexts/SettingsContext';
+
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
@@ -12,6 +14,11 @@ export function useColorScheme() {
   }, []);
 
   const colorScheme = useRNColorScheme();
+  const theme = useContext(SettingsContext)?.settings.theme ?? 'system';
+
+  if (theme !== 'system') {
+    return theme;
+  }
 
   if (hasHydrated) {
     return colorScheme;
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Current time that re-renders the caller on an interval, for live timers
+ * @param intervalMs How often to tick; pass null to stop ticking
+ */
+export function useNow(intervalMs: number | null = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
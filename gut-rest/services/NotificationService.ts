@@ -0,0 +1,225 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import {
+  NotificationPreferences,
+  PlannedReminder,
+  ReminderPlanInput,
+} from "../types";
+import { formatEntryTime } from "./dateUtils";
+import {
+  getCategoryConfig,
+  getCategoryGroup,
+  getRecommendedGap,
+} from "../constants/MealCategories";
+import { EATING_WINDOW_WARNING_MINUTES } from "../constants/Settings";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Reminders in the foreground show as banners, quietly
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Service for planning and scheduling local reminders
+ */
+export class NotificationService {
+  /**
+   * Check whether a moment falls inside quiet hours
+   * @param timestamp Moment to check
+   * @param preferences Notification preferences
+   * @returns True when reminders should stay silent
+   */
+  static isInQuietHours(
+    timestamp: number,
+    preferences: NotificationPreferences
+  ): boolean {
+    const { quietHoursEnabled, quietHoursStart, quietHoursEnd } = preferences;
+    if (!quietHoursEnabled || quietHoursStart === quietHoursEnd) {
+      return false;
+    }
+
+    const hour = new Date(timestamp).getHours();
+    // Quiet hours usually wrap past midnight, e.g. 10 PM to 7 AM
+    return quietHoursStart < quietHoursEnd
+      ? hour >= quietHoursStart && hour < quietHoursEnd
+      : hour >= quietHoursStart || hour < quietHoursEnd;
+  }
+
+  /**
+   * Get the first moment after a timestamp when quiet hours end
+   * @param timestamp Moment inside quiet hours
+   * @param preferences Notification preferences
+   * @returns Timestamp of the next quiet hours end
+   */
+  static getQuietHoursEnd(
+    timestamp: number,
+    preferences: NotificationPreferences
+  ): number {
+    const end = new Date(timestamp);
+    end.setHours(preferences.quietHoursEnd, 0, 0, 0);
+    if (end.getTime() <= timestamp) {
+      end.setDate(end.getDate() + 1);
+    }
+    return end.getTime();
+  }
+
+  /**
+   * Work out which reminders to schedule from the current state of the day
+   *
+   * Reminders landing in quiet hours wait until they end, except the eating
+   * window warning, which is useless once the window has closed.
+   * @param input Latest entries, running fast and preferences
+   * @param now Current time; reminders due before it are dropped
+   * @returns Reminders still in the future, soonest first
+   */
+  static planReminders(
+    input: ReminderPlanInput,
+    now: number = Date.now()
+  ): PlannedReminder[] {
+    const {
+      lastEntry,
+      lastMeal,
+      firstMealToday,
+      activeSession,
+      eatingWindowHours,
+      preferences,
+    } = input;
+    const candidates: PlannedReminder[] = [];
+
+    if (activeSession && activeSession.endTime === undefined) {
+      candidates.push({
+        kind: "fasting_goal",
+        fireAt: activeSession.startTime + activeSession.goalHours * HOUR_MS,
+        title: "Fasting goal reached 🎉",
+        body: `Your ${activeSession.goalHours}h fast is complete.`,
+      });
+    }
+
+    if (lastMeal && getCategoryGroup(lastMeal.category) === "substantial") {
+      const gapHours = getRecommendedGap(lastMeal.category);
+      candidates.push({
+        kind: "meal_gap",
+        fireAt: lastMeal.timestamp + gapHours * HOUR_MS,
+        title: "Digestion gap over",
+        body: `Your ${getCategoryConfig(lastMeal.category).label.toLowerCase()} at ${formatEntryTime(
+          lastMeal
+        )} has had its ${gapHours}h to digest.`,
+      });
+    }
+
+    if (firstMealToday && eatingWindowHours > 0) {
+      const closesAt = firstMealToday.timestamp + eatingWindowHours * HOUR_MS;
+      candidates.push({
+        kind: "eating_window",
+        fireAt: closesAt - EATING_WINDOW_WARNING_MINUTES * MINUTE_MS,
+        title: "Eating window closing",
+        body: `Your eating window closes at ${formatEntryTime({
+          timestamp: closesAt,
+        })}.`,
+      });
+    }
+
+    if (lastEntry) {
+      candidates.push({
+        kind: "logging",
+        fireAt:
+          lastEntry.timestamp + preferences.loggingReminderHours * HOUR_MS,
+        title: "Anything to log?",
+        body: `Nothing logged since ${formatEntryTime(lastEntry)}.`,
+      });
+    }
+
+    return candidates
+      .filter(({ kind }) => preferences.reminders[kind])
+      .flatMap((reminder) => {
+        if (!this.isInQuietHours(reminder.fireAt, preferences)) {
+          return [reminder];
+        }
+        if (reminder.kind === "eating_window") {
+          return [];
+        }
+        return [
+          {
+            ...reminder,
+            fireAt: this.getQuietHoursEnd(reminder.fireAt, preferences),
+          },
+        ];
+      })
+      .filter((reminder) => reminder.fireAt > now)
+      .sort((a, b) => a.fireAt - b.fireAt);
+  }
+
+  /**
+   * Replace every scheduled reminder with a new plan
+   * @param reminders Reminders to schedule, possibly none
+   * @returns Number of reminders scheduled
+   */
+  static async scheduleReminders(
+    reminders: PlannedReminder[]
+  ): Promise<number> {
+    // Scheduled notifications aren't supported on the web
+    if (Platform.OS === "web") {
+      return 0;
+    }
+
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    // Permission is asked for in settings, never while scheduling
+    if (reminders.length === 0 || !(await this.hasPermission())) {
+      return 0;
+    }
+
+    for (const reminder of reminders) {
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: { kind: reminder.kind },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.fireAt,
+        },
+      });
+    }
+    return reminders.length;
+  }
+
+  /**
+   * Check notification permission without asking for it
+   * @returns True when reminders may be shown
+   */
+  static async hasPermission(): Promise<boolean> {
+    if (Platform.OS === "web") {
+      return false;
+    }
+    const current = await Notifications.getPermissionsAsync();
+    return current.granted;
+  }
+
+  /**
+   * Ask for notification permission unless it was already answered
+   * @returns True when reminders may be shown
+   */
+  static async ensurePermission(): Promise<boolean> {
+    if (Platform.OS === "web") {
+      return false;
+    }
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted || !current.canAskAgain) {
+      return current.granted;
+    }
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+}
+
+// Export default instance for convenience
+export const notificationService = NotificationService;
@@ -0,0 +1,269 @@
+import {
+  MealEntry,
+  DailySummary,
+  FastingProtocolChange,
+  StreakType,
+  StreakDayOutcome,
+  StreakDayStatus,
+  StreakResult,
+  StreakGraceRule,
+} from "../types";
+import {
+  createDateRange,
+  getDaysBetween,
+  getEntryDateString,
+  getTodayDateString,
+} from "./dateUtils";
+import { TimeCalculationService } from "./TimeCalculationService";
+import { doesCategoryBreakFasting } from "../constants/MealCategories";
+import { MAX_OVERNIGHT_FAST_HOURS } from "../constants/Fasting";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Service for multi-day streaks over the full meal history
+ */
+export class StreakService {
+  /**
+   * Work out which habits each day met
+   * @param entries Live entries from the first logged day through today, sorted by timestamp
+   * @param protocolHistory Protocol changes, oldest first
+   * @param fastingGoalHours Goal for days before any protocol was picked
+   * @param today Last day to evaluate (YYYY-MM-DD)
+   * @returns One outcome per day, from the first logged day through today
+   */
+  static evaluateDays(
+    entries: MealEntry[],
+    protocolHistory: FastingProtocolChange[],
+    fastingGoalHours: number,
+    today: string = getTodayDateString()
+  ): StreakDayOutcome[] {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const entriesByDate = new Map<string, MealEntry[]>();
+    for (const entry of entries) {
+      const date = getEntryDateString(entry);
+      const dayEntries = entriesByDate.get(date);
+      if (dayEntries) {
+        dayEntries.push(entry);
+      } else {
+        entriesByDate.set(date, [entry]);
+      }
+    }
+
+    const firstDate = getEntryDateString(entries[0]);
+    const dayCount = getDaysBetween(firstDate, today) + 1;
+
+    const outcomes: StreakDayOutcome[] = [];
+    let previousMeals: MealEntry[] = [];
+
+    for (const date of createDateRange(firstDate, Math.max(dayCount, 0))) {
+      const dayEntries = entriesByDate.get(date) ?? [];
+      const meals = dayEntries.filter((entry) =>
+        doesCategoryBreakFasting(entry.category)
+      );
+
+      const summary: DailySummary = {
+        date,
+        entries: dayEntries,
+        totalEntries: dayEntries.length,
+        gaps: [],
+        timeZoneChanges: [],
+      };
+
+      if (meals.length > 0 && previousMeals.length > 0) {
+        const startTime = previousMeals[previousMeals.length - 1].timestamp;
+        const endTime = meals[0].timestamp;
+        const durationMs = endTime - startTime;
+
+        if (
+          durationMs > 0 &&
+          durationMs <= MAX_OVERNIGHT_FAST_HOURS * HOUR_MS
+        ) {
+          summary.fastingWindow = {
+            startTime,
+            endTime,
+            durationMs,
+            durationFormatted:
+              TimeCalculationService.formatDuration(durationMs),
+            isIntermittentFasting: durationMs >= fastingGoalHours * HOUR_MS,
+          };
+        }
+      }
+
+      const grade = TimeCalculationService.gradeDay(
+        summary,
+        TimeCalculationService.getProtocolChangeForDate(protocolHistory, date)
+      );
+
+      if (grade) {
+        // A fast day that stays within its meal limit counts for both habits
+        outcomes.push({
+          date,
+          fasting: grade.isFastDay
+            ? grade.fastDayMealsMet === true
+            : grade.fastingMet === true,
+          eating_window: grade.isFastDay
+            ? grade.fastDayMealsMet === true
+            : grade.eatingWindowMet === true,
+          logging: dayEntries.length > 0,
+        });
+      } else {
+        outcomes.push({
+          date,
+          fasting: summary.fastingWindow?.isIntermittentFasting === true,
+          eating_window:
+            meals.length > 0 &&
+            // Goals past a full day leave no window, which one meal still meets
+            TimeCalculationService.calculateEatingWindow(meals) <=
+              Math.max(0, 24 - fastingGoalHours) * HOUR_MS,
+          logging: dayEntries.length > 0,
+        });
+      }
+
+      previousMeals = meals;
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Work out which habits a single day met
+   * @param entries Live entries of the day and the day before, sorted by timestamp
+   * @param protocolHistory Protocol changes, oldest first
+   * @param fastingGoalHours Goal for days before any protocol was picked
+   * @param date Day to evaluate (YYYY-MM-DD)
+   */
+  static evaluateDay(
+    entries: MealEntry[],
+    protocolHistory: FastingProtocolChange[],
+    fastingGoalHours: number,
+    date: string
+  ): StreakDayOutcome {
+    // Only the day before feeds the overnight fast, so the rest can be left out
+    const outcome = this.evaluateDays(
+      entries,
+      protocolHistory,
+      fastingGoalHours,
+      date
+    ).find((day) => day.date === date);
+
+    return (
+      outcome ?? { date, fasting: false, eating_window: false, logging: false }
+    );
+  }
+
+  /**
+   * Walk the days in order and measure the current and longest streak
+   *
+   * A missed day becomes a grace day when a streak is running and fewer than
+   * `grace.missedDays` grace days fall within the last `grace.periodDays`.
+   * Today never breaks a streak while it can still be met.
+   * @param type Habit to measure
+   * @param outcomes Consecutive days from evaluateDays
+   * @param grace Missed days a streak survives
+   * @param today Date that is still in progress (YYYY-MM-DD)
+   */
+  static calculateStreak(
+    type: StreakType,
+    outcomes: StreakDayOutcome[],
+    grace: StreakGraceRule,
+    today: string = getTodayDateString()
+  ): StreakResult {
+    const days: Record<string, StreakDayStatus> = {};
+    const graceIndexes: number[] = [];
+    let current = 0;
+    let longest = 0;
+    let graceDaysUsed = 0;
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome[type]) {
+        days[outcome.date] = "met";
+        current++;
+        longest = Math.max(longest, current);
+        return;
+      }
+
+      if (outcome.date === today) {
+        days[outcome.date] = "pending";
+        return;
+      }
+
+      const recentGraceDays = graceIndexes.filter(
+        (graceIndex) => graceIndex > index - grace.periodDays
+      ).length;
+
+      if (current > 0 && recentGraceDays < grace.missedDays) {
+        days[outcome.date] = "grace";
+        graceIndexes.push(index);
+        graceDaysUsed++;
+      } else {
+        days[outcome.date] = "missed";
+        current = 0;
+        graceDaysUsed = 0;
+      }
+    });
+
+    return { type, current, longest, graceDaysUsed, days };
+  }
+
+  /**
+   * Calculate every streak type over the full history
+   * @param entries Live entries from the first logged day through today, sorted by timestamp
+   * @param protocolHistory Protocol changes, oldest first
+   * @param fastingGoalHours Goal for days before any protocol was picked
+   * @param grace Missed days a streak survives
+   * @returns Streak results keyed by type
+   */
+  static calculateStreaks(
+    entries: MealEntry[],
+    protocolHistory: FastingProtocolChange[],
+    fastingGoalHours: number,
+    grace: StreakGraceRule
+  ): Record<StreakType, StreakResult> {
+    const today = getTodayDateString();
+    return this.calculateStreaksFromOutcomes(
+      this.evaluateDays(entries, protocolHistory, fastingGoalHours, today),
+      grace,
+      today
+    );
+  }
+
+  /**
+   * Calculate every streak type from days that were already evaluated
+   * @param outcomes Consecutive days from evaluateDays, ending today
+   * @param grace Missed days a streak survives
+   * @param today Date that is still in progress (YYYY-MM-DD)
+   * @returns Streak results keyed by type
+   */
+  static calculateStreaksFromOutcomes(
+    outcomes: StreakDayOutcome[],
+    grace: StreakGraceRule,
+    today: string = getTodayDateString()
+  ): Record<StreakType, StreakResult> {
+    const streaks = {
+      fasting: this.calculateStreak("fasting", outcomes, grace, today),
+      eating_window: this.calculateStreak(
+        "eating_window",
+        outcomes,
+        grace,
+        today
+      ),
+      logging: this.calculateStreak("logging", outcomes, grace, today),
+    };
+
+    console.log("[Streaks] Calculated streaks:", {
+      days: outcomes.length,
+      fasting: streaks.fasting.current,
+      eatingWindow: streaks.eating_window.current,
+      logging: streaks.logging.current,
+    });
+
+    return streaks;
+  }
+}
+
+// Export default instance for convenience
+export const streakService = StreakService;
@@ -4,7 +4,46 @@ import {
   FastingWindow,
   DailySummary,
   DailyStats,
+  TagBreakdown,
+  DailyTrend,
+  GapHistogramBucket,
+  HeatmapCell,
+  GutRestScore,
+  GutRestShortGap,
+  DigestionPhase,
+  DigestionStatus,
+  NextMealConstraint,
+  NextMealRecommendation,
+  MealCategory,
+  EatingPatternAnalysis,
+  FastingSession,
+  FastingProtocolChange,
+  ProtocolDayGrade,
 } from "../types";
+import {
+  getDateStringWithOffset,
+  getEntryDateString,
+  getEntryHour,
+  getUtcOffsetMinutes,
+  getWallClockDayBounds,
+  parseDateString,
+} from "./dateUtils";
+import {
+  doesCategoryBreakFasting,
+  getCategoryWeight,
+  getRecommendedGap,
+} from "../constants/MealCategories";
+import { DEFAULT_FASTING_GOAL_HOURS } from "../constants/Settings";
+import {
+  FAST_DAY_MAX_MEALS,
+  MAX_OVERNIGHT_FAST_HOURS,
+  getFastingProtocol,
+} from "../constants/Fasting";
+import {
+  GAP_THRESHOLDS,
+  GUT_REST_OVERNIGHT_POINTS,
+  getGapThreshold,
+} from "../constants/Gaps";
 
 /**
  * Service for calculating time gaps, fasting windows, and meal timing statistics
@@ -49,11 +88,13 @@ export class TimeCalculationService {
    * Calculate fasting window between the last entry of previous day and first entry of current day
    * @param lastEntryYesterday Last meal entry from previous day (optional)
    * @param firstEntryToday First meal entry from current day (optional)
+   * @param fastingGoalHours Fast length that counts as intermittent fasting
    * @returns FastingWindow object or null if calculation not possible
    */
   static calculateFastingWindow(
     lastEntryYesterday: MealEntry | null,
-    firstEntryToday: MealEntry | null
+    firstEntryToday: MealEntry | null,
+    fastingGoalHours: number = DEFAULT_FASTING_GOAL_HOURS
   ): FastingWindow | null {
     if (!lastEntryYesterday || !firstEntryToday) {
       console.log(
@@ -67,7 +108,10 @@ export class TimeCalculationService {
     const durationMs = endTime - startTime;
 
     // Sanity check: fasting window should be positive and reasonable (< 48 hours)
-    if (durationMs <= 0 || durationMs > 48 * 60 * 60 * 1000) {
+    if (
+      durationMs <= 0 ||
+      durationMs > MAX_OVERNIGHT_FAST_HOURS * 60 * 60 * 1000
+    ) {
       console.warn(
         "[TimeCalculation] Invalid fasting window duration:",
         durationMs
@@ -80,7 +124,7 @@ export class TimeCalculationService {
       endTime,
       durationMs,
       durationFormatted: this.formatDuration(durationMs),
-      isIntermittentFasting: durationMs >= 16 * 60 * 60 * 1000, // 16+ hours
+      isIntermittentFasting: durationMs >= fastingGoalHours * 60 * 60 * 1000,
     };
 
     console.log("[TimeCalculation] Calculated fasting window:", {
@@ -114,6 +158,22 @@ export class TimeCalculationService {
     }
   }
 
+  /**
+   * Format an elapsed time as a running clock
+   * @param milliseconds Duration in milliseconds
+   * @returns Formatted string like "36:05:09" (hours keep counting past 24)
+   */
+  static formatTimer(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    return `${hours}:${String(minutes).padStart(2, "0")}:${String(
+      seconds
+    ).padStart(2, "0")}`;
+  }
+
   /**
    * Format duration with more precision for longer periods
    * @param milliseconds Duration in milliseconds
@@ -148,15 +208,18 @@ export class TimeCalculationService {
   /**
    * Get comprehensive daily statistics from a daily summary
    * @param summary Daily summary with entries and gaps
+   * @param fastingStreak Current fasting streak from StreakService
    * @returns Daily statistics object
    */
-  static getDailyStats(summary: DailySummary): DailyStats {
-    const { gaps, fastingWindow, entries } = summary;
+  static getDailyStats(
+    summary: DailySummary,
+    fastingStreak: number = 0
+  ): DailyStats {
+    const { gaps, entries } = summary;
 
     let shortestGap: TimeGap | null = null;
     let longestGap: TimeGap | null = null;
     let averageGap = 0;
-    let fastingStreak = 0;
 
     if (gaps.length > 0) {
       // Find shortest and longest gaps
@@ -173,11 +236,6 @@ export class TimeCalculationService {
       averageGap = totalGapMs / gaps.length;
     }
 
-    // Calculate fasting streak (simple implementation - could be enhanced)
-    if (fastingWindow?.isIntermittentFasting) {
-      fastingStreak = 1; // This would need to be calculated across multiple days
-    }
-
     const stats: DailyStats = {
       shortestGap,
       longestGap,
@@ -229,33 +287,108 @@ export class TimeCalculationService {
   /**
    * Get time until next recommended meal based on last entry and target gap
    * @param lastEntry Last meal entry
-   * @param targetGapHours Target hours between meals (default: 4)
+   * @param targetGapHours Target hours between meals (default: the recommended gap for the entry's category)
+   * @param now Current time, passed in by live timers
    * @returns Milliseconds until next recommended meal, or 0 if time has passed
    */
   static getTimeUntilNextMeal(
     lastEntry: MealEntry,
-    targetGapHours: number = 4
+    targetGapHours: number = getRecommendedGap(lastEntry.category),
+    now: number = Date.now()
   ): number {
     const targetGapMs = targetGapHours * 60 * 60 * 1000;
     const nextMealTime = lastEntry.timestamp + targetGapMs;
-    const now = Date.now();
 
     return Math.max(0, nextMealTime - now);
   }
 
+  /**
+   * Work out when the next meal fits the digestion gap, a running fast and
+   * the eating window, and which of them decides it
+   *
+   * A meal that would land after the eating window closes waits for the
+   * overnight fast instead.
+   * @param lastMeal Latest fast-breaking entry, if any
+   * @param firstMealToday First fast-breaking entry of today, if any
+   * @param activeSession Running fasting session, if any
+   * @param eatingWindowHours Length of the eating window (0 on fast days)
+   * @param fastingHours Overnight fast after the window closes
+   * @param now Current time, passed in by live timers
+   * @returns Recommendation, or null with no meal and no fast to go by
+   */
+  static getNextMealRecommendation(
+    lastMeal: MealEntry | null,
+    firstMealToday: MealEntry | null,
+    activeSession: FastingSession | null,
+    eatingWindowHours: number,
+    fastingHours: number,
+    now: number = Date.now()
+  ): NextMealRecommendation | null {
+    const hourMs = 60 * 60 * 1000;
+    const candidates: { constraint: NextMealConstraint; time: number }[] = [];
+
+    const gapReadyAt = lastMeal
+      ? now + this.getTimeUntilNextMeal(lastMeal, undefined, now)
+      : undefined;
+    if (gapReadyAt !== undefined) {
+      candidates.push({ constraint: "category_gap", time: gapReadyAt });
+    }
+
+    const fastReadyAt =
+      activeSession && activeSession.endTime === undefined
+        ? Math.max(
+            now,
+            activeSession.startTime + activeSession.goalHours * hourMs
+          )
+        : undefined;
+    if (fastReadyAt !== undefined) {
+      candidates.push({ constraint: "fasting_goal", time: fastReadyAt });
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const windowClosesAt = firstMealToday
+      ? firstMealToday.timestamp + eatingWindowHours * hourMs
+      : undefined;
+
+    let { constraint: binding, time: readyAt } = candidates.reduce(
+      (latest, candidate) => (candidate.time > latest.time ? candidate : latest)
+    );
+
+    // Too late for today's window, so the overnight fast comes first
+    if (
+      windowClosesAt !== undefined &&
+      lastMeal &&
+      (readyAt > windowClosesAt || now >= windowClosesAt)
+    ) {
+      binding = "eating_window";
+      readyAt = Math.max(readyAt, lastMeal.timestamp + fastingHours * hourMs);
+    }
+
+    return { readyAt, binding, gapReadyAt, fastReadyAt, windowClosesAt };
+  }
+
   /**
    * Analyze eating patterns for insights
    * @param summaries Array of daily summaries to analyze
    * @returns Pattern analysis object
    */
-  static analyzeEatingPatterns(summaries: DailySummary[]) {
+  static analyzeEatingPatterns(
+    summaries: DailySummary[]
+  ): EatingPatternAnalysis {
     if (summaries.length === 0) {
       return {
         averageEatingWindow: 0,
+        averageEatingWindowFormatted: this.formatDuration(0),
         averageMealsPerDay: 0,
         averageFastingHours: 0,
         intermittentFastingDays: 0,
+        intermittentFastingPercentage: 0,
         consistencyScore: 0,
+        averageGutRestScore: null,
+        totalDaysAnalyzed: 0,
       };
     }
 
@@ -306,6 +439,17 @@ export class TimeCalculationService {
       ) / mealCounts.length;
     const consistencyScore = Math.max(0, 100 - variance * 20); // Scale to 0-100
 
+    const gutRestScores = summaries
+      .map((summary) => summary.gutRestScore?.score)
+      .filter((score): score is number => score !== undefined);
+    const averageGutRestScore =
+      gutRestScores.length > 0
+        ? Math.round(
+            gutRestScores.reduce((sum, score) => sum + score, 0) /
+              gutRestScores.length
+          )
+        : null;
+
     return {
       averageEatingWindow: averageEatingWindow,
       averageEatingWindowFormatted: this.formatDuration(averageEatingWindow),
@@ -317,6 +461,7 @@ export class TimeCalculationService {
         (ifDays / summaries.length) * 100
       ),
       consistencyScore: Math.round(consistencyScore),
+      averageGutRestScore,
       totalDaysAnalyzed: summaries.length,
     };
   }
@@ -324,12 +469,14 @@ export class TimeCalculationService {
   /**
    * Get current fasting status based on last meal entry
    * @param lastEntry Last meal entry
-   * @param fastingGoalHours Target fasting duration (default: 16)
+   * @param fastingGoalHours Target fasting duration
+   * @param now Current time, passed in by live timers
    * @returns Current fasting status
    */
   static getCurrentFastingStatus(
     lastEntry: MealEntry | null,
-    fastingGoalHours: number = 16
+    fastingGoalHours: number = DEFAULT_FASTING_GOAL_HOURS,
+    now: number = Date.now()
   ) {
     if (!lastEntry) {
       return {
@@ -343,8 +490,32 @@ export class TimeCalculationService {
       };
     }
 
-    const now = Date.now();
-    const currentFastDuration = now - lastEntry.timestamp;
+    return this.getFastingProgress(now - lastEntry.timestamp, fastingGoalHours);
+  }
+
+  /**
+   * Get the status of an explicitly started fast
+   * @param session Running or finished fasting session
+   * @param now Current time, passed in by live timers
+   * @returns Fasting status measured against the session's own goal
+   */
+  static getFastingSessionStatus(
+    session: FastingSession,
+    now: number = Date.now()
+  ) {
+    return this.getFastingProgress(
+      (session.endTime ?? now) - session.startTime,
+      session.goalHours
+    );
+  }
+
+  /**
+   * Measure a fast of the given length against a goal
+   */
+  private static getFastingProgress(
+    currentFastDuration: number,
+    fastingGoalHours: number
+  ) {
     const goalMs = fastingGoalHours * 60 * 60 * 1000;
     const timeToGoal = Math.max(0, goalMs - currentFastDuration);
     const progressPercentage = Math.min(
@@ -363,6 +534,436 @@ export class TimeCalculationService {
     };
   }
 
+  /**
+   * Find the protocol choice in force on a day
+   * @param history Protocol changes, oldest first
+   * @param date Date string (YYYY-MM-DD)
+   * @returns Latest change effective on or before the date, or null
+   */
+  static getProtocolChangeForDate(
+    history: FastingProtocolChange[],
+    date: string
+  ): FastingProtocolChange | null {
+    let inForce: FastingProtocolChange | null = null;
+    for (const change of history) {
+      if (change.effectiveDate > date) break;
+      inForce = change;
+    }
+    return inForce;
+  }
+
+  /**
+   * Check whether a day is a restricted-intake day under a protocol choice
+   * @param change Protocol choice in force on the day
+   * @param date Date string (YYYY-MM-DD)
+   */
+  static isProtocolFastDay(
+    change: FastingProtocolChange,
+    date: string
+  ): boolean {
+    const protocol = change.protocolId && getFastingProtocol(change.protocolId);
+    if (!protocol?.usesFastDays) {
+      return false;
+    }
+    return change.fastDays.includes(parseDateString(date).getDay());
+  }
+
+  /**
+   * Grade a day against a fasting protocol
+   *
+   * Eating days must meet the overnight fast and eating window targets;
+   * fast days only allow FAST_DAY_MAX_MEALS fast-breaking meals.
+   * @param summary Daily summary, fasting window included
+   * @param change Protocol choice in force on the day
+   * @returns Grade for the day, or null when no protocol was in force
+   */
+  static gradeDay(
+    summary: DailySummary,
+    change: FastingProtocolChange | null
+  ): ProtocolDayGrade | null {
+    const protocol =
+      change?.protocolId && getFastingProtocol(change.protocolId);
+    if (!change || !protocol) {
+      return null;
+    }
+
+    const isFastDay = this.isProtocolFastDay(change, summary.date);
+    const meals = summary.entries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+
+    const eatingWindowMs = this.calculateEatingWindow(meals);
+    let fastingMet: boolean | null = null;
+    let eatingWindowMet: boolean | null = null;
+    let fastDayMealsMet: boolean | null = null;
+
+    if (isFastDay) {
+      fastDayMealsMet = meals.length <= FAST_DAY_MAX_MEALS;
+    } else {
+      if (summary.fastingWindow) {
+        fastingMet =
+          summary.fastingWindow.durationMs >=
+          protocol.fastingHours * 60 * 60 * 1000;
+      }
+      if (meals.length > 0) {
+        eatingWindowMet =
+          eatingWindowMs <= protocol.eatingWindowHours * 60 * 60 * 1000;
+      }
+    }
+
+    const checks = [fastingMet, eatingWindowMet, fastDayMealsMet].filter(
+      (check): check is boolean => check !== null
+    );
+
+    return {
+      protocolId: protocol.id,
+      isFastDay,
+      targetFastingHours: protocol.fastingHours,
+      targetEatingWindowHours: protocol.eatingWindowHours,
+      mealCount: meals.length,
+      eatingWindowMs,
+      fastingMet,
+      eatingWindowMet,
+      fastDayMealsMet,
+      met: checks.length > 0 && checks.every(Boolean),
+    };
+  }
+
+  /**
+   * Break down gaps and overnight fasts by the tags on the entry before them
+   * @param entries Meal entries over the period to analyze
+   * @returns Per-tag breakdown, most used tags first
+   */
+  static getTagBreakdown(entries: MealEntry[]): TagBreakdown[] {
+    const sortedEntries = [...entries].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+    const totals = new Map<
+      string,
+      {
+        entryCount: number;
+        gapMs: number;
+        gapCount: number;
+        fastMs: number;
+        fastCount: number;
+      }
+    >();
+
+    sortedEntries.forEach((entry, index) => {
+      const next = sortedEntries[index + 1];
+      // The day's last fast-breaking meal starts an overnight fast that the
+      // next fast-breaking meal on a later day ends
+      const nextMeal = doesCategoryBreakFasting(entry.category)
+        ? sortedEntries
+            .slice(index + 1)
+            .find((candidate) => doesCategoryBreakFasting(candidate.category))
+        : undefined;
+      const fastMs =
+        nextMeal && getEntryDateString(nextMeal) !== getEntryDateString(entry)
+          ? nextMeal.timestamp - entry.timestamp
+          : null;
+
+      for (const tag of entry.tags ?? []) {
+        const total = totals.get(tag) ?? {
+          entryCount: 0,
+          gapMs: 0,
+          gapCount: 0,
+          fastMs: 0,
+          fastCount: 0,
+        };
+
+        total.entryCount++;
+        if (next) {
+          total.gapMs += next.timestamp - entry.timestamp;
+          total.gapCount++;
+        }
+        if (fastMs !== null) {
+          total.fastMs += fastMs;
+          total.fastCount++;
+        }
+        totals.set(tag, total);
+      }
+    });
+
+    return Array.from(totals.entries())
+      .map(([tag, total]) => ({
+        tag,
+        entryCount: total.entryCount,
+        averageGapAfterMs:
+          total.gapCount > 0 ? total.gapMs / total.gapCount : 0,
+        averageFastAfterMs:
+          total.fastCount > 0 ? total.fastMs / total.fastCount : 0,
+        fastCount: total.fastCount,
+      }))
+      .sort(
+        (a, b) => b.entryCount - a.entryCount || a.tag.localeCompare(b.tag)
+      );
+  }
+
+  /**
+   * Score how much rest digestion got over a day
+   *
+   * Each fast-breaking entry followed by another one the same day earns a
+   * share of the gap points in proportion to its category weight, scaled by
+   * how much of its recommended gap passed before the next fast-breaking
+   * entry. Water and other entries that don't break a fast are skipped.
+   * @param entries The day's entries, sorted by timestamp
+   * @param fastingWindow Overnight fast that ended with the day's first meal
+   * @param targetFastingHours Overnight fast that earns full credit
+   * @returns Score with its breakdown, or null when nothing broke the fast or
+   * a single meal left neither a gap nor an overnight fast to measure
+   */
+  static calculateGutRestScore(
+    entries: MealEntry[],
+    fastingWindow: FastingWindow | undefined,
+    targetFastingHours: number
+  ): GutRestScore | null {
+    const meals = entries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+    if (meals.length === 0 || (meals.length === 1 && !fastingWindow)) {
+      return null;
+    }
+
+    // Without yesterday's meals the gaps carry the whole score
+    const overnightMaxPoints = fastingWindow ? GUT_REST_OVERNIGHT_POINTS : 0;
+    const gapMaxPoints = 100 - overnightMaxPoints;
+
+    const gaps = meals.slice(0, -1).map((meal, index) => {
+      const durationMs = meals[index + 1].timestamp - meal.timestamp;
+      const recommendedMs = getRecommendedGap(meal.category) * 60 * 60 * 1000;
+      return {
+        meal,
+        durationMs,
+        recommendedMs,
+        weight: getCategoryWeight(meal.category),
+        shortfall:
+          recommendedMs > 0 ? Math.max(0, 1 - durationMs / recommendedMs) : 0,
+      };
+    });
+    const totalWeight = gaps.reduce((sum, gap) => sum + gap.weight, 0);
+
+    const shortGaps: GutRestShortGap[] =
+      totalWeight > 0
+        ? gaps
+            .filter((gap) => gap.shortfall > 0)
+            .map((gap) => ({
+              entryId: gap.meal.id,
+              category: gap.meal.category,
+              startTime: gap.meal.timestamp,
+              durationMs: gap.durationMs,
+              recommendedMs: gap.recommendedMs,
+              pointsLost:
+                (gapMaxPoints * gap.weight * gap.shortfall) / totalWeight,
+            }))
+            .sort((a, b) => b.pointsLost - a.pointsLost)
+        : [];
+
+    const gapPoints =
+      gapMaxPoints - shortGaps.reduce((sum, gap) => sum + gap.pointsLost, 0);
+    const overnightPoints = fastingWindow
+      ? overnightMaxPoints *
+        Math.min(
+          fastingWindow.durationMs / (targetFastingHours * 60 * 60 * 1000),
+          1
+        )
+      : 0;
+
+    return {
+      score: Math.round(gapPoints + overnightPoints),
+      gapPoints,
+      gapMaxPoints,
+      overnightPoints,
+      overnightMaxPoints,
+      overnightTargetHours: targetFastingHours,
+      shortGaps,
+    };
+  }
+
+  /**
+   * Lay out when each meal was digesting and how long the gut rested after
+   *
+   * Digestion after a fast-breaking entry lasts its category's recommended
+   * gap. Meals eaten while an earlier one was still digesting overlap it, and
+   * rest only starts once everything eaten so far has been digested.
+   * @param entries Entries sorted by timestamp
+   * @returns One phase per fast-breaking entry, oldest first
+   */
+  static getDigestionPhases(entries: MealEntry[]): DigestionPhase[] {
+    const meals = entries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+    let digestedAt = -Infinity; // When everything eaten so far is digested
+
+    return meals.map((meal, index) => {
+      const digestingUntil =
+        meal.timestamp + getRecommendedGap(meal.category) * 60 * 60 * 1000;
+      const overlapMs = Math.max(0, digestedAt - meal.timestamp);
+      digestedAt = Math.max(digestedAt, digestingUntil);
+
+      const next = meals[index + 1];
+      return {
+        entryId: meal.id,
+        startTime: meal.timestamp,
+        digestingUntil,
+        overlapMs,
+        restMs: next ? Math.max(0, next.timestamp - digestedAt) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Tell whether the gut is digesting or resting at a moment
+   * @param entries Entries sorted by timestamp
+   * @param now Moment to check, passed in by live timers
+   * @returns Current state, or null before the first fast-breaking entry
+   */
+  static getDigestionStatus(
+    entries: MealEntry[],
+    now: number = Date.now()
+  ): DigestionStatus | null {
+    const phases = this.getDigestionPhases(
+      entries.filter((entry) => entry.timestamp <= now)
+    );
+    if (phases.length === 0) {
+      return null;
+    }
+
+    // Walk back through overlapping meals to where digesting began
+    let since = phases[phases.length - 1].startTime;
+    for (let i = phases.length - 1; i > 0 && phases[i].overlapMs > 0; i--) {
+      since = phases[i - 1].startTime;
+    }
+
+    const digestedAt = Math.max(...phases.map((phase) => phase.digestingUntil));
+
+    return now < digestedAt
+      ? { state: "digesting", since, until: digestedAt }
+      : { state: "resting", since: digestedAt };
+  }
+
+  /**
+   * Describe a digestion status for the timeline's now marker
+   * @param status Status from getDigestionStatus
+   * @param now Current time, passed in by live timers
+   * @returns Text like "Digesting · 1h 20m left"
+   */
+  static formatDigestionStatus(status: DigestionStatus, now: number): string {
+    return status.state === "digesting" && status.until !== undefined
+      ? `Digesting · ${this.formatDuration(status.until - now)} left`
+      : `Resting · ${this.formatDuration(now - status.since)}`;
+  }
+
+  /**
+   * Build per-day chart data for a run of days
+   * @param entries Meal entries covering the days and the day before the first
+   * @param dates Days to chart (YYYY-MM-DD), oldest first
+   * @returns One trend point per date
+   */
+  static getDailyTrends(entries: MealEntry[], dates: string[]): DailyTrend[] {
+    const entriesByDate = new Map<string, MealEntry[]>();
+    for (const entry of [...entries].sort(
+      (a, b) => a.timestamp - b.timestamp
+    )) {
+      const date = getEntryDateString(entry);
+      const dayEntries = entriesByDate.get(date);
+      if (dayEntries) {
+        dayEntries.push(entry);
+      } else {
+        entriesByDate.set(date, [entry]);
+      }
+    }
+
+    const getMeals = (date: string) =>
+      (entriesByDate.get(date) ?? []).filter((entry) =>
+        doesCategoryBreakFasting(entry.category)
+      );
+
+    return dates.map((date) => {
+      const dayEntries = entriesByDate.get(date) ?? [];
+      const meals = getMeals(date);
+      const previousMeals = getMeals(getDateStringWithOffset(date, -1));
+      const { start } = getWallClockDayBounds(date);
+
+      // Read each meal on the wall clock of the zone it was logged in
+      const hoursIntoDay = (entry: MealEntry) =>
+        (entry.timestamp +
+          (entry.utcOffset ?? getUtcOffsetMinutes(entry.timestamp)) *
+            60 *
+            1000 -
+          start) /
+        (60 * 60 * 1000);
+
+      return {
+        date,
+        overnightFastHours:
+          meals.length > 0 && previousMeals.length > 0
+            ? (meals[0].timestamp -
+                previousMeals[previousMeals.length - 1].timestamp) /
+              (60 * 60 * 1000)
+            : null,
+        eatingWindowStartHour: meals.length > 0 ? hoursIntoDay(meals[0]) : null,
+        eatingWindowEndHour:
+          meals.length > 0 ? hoursIntoDay(meals[meals.length - 1]) : null,
+        gaps: this.calculateGaps(dayEntries),
+      };
+    });
+  }
+
+  /**
+   * Count gaps in each band of the gap rating used on the timeline
+   * @param gaps Gaps to count
+   * @returns One bucket per band, shortest first
+   */
+  static getGapHistogram(gaps: TimeGap[]): GapHistogramBucket[] {
+    const counts = new Map<string, number>();
+    for (const gap of gaps) {
+      const { label } = getGapThreshold(gap.durationMs);
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+
+    return GAP_THRESHOLDS.map(({ shortLabel, label, color }) => ({
+      label: shortLabel,
+      color,
+      count: counts.get(label) ?? 0,
+    }));
+  }
+
+  /**
+   * Lay entries out on a weekday by hour-of-day grid
+   * @param entries Meal entries over the period to map
+   * @param category Only count this category, or every category when null
+   * @param weighted Sum category weights instead of counting entries
+   * @returns Seven rows (Sunday first) of 24 hourly cells
+   */
+  static getIntakeHeatmap(
+    entries: MealEntry[],
+    category: MealCategory | null = null,
+    weighted: boolean = false
+  ): HeatmapCell[][] {
+    const cells: HeatmapCell[][] = Array.from({ length: 7 }, (_, weekday) =>
+      Array.from({ length: 24 }, (_, hour) => ({
+        weekday,
+        hour,
+        value: 0,
+        entries: [],
+      }))
+    );
+
+    for (const entry of entries) {
+      if (category !== null && entry.category !== category) {
+        continue;
+      }
+
+      const weekday = parseDateString(getEntryDateString(entry)).getDay();
+      const cell = cells[weekday][getEntryHour(entry)];
+      cell.value += weighted ? getCategoryWeight(entry.category) : 1;
+      cell.entries.push(entry);
+    }
+
+    return cells;
+  }
+
   /**
    * Convert duration string back to milliseconds (utility for parsing)
    * @param durationString Formatted duration string like "3h 20m"
@@ -0,0 +1,478 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+import {
+  AppError,
+  BackupBundle,
+  BackupData,
+  MealEntry,
+  RestoreMode,
+  RestoreSummary,
+} from "../types";
+import { databaseService } from "./database";
+import { storageService } from "./storage";
+import { encryptionService } from "./encryption";
+import { getTodayDateString } from "./dateUtils";
+import { LATEST_SCHEMA_VERSION } from "./migrations";
+import { getFastingProtocol } from "../constants/Fasting";
+
+export const BACKUP_FORMAT = "gut-rest-backup";
+
+// Bump when the bundle layout changes in a way older readers can't handle
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Full backup and restore of the meal log, categories and settings
+ */
+class BackupServiceImpl {
+  /**
+   * Collect everything into a checksummed bundle
+   */
+  async createBackup(): Promise<BackupBundle> {
+    try {
+      await databaseService.initialize();
+
+      const [
+        schemaStatus,
+        entries,
+        categories,
+        fastingSessions,
+        protocolHistory,
+        settings,
+      ] = await Promise.all([
+        databaseService.getSchemaStatus(),
+        databaseService.getAllMealEntries(),
+        databaseService.getCategories(),
+        databaseService.getFastingSessions(),
+        databaseService.getFastingProtocolHistory(),
+        storageService.exportData(),
+      ]);
+
+      const data: BackupData = {
+        schemaVersion: schemaStatus.currentVersion,
+        createdAt: Date.now(),
+        entries,
+        categories,
+        fastingSessions,
+        protocolHistory,
+        settings,
+      };
+
+      console.log(
+        `[Backup] Created backup with ${entries.length} entries and ${categories.length} categories`
+      );
+      return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        checksum: this.computeChecksum(data),
+        data,
+      };
+    } catch (error) {
+      console.error("[Backup] Create backup failed:", error);
+      throw this.createError(
+        "BACKUP_FAILED",
+        "Failed to create the backup",
+        error
+      );
+    }
+  }
+
+  /**
+   * Write a backup file and open the share sheet
+   * @param passphrase Encrypt the file with this passphrase when given
+   * @returns File location and whether the share sheet was shown
+   */
+  async shareBackup(
+    passphrase?: string
+  ): Promise<{ uri: string; shared: boolean }> {
+    const bundle = await this.createBackup();
+    const contents = passphrase
+      ? await encryptionService.encrypt(JSON.stringify(bundle), passphrase)
+      : JSON.stringify(bundle);
+
+    try {
+      const suffix = passphrase ? ".encrypted.json" : ".json";
+      const uri = `${FileSystem.documentDirectory}gut-rest-backup-${getTodayDateString()}${suffix}`;
+      await FileSystem.writeAsStringAsync(uri, contents, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      const shared = await Sharing.isAvailableAsync();
+      if (shared) {
+        await Sharing.shareAsync(uri, {
+          mimeType: "application/json",
+          UTI: "public.json",
+          dialogTitle: "Save backup",
+        });
+      }
+
+      console.log(`[Backup] Backup written to ${uri}`);
+      return { uri, shared };
+    } catch (error) {
+      console.error("[Backup] Share backup failed:", error);
+      throw this.createError(
+        "BACKUP_FAILED",
+        "Failed to save the backup file",
+        error
+      );
+    }
+  }
+
+  /**
+   * Let the user pick a backup file
+   * @returns File contents, or null if the picker was cancelled
+   */
+  async pickBackupFile(): Promise<string | null> {
+    let text: string;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || result.assets.length === 0) {
+        return null;
+      }
+
+      text = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+    } catch (error) {
+      console.error("[Backup] Failed to read backup file:", error);
+      throw this.createError(
+        "FILE_READ_FAILED",
+        "Failed to read the selected file",
+        error
+      );
+    }
+
+    return text;
+  }
+
+  /**
+   * Whether file contents need a passphrase before they can be opened
+   */
+  isEncryptedBackup(text: string): boolean {
+    return encryptionService.isEncrypted(text);
+  }
+
+  /**
+   * Decrypt file contents if needed and validate the backup
+   * @throws WRONG_PASSPHRASE or TAMPERED_FILE for encrypted files
+   */
+  async openBackup(text: string, passphrase?: string): Promise<BackupBundle> {
+    if (this.isEncryptedBackup(text)) {
+      const decrypted = await encryptionService.decrypt(text, passphrase ?? "");
+      return this.parseBackup(decrypted);
+    }
+    return this.parseBackup(text);
+  }
+
+  /**
+   * Parse backup file contents and check format, version, checksum and rows
+   */
+  parseBackup(text: string): BackupBundle {
+    let bundle: any;
+    try {
+      bundle = JSON.parse(text);
+    } catch (error) {
+      throw this.createError(
+        "INVALID_BACKUP",
+        "This file isn't a Gut Rest backup",
+        error
+      );
+    }
+
+    if (!bundle || bundle.format !== BACKUP_FORMAT || !bundle.data) {
+      throw this.createError(
+        "INVALID_BACKUP",
+        "This file isn't a Gut Rest backup"
+      );
+    }
+    if (
+      typeof bundle.formatVersion !== "number" ||
+      bundle.formatVersion > BACKUP_FORMAT_VERSION
+    ) {
+      throw this.createError(
+        "BACKUP_TOO_NEW",
+        "This backup was made by a newer version of the app. Update the app to restore it."
+      );
+    }
+    if (bundle.checksum !== this.computeChecksum(bundle.data)) {
+      throw this.createError(
+        "CHECKSUM_MISMATCH",
+        "This backup is damaged or was modified after it was created"
+      );
+    }
+
+    const data = bundle.data;
+    if (
+      typeof data.schemaVersion !== "number" ||
+      data.schemaVersion > LATEST_SCHEMA_VERSION
+    ) {
+      throw this.createError(
+        "BACKUP_TOO_NEW",
+        "This backup was made by a newer version of the app. Update the app to restore it."
+      );
+    }
+
+    const problems = [
+      ...(Array.isArray(data.entries)
+        ? data.entries.flatMap((entry: unknown, index: number) =>
+            this.validateEntry(entry, index)
+          )
+        : ["Entries are missing"]),
+      ...(Array.isArray(data.categories)
+        ? data.categories.flatMap((category: unknown, index: number) =>
+            this.validateCategory(category, index)
+          )
+        : ["Categories are missing"]),
+      // Older backups have no fasting data, which restores as none
+      ...(data.fastingSessions === undefined
+        ? []
+        : Array.isArray(data.fastingSessions)
+          ? data.fastingSessions.flatMap((session: unknown, index: number) =>
+              this.validateFastingSession(session, index)
+            )
+          : ["Fasting sessions are malformed"]),
+      ...(data.protocolHistory === undefined
+        ? []
+        : Array.isArray(data.protocolHistory)
+          ? data.protocolHistory.flatMap((change: unknown, index: number) =>
+              this.validateProtocolChange(change, index)
+            )
+          : ["Fasting protocol history is malformed"]),
+      ...(data.settings && typeof data.settings === "object"
+        ? []
+        : ["Settings are missing"]),
+    ];
+
+    if (problems.length > 0) {
+      throw this.createError(
+        "INVALID_BACKUP",
+        `The backup contains invalid data: ${problems.slice(0, 3).join("; ")}`,
+        problems
+      );
+    }
+
+    return bundle as BackupBundle;
+  }
+
+  /**
+   * Compare a backup with the data on this device without changing anything
+   */
+  async getRestoreSummary(bundle: BackupBundle): Promise<RestoreSummary> {
+    await databaseService.initialize();
+    const [localEntries, localCategories] = await Promise.all([
+      databaseService.getAllMealEntries(),
+      databaseService.getCategories(),
+    ]);
+
+    const localById = new Map(localEntries.map((entry) => [entry.id, entry]));
+    const backupIds = new Set(bundle.data.entries.map((entry) => entry.id));
+    const localCategoryIds = new Set(
+      localCategories.map((category) => category.id)
+    );
+
+    let newCount = 0;
+    let conflictCount = 0;
+    let unchangedCount = 0;
+
+    for (const entry of bundle.data.entries) {
+      const local = localById.get(entry.id);
+      if (!local) {
+        newCount++;
+      } else if (this.isSameEntry(local, entry)) {
+        unchangedCount++;
+      } else {
+        conflictCount++;
+      }
+    }
+
+    return {
+      backupCreatedAt: bundle.data.createdAt,
+      newCount,
+      conflictCount,
+      unchangedCount,
+      localOnlyCount: localEntries.filter((entry) => !backupIds.has(entry.id))
+        .length,
+      newCategoryCount: bundle.data.categories.filter(
+        (category) => !localCategoryIds.has(category.id)
+      ).length,
+      settingsCount: Object.keys(bundle.data.settings).length,
+    };
+  }
+
+  /**
+   * Restore a validated backup
+   * @param mode "merge" keeps local data and current settings, adding what's
+   * missing; "replace" makes the device match the backup exactly
+   */
+  async restoreBackup(bundle: BackupBundle, mode: RestoreMode): Promise<void> {
+    await databaseService.initialize();
+    await databaseService.restoreBackup(
+      bundle.data.entries,
+      bundle.data.categories,
+      bundle.data.fastingSessions ?? [],
+      bundle.data.protocolHistory ?? [],
+      mode
+    );
+
+    if (mode === "replace") {
+      await storageService.importData(bundle.data.settings, { replace: true });
+    }
+
+    console.log(`[Backup] Backup restored (${mode})`);
+  }
+
+  /**
+   * SHA-256 of the serialized data; key order is preserved by JSON round trips
+   */
+  private computeChecksum(data: BackupData): string {
+    return bytesToHex(sha256(utf8ToBytes(JSON.stringify(data))));
+  }
+
+  private isSameEntry(a: MealEntry, b: MealEntry): boolean {
+    return (
+      a.category === b.category &&
+      a.timestamp === b.timestamp &&
+      // Backups from before offsets were kept get one derived on restore
+      (a.utcOffset === undefined ||
+        b.utcOffset === undefined ||
+        a.utcOffset === b.utcOffset) &&
+      (a.notes || null) === (b.notes || null) &&
+      (a.deletedAt ?? null) === (b.deletedAt ?? null) &&
+      [...(a.tags ?? [])].sort().join(",") ===
+        [...(b.tags ?? [])].sort().join(",")
+    );
+  }
+
+  private validateEntry(entry: any, index: number): string[] {
+    const label = `entry ${index + 1}`;
+    if (!entry || typeof entry !== "object") return [`${label} is malformed`];
+
+    const problems: string[] = [];
+    if (typeof entry.id !== "string" || !entry.id) {
+      problems.push(`${label} has no id`);
+    }
+    if (typeof entry.category !== "string" || !entry.category) {
+      problems.push(`${label} has no category`);
+    }
+    for (const field of ["timestamp", "createdAt", "updatedAt"]) {
+      if (!Number.isFinite(entry[field])) {
+        problems.push(`${label} has an invalid ${field}`);
+      }
+    }
+    if (entry.notes != null && typeof entry.notes !== "string") {
+      problems.push(`${label} has invalid notes`);
+    }
+    if (
+      entry.tags !== undefined &&
+      (!Array.isArray(entry.tags) ||
+        entry.tags.some((tag: unknown) => typeof tag !== "string"))
+    ) {
+      problems.push(`${label} has invalid tags`);
+    }
+    if (entry.deletedAt != null && !Number.isFinite(entry.deletedAt)) {
+      problems.push(`${label} has an invalid deletedAt`);
+    }
+    // Backups made before entries recorded their zone have neither field
+    if (
+      entry.utcOffset !== undefined &&
+      (!Number.isInteger(entry.utcOffset) ||
+        Math.abs(entry.utcOffset) > 14 * 60)
+    ) {
+      problems.push(`${label} has an invalid utcOffset`);
+    }
+    if (entry.timezone !== undefined && typeof entry.timezone !== "string") {
+      problems.push(`${label} has an invalid timezone`);
+    }
+    return problems;
+  }
+
+  private validateCategory(category: any, index: number): string[] {
+    const label = `category ${index + 1}`;
+    if (!category || typeof category !== "object") {
+      return [`${label} is malformed`];
+    }
+
+    const valid =
+      typeof category.id === "string" &&
+      typeof category.label === "string" &&
+      typeof category.icon === "string" &&
+      typeof category.color === "string" &&
+      typeof category.darkColor === "string" &&
+      Number.isFinite(category.order) &&
+      Number.isFinite(category.weight) &&
+      Number.isFinite(category.recommendedGapHours) &&
+      typeof category.breaksFast === "boolean" &&
+      typeof category.isBuiltIn === "boolean";
+
+    return valid ? [] : [`${label} is malformed`];
+  }
+
+  private validateFastingSession(session: any, index: number): string[] {
+    const label = `fasting session ${index + 1}`;
+    if (!session || typeof session !== "object") {
+      return [`${label} is malformed`];
+    }
+
+    const valid =
+      typeof session.id === "string" &&
+      !!session.id &&
+      Number.isFinite(session.startTime) &&
+      (session.endTime === undefined ||
+        (Number.isFinite(session.endTime) &&
+          session.endTime > session.startTime)) &&
+      Number.isFinite(session.goalHours) &&
+      session.goalHours > 0 &&
+      (session.source === "manual" || session.source === "backfill") &&
+      Number.isFinite(session.createdAt) &&
+      Number.isFinite(session.updatedAt);
+
+    return valid ? [] : [`${label} is malformed`];
+  }
+
+  private validateProtocolChange(change: any, index: number): string[] {
+    const label = `fasting protocol change ${index + 1}`;
+    if (!change || typeof change !== "object") {
+      return [`${label} is malformed`];
+    }
+
+    const valid =
+      typeof change.id === "string" &&
+      !!change.id &&
+      (change.protocolId === null || !!getFastingProtocol(change.protocolId)) &&
+      Array.isArray(change.fastDays) &&
+      change.fastDays.every(
+        (day: unknown) =>
+          Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+      ) &&
+      typeof change.effectiveDate === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(change.effectiveDate) &&
+      Number.isFinite(change.createdAt);
+
+    return valid ? [] : [`${label} is malformed`];
+  }
+
+  /**
+   * Create standardized error object
+   */
+  private createError(code: string, message: string, details?: any): AppError {
+    return {
+      code,
+      message,
+      details,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupServiceImpl();
+
+// Export class for testing
+export { BackupServiceImpl };
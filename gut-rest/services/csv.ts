@@ -0,0 +1,538 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+import {
+  AppError,
+  CsvColumnMapping,
+  CsvField,
+  CsvImportPreview,
+  CsvImportRow,
+  MealCategory,
+  MealEntry,
+} from "../types";
+import { getCategoryDefinitions } from "../constants/MealCategories";
+import { databaseService } from "./database";
+import {
+  formatIsoWithOffset,
+  getDateStringFromTimestamp,
+  getDateStringWithOffset,
+} from "./dateUtils";
+import { normalizeTags } from "./tagUtils";
+
+// Column order and header names of exported files
+export const CSV_FIELDS: CsvField[] = [
+  "id",
+  "timestamp",
+  "category",
+  "notes",
+  "tags",
+  "createdAt",
+  "updatedAt",
+];
+
+const CSV_HEADERS: Record<CsvField, string> = {
+  id: "id",
+  timestamp: "timestamp",
+  category: "category",
+  notes: "notes",
+  tags: "tags",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+};
+
+// Header names recognized when suggesting a column mapping
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  id: ["id", "entry_id", "uuid"],
+  timestamp: ["timestamp", "time", "date", "datetime", "eaten_at", "logged_at"],
+  category: ["category", "type", "meal", "meal_type", "food"],
+  notes: ["notes", "note", "comment", "comments", "description"],
+  tags: ["tags", "tag", "labels"],
+  createdAt: ["created_at", "createdat", "created"],
+  updatedAt: ["updated_at", "updatedat", "updated", "modified"],
+};
+
+const TAG_SEPARATOR = ";";
+
+// Allow small clock differences between phones
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+// UTC offset at the end of an ISO 8601 date and time, e.g. +01:00 or Z
+const ISO_OFFSET_PATTERN =
+  /\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|([+-])(\d{2}):?(\d{2}))$/i;
+
+// Leading characters that make spreadsheet apps read a cell as a formula
+const FORMULA_PREFIX_PATTERN = /^[=+\-@]/;
+
+// Date and time without an offset, read as local time
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * CSV export and import of the meal log
+ */
+class CsvServiceImpl {
+  /**
+   * Build CSV text for a list of entries
+   */
+  buildCsv(entries: MealEntry[]): string {
+    const header = CSV_FIELDS.map((field) => CSV_HEADERS[field]).join(",");
+    const lines = entries.map((entry) =>
+      [
+        entry.id,
+        formatIsoWithOffset(entry.timestamp, entry.utcOffset),
+        entry.category,
+        this.neutralizeFormula(entry.notes ?? ""),
+        this.neutralizeFormula((entry.tags ?? []).join(TAG_SEPARATOR)),
+        formatIsoWithOffset(entry.createdAt),
+        formatIsoWithOffset(entry.updatedAt),
+      ]
+        .map(this.escapeField)
+        .join(",")
+    );
+
+    // CRLF line endings as RFC 4180 expects; spreadsheets accept both
+    return [header, ...lines].join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Export entries in a date range to a CSV file and open the share sheet
+   * @param startDate Start date in YYYY-MM-DD format
+   * @param endDate End date in YYYY-MM-DD format
+   * @returns File location, entry count and whether the share sheet was shown
+   */
+  async exportEntries(
+    startDate: string,
+    endDate: string
+  ): Promise<{ uri: string; count: number; shared: boolean }> {
+    try {
+      await databaseService.initialize();
+      const entries = await databaseService.getMealEntriesInRange(
+        startDate,
+        endDate
+      );
+
+      if (entries.length === 0) {
+        throw this.createError(
+          "NOTHING_TO_EXPORT",
+          "There are no entries in this date range"
+        );
+      }
+
+      const uri = `${FileSystem.documentDirectory}gut-rest-${startDate}-to-${endDate}.csv`;
+      await FileSystem.writeAsStringAsync(uri, this.buildCsv(entries), {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      // Without a share sheet the file stays in the app's documents folder
+      const shared = await Sharing.isAvailableAsync();
+      if (shared) {
+        await Sharing.shareAsync(uri, {
+          mimeType: "text/csv",
+          UTI: "public.comma-separated-values-text",
+          dialogTitle: "Export meal log",
+        });
+      }
+
+      console.log(`[CSV] Exported ${entries.length} entries to ${uri}`);
+      return { uri, count: entries.length, shared };
+    } catch (error) {
+      if ((error as AppError)?.code === "NOTHING_TO_EXPORT") throw error;
+
+      console.error("[CSV] Export failed:", error);
+      throw this.createError(
+        "EXPORT_FAILED",
+        "Failed to export meal entries",
+        error
+      );
+    }
+  }
+
+  /**
+   * Let the user pick a CSV file and parse it into rows
+   * @returns Header row and data rows, or null if the picker was cancelled
+   */
+  async pickCsvFile(): Promise<{
+    fileName: string;
+    headers: string[];
+    rows: string[][];
+  } | null> {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || result.assets.length === 0) {
+        return null;
+      }
+
+      const asset = result.assets[0];
+      const text = await FileSystem.readAsStringAsync(asset.uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      const [headers = [], ...rows] = this.parseCsv(text);
+
+      if (headers.length === 0) {
+        throw this.createError("INVALID_CSV", "The file is empty");
+      }
+
+      console.log(`[CSV] Read ${rows.length} rows from ${asset.name}`);
+      return { fileName: asset.name, headers, rows };
+    } catch (error) {
+      if ((error as AppError)?.code === "INVALID_CSV") throw error;
+
+      console.error("[CSV] Failed to read file:", error);
+      throw this.createError(
+        "FILE_READ_FAILED",
+        "Failed to read the selected file",
+        error
+      );
+    }
+  }
+
+  /**
+   * Parse CSV text into rows of fields (RFC 4180, quoted fields may span lines)
+   */
+  parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    // Drop the byte order mark spreadsheets like to add
+    const input = text.replace(/^\uFEFF/, "");
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && input[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== "" || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Blank lines carry no entries
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  }
+
+  /**
+   * Guess which column holds each field from the header names
+   */
+  suggestColumnMapping(headers: string[]): CsvColumnMapping {
+    const normalized = headers.map((header) =>
+      header
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, "_")
+    );
+
+    const mapping = {} as CsvColumnMapping;
+    for (const field of CSV_FIELDS) {
+      const index = normalized.findIndex((header) =>
+        HEADER_ALIASES[field].includes(header)
+      );
+      mapping[field] = index >= 0 ? index : null;
+    }
+    return mapping;
+  }
+
+  /**
+   * Check every row without writing anything
+   * @param rows Data rows without the header
+   * @param mapping Column holding each field
+   * @returns Per-row outcome with counts of new, duplicate and invalid rows
+   */
+  async previewImport(
+    rows: string[][],
+    mapping: CsvColumnMapping
+  ): Promise<CsvImportPreview> {
+    const now = Date.now();
+    const results: CsvImportRow[] = rows.map((cells, index) =>
+      this.parseRow(cells, mapping, index + 2, now)
+    );
+
+    const parsed = results.filter(
+      (row): row is CsvImportRow & { entry: MealEntry } => !!row.entry
+    );
+
+    if (parsed.length > 0) {
+      await databaseService.initialize();
+
+      // Same id as a stored entry, trashed entries included
+      const existingIds = new Set(
+        await databaseService.getExistingEntryIds(
+          parsed.map((row) => row.entry.id)
+        )
+      );
+
+      // Same time and category as a live entry, compared to the second
+      // because exported timestamps drop milliseconds
+      // Spreading a large file into Math.min would overflow the call stack
+      const { earliest, latest } = parsed.reduce(
+        (range, row) => ({
+          earliest: Math.min(range.earliest, row.entry.timestamp),
+          latest: Math.max(range.latest, row.entry.timestamp),
+        }),
+        { earliest: Infinity, latest: -Infinity }
+      );
+      // A day of slack on each side, since entries logged in other zones
+      // can sit on a neighbouring day
+      const existingEntries = await databaseService.getMealEntriesInRange(
+        getDateStringWithOffset(getDateStringFromTimestamp(earliest), -1),
+        getDateStringWithOffset(getDateStringFromTimestamp(latest), 1)
+      );
+      const existingKeys = new Set(existingEntries.map(this.getDuplicateKey));
+
+      // Rows repeated within the file count as duplicates after the first
+      const seenIds = new Set<string>();
+      const seenKeys = new Set<string>();
+
+      for (const row of parsed) {
+        const key = this.getDuplicateKey(row.entry);
+
+        if (existingIds.has(row.entry.id) || seenIds.has(row.entry.id)) {
+          row.status = "duplicate";
+          row.duplicateReason = "id";
+        } else if (existingKeys.has(key) || seenKeys.has(key)) {
+          row.status = "duplicate";
+          row.duplicateReason = "timestamp_category";
+        }
+
+        seenIds.add(row.entry.id);
+        seenKeys.add(key);
+      }
+    }
+
+    const preview: CsvImportPreview = {
+      rows: results,
+      newCount: results.filter((row) => row.status === "new").length,
+      duplicateCount: results.filter((row) => row.status === "duplicate")
+        .length,
+      errorCount: results.filter((row) => row.status === "error").length,
+    };
+
+    console.log(
+      `[CSV] Import preview: ${preview.newCount} new, ${preview.duplicateCount} duplicates, ${preview.errorCount} errors`
+    );
+    return preview;
+  }
+
+  /**
+   * Import the new rows of a preview, skipping duplicates and invalid rows
+   * @returns Number of entries imported
+   */
+  async importEntries(preview: CsvImportPreview): Promise<number> {
+    const entries = preview.rows
+      .filter((row) => row.status === "new" && row.entry)
+      .map((row) => row.entry!);
+
+    await databaseService.initialize();
+    return databaseService.importMealEntries(entries);
+  }
+
+  /**
+   * Turn one CSV row into an entry, collecting every problem found
+   */
+  private parseRow(
+    cells: string[],
+    mapping: CsvColumnMapping,
+    rowNumber: number,
+    now: number
+  ): CsvImportRow {
+    const read = (field: CsvField): string => {
+      const index = mapping[field];
+      return index === null ? "" : (cells[index] ?? "").trim();
+    };
+
+    const errors: string[] = [];
+
+    const rawTimestamp = read("timestamp");
+    const timestamp = rawTimestamp ? this.parseTimestamp(rawTimestamp) : null;
+    if (!rawTimestamp) {
+      errors.push("Missing timestamp");
+    } else if (timestamp === null) {
+      errors.push(`Unrecognized timestamp "${rawTimestamp}"`);
+    } else if (timestamp > now + FUTURE_TOLERANCE_MS) {
+      errors.push("Timestamp is in the future");
+    }
+
+    const rawCategory = read("category");
+    const category = rawCategory ? this.resolveCategory(rawCategory) : null;
+    if (!rawCategory) {
+      errors.push("Missing category");
+    } else if (!category) {
+      errors.push(`Unknown category "${rawCategory}"`);
+    }
+
+    // Optional columns fall back to sensible values when empty
+    const createdAt = this.parseOptionalTimestamp(
+      read("createdAt"),
+      "created_at",
+      errors
+    );
+    const updatedAt = this.parseOptionalTimestamp(
+      read("updatedAt"),
+      "updated_at",
+      errors
+    );
+
+    if (errors.length > 0 || timestamp === null || !category) {
+      return { rowNumber, status: "error", errors };
+    }
+
+    const notes = this.restoreFormula(read("notes"));
+    const entry: MealEntry = {
+      id: read("id") || this.generateId(),
+      category,
+      timestamp,
+      notes: notes || undefined,
+      tags: normalizeTags(this.restoreFormula(read("tags")).split(/[;,]/)),
+      utcOffset: this.parseUtcOffset(rawTimestamp),
+      createdAt: createdAt ?? now,
+      updatedAt: updatedAt ?? createdAt ?? now,
+    };
+
+    return { rowNumber, status: "new", entry, errors };
+  }
+
+  /**
+   * Read a timestamp as ISO 8601, local "YYYY-MM-DD HH:MM" or epoch milliseconds
+   */
+  private parseTimestamp(value: string): number | null {
+    if (/^\d{12,}$/.test(value)) {
+      return Number(value);
+    }
+
+    const local = value.match(LOCAL_DATE_TIME_PATTERN);
+    if (local) {
+      const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] =
+        local;
+      const date = new Date(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hours),
+        Number(minutes),
+        Number(seconds)
+      );
+      return isNaN(date.getTime()) ? null : date.getTime();
+    }
+
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Read the UTC offset written into an ISO 8601 timestamp
+   * @returns Minutes east of UTC, or undefined when the time has no offset
+   */
+  private parseUtcOffset(value: string): number | undefined {
+    const match = value.match(ISO_OFFSET_PATTERN);
+    if (!match) return undefined;
+
+    const [, zone, sign, hours, minutes] = match;
+    if (zone.toUpperCase() === "Z") return 0;
+    const offset = Number(hours) * 60 + Number(minutes);
+    return sign === "-" ? -offset : offset;
+  }
+
+  private parseOptionalTimestamp(
+    value: string,
+    column: string,
+    errors: string[]
+  ): number | null {
+    if (!value) return null;
+
+    const timestamp = this.parseTimestamp(value);
+    if (timestamp === null) {
+      errors.push(`Unrecognized ${column} "${value}"`);
+    }
+    return timestamp;
+  }
+
+  /**
+   * Match a category by id or by label, archived categories included
+   */
+  private resolveCategory(value: string): MealCategory | null {
+    const lower = value.toLowerCase();
+    const match = getCategoryDefinitions(true).find(
+      (category) =>
+        category.id === value || category.label.toLowerCase() === lower
+    );
+    return match ? match.id : null;
+  }
+
+  private getDuplicateKey(entry: MealEntry): string {
+    return `${Math.floor(entry.timestamp / 1000)}|${entry.category}`;
+  }
+
+  /**
+   * Quote a field when it contains separators, quotes or line breaks
+   */
+  private escapeField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  /**
+   * Prefix text that spreadsheet apps would run as a formula with an apostrophe
+   */
+  private neutralizeFormula(value: string): string {
+    return FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : value;
+  }
+
+  /**
+   * Drop the apostrophe neutralizeFormula added, so exports round-trip
+   */
+  private restoreFormula(value: string): string {
+    return value.startsWith("'") && FORMULA_PREFIX_PATTERN.test(value.slice(1))
+      ? value.slice(1)
+      : value;
+  }
+
+  private generateId(): string {
+    return `meal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create standardized error object
+   */
+  private createError(code: string, message: string, details?: any): AppError {
+    return {
+      code,
+      message,
+      details,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// Export singleton instance
+export const csvService = new CsvServiceImpl();
+
+// Export class for testing
+export { CsvServiceImpl };
@@ -6,9 +6,66 @@ import {
   TimeGap,
   FastingWindow,
   AppError,
+  SchemaStatus,
+  MigrationStatus,
+  EntryRevision,
+  MealEntrySnapshot,
+  RevisionAction,
+  CategoryDefinition,
+  CategoryInput,
+  Tag,
+  RestoreMode,
+  FastingSession,
+  FastingSessionUpdate,
+  FastingProtocolChange,
+  FastingProtocolId,
 } from "../types";
-import { createDateRange, getDateStringWithOffset } from "./dateUtils";
-import { doesCategoryBreakFasting } from "../constants/MealCategories";
+import {
+  createDateRange,
+  getCurrentTimeZone,
+  getDateStringWithOffset,
+  getDaysBetween,
+  getEntryDateString,
+  getTimeZoneChanges,
+  getUtcOffsetMinutes,
+  getWallClockDayBounds,
+} from "./dateUtils";
+import { normalizeTags } from "./tagUtils";
+import {
+  doesCategoryBreakFasting,
+  setCategoryRegistry,
+} from "../constants/MealCategories";
+import { DEFAULT_FASTING_GOAL_HOURS } from "../constants/Settings";
+import {
+  MAX_OVERNIGHT_FAST_HOURS,
+  MAX_SESSION_GOAL_HOURS,
+  MIN_SESSION_GOAL_HOURS,
+  getFastingProtocol,
+} from "../constants/Fasting";
+import { TimeCalculationService } from "./TimeCalculationService";
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  NOTES_FTS_TABLE,
+  validateMigrations,
+} from "./migrations";
+
+// Upper bound on search results so a broad query stays responsive
+const SEARCH_RESULT_LIMIT = 200;
+
+const MAX_CATEGORY_LABEL_LENGTH = 30;
+
+// Allow small clock differences when a session is started or ended "now"
+const SESSION_CLOCK_TOLERANCE_MS = 60 * 1000;
+
+// UTC offsets run from -12:00 to +14:00, so an entry's wall clock is never
+// further than this from its timestamp
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+// Entries whose wall clock (timestamp shifted by their own offset) falls in a
+// range; the plain timestamp bounds let the index narrow the scan first
+const WALL_CLOCK_RANGE_CONDITION =
+  "timestamp >= ? AND timestamp < ? AND timestamp + utc_offset * 60000 >= ? AND timestamp + utc_offset * 60000 < ?";
 
 /**
  * SQLite database service implementation for GutRest app
@@ -16,9 +73,11 @@ import { doesCategoryBreakFasting } from "../constants/MealCategories";
 class DatabaseServiceImpl implements DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
   private isInitialized = false;
+  private failedMigration: { version: number; message: string } | null = null;
+  private hasNotesIndex = false;
 
   /**
-   * Initialize the database and create tables with indexes
+   * Initialize the database and apply schema migrations
    */
   async initialize(): Promise<void> {
     try {
@@ -31,11 +90,10 @@ class DatabaseServiceImpl implements DatabaseService {
       this.db = await SQLite.openDatabaseAsync("gutrest.db");
       console.log("[Database] Database opened successfully");
 
-      // Run migrations first to handle existing data
+      // Bring the schema up to the latest version
       await this.runMigrations();
-
-      // Create tables
-      await this.createTables();
+      this.hasNotesIndex = await this.detectNotesIndex();
+      await this.loadCategoryRegistry();
 
       this.isInitialized = true;
       console.log("[Database] Initialization completed");
@@ -50,102 +108,119 @@ class DatabaseServiceImpl implements DatabaseService {
   }
 
   /**
-   * Create database tables and indexes
+   * Apply pending schema migrations in version order
+   * Each migration runs in its own transaction and rolls back on failure
    */
-  private async createTables(): Promise<void> {
+  private async runMigrations(): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
-    // Create meal_entries table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS meal_entries (
-        id TEXT PRIMARY KEY,
-        category TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        notes TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-    `);
+    const db = this.db;
+    validateMigrations(MIGRATIONS);
+    this.failedMigration = null;
+
+    const currentVersion = await this.getSchemaVersion();
+    const pending = MIGRATIONS.filter((m) => m.version > currentVersion);
+
+    if (pending.length === 0) {
+      console.log(`[Database] Schema up to date (v${currentVersion})`);
+      return;
+    }
+
+    for (const migration of pending) {
+      try {
+        console.log(
+          `[Database] Applying migration ${migration.version} (${migration.name})`
+        );
 
-    // Create indexes for performance
-    await this.db.execAsync(`
-      CREATE INDEX IF NOT EXISTS idx_meal_entries_timestamp
-      ON meal_entries(timestamp);
-    `);
+        await db.withTransactionAsync(async () => {
+          await migration.up(db);
+          // user_version is transactional, so it rolls back with the migration
+          await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+        });
+      } catch (error) {
+        console.error(
+          `[Database] Migration ${migration.version} failed, rolled back:`,
+          error
+        );
+        this.failedMigration = {
+          version: migration.version,
+          message: error instanceof Error ? error.message : String(error),
+        };
+        throw this.createError(
+          "MIGRATION_FAILED",
+          `Failed to apply migration ${migration.version} (${migration.name})`,
+          error
+        );
+      }
+    }
 
-    console.log("[Database] Tables and indexes created successfully");
+    console.log(
+      `[Database] Schema migrated from v${currentVersion} to v${LATEST_SCHEMA_VERSION}`
+    );
   }
 
   /**
-   * Run database migrations to handle schema changes
+   * Check whether the FTS5 notes index was created by the migrations
    */
-  private async runMigrations(): Promise<void> {
+  private async detectNotesIndex(): Promise<boolean> {
     if (!this.db) throw new Error("Database not initialized");
 
-    try {
-      // Check if the old table with date column exists
-      const tableInfo = await this.db.getAllAsync(`
-        SELECT name FROM sqlite_master
-        WHERE type='table' AND name='meal_entries'
-      `);
+    const row = await this.db.getFirstAsync(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name = ?",
+      [NOTES_FTS_TABLE]
+    );
+    if (!row) {
+      console.log("[Database] Notes search using LIKE fallback");
+    }
+    return !!row;
+  }
 
-      if (tableInfo.length > 0) {
-        // Check if the table has the old date column
-        const columnInfo = await this.db.getAllAsync(`
-          PRAGMA table_info(meal_entries)
-        `);
+  /**
+   * Read the applied schema version from PRAGMA user_version
+   */
+  private async getSchemaVersion(): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
 
-        const hasDateColumn = columnInfo.some(
-          (col: any) => col.name === "date"
-        );
+    const row = await this.db.getFirstAsync<{ user_version: number }>(
+      "PRAGMA user_version"
+    );
+    return row?.user_version ?? 0;
+  }
 
-        if (hasDateColumn) {
-          console.log("[Database] Migrating schema - removing date column");
-
-          // First, clean up any existing temporary table from previous failed migrations
-          await this.db.execAsync(`DROP TABLE IF EXISTS meal_entries_new;`);
-
-          // Create new table without date column
-          await this.db.execAsync(`
-            CREATE TABLE meal_entries_new (
-              id TEXT PRIMARY KEY,
-              category TEXT NOT NULL,
-              timestamp INTEGER NOT NULL,
-              notes TEXT,
-              created_at INTEGER NOT NULL,
-              updated_at INTEGER NOT NULL
-            );
-          `);
-
-          // Copy data from old table to new table (excluding date column)
-          await this.db.execAsync(`
-            INSERT INTO meal_entries_new (id, category, timestamp, notes, created_at, updated_at)
-            SELECT id, category, timestamp, notes, created_at, updated_at
-            FROM meal_entries;
-          `);
-
-          // Drop old table
-          await this.db.execAsync(`DROP TABLE meal_entries;`);
-
-          // Rename new table to original name
-          await this.db.execAsync(`
-            ALTER TABLE meal_entries_new RENAME TO meal_entries;
-          `);
-
-          // Recreate indexes
-          await this.db.execAsync(`
-            CREATE INDEX IF NOT EXISTS idx_meal_entries_timestamp
-            ON meal_entries(timestamp);
-          `);
-
-          console.log("[Database] Schema migration completed successfully");
-        }
-      }
+  /**
+   * Get migration state for debugging
+   */
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const currentVersion = await this.getSchemaVersion();
+
+      return {
+        currentVersion,
+        latestVersion: LATEST_SCHEMA_VERSION,
+        migrations: MIGRATIONS.map((migration): MigrationStatus => {
+          const { version, name } = migration;
+
+          if (version <= currentVersion) {
+            return { version, name, state: "applied" };
+          }
+          if (this.failedMigration?.version === version) {
+            return {
+              version,
+              name,
+              state: "failed",
+              error: this.failedMigration.message,
+            };
+          }
+          return { version, name, state: "pending" };
+        }),
+      };
     } catch (error) {
-      console.error("[Database] Migration failed:", error);
+      console.error("[Database] Get schema status failed:", error);
       throw this.createError(
-        "MIGRATION_FAILED",
-        "Failed to migrate database schema",
+        "QUERY_FAILED",
+        "Failed to retrieve schema status",
         error
       );
     }
@@ -161,26 +236,42 @@ class DatabaseServiceImpl implements DatabaseService {
       const id = this.generateId();
       const now = Date.now();
 
+      // New entries are logged in the device's current zone
       const mealEntry: MealEntry = {
         id,
         ...entry,
+        tags: normalizeTags(entry.tags ?? []),
+        utcOffset: entry.utcOffset ?? getUtcOffsetMinutes(entry.timestamp),
+        timezone: entry.timezone ?? getCurrentTimeZone(),
         createdAt: now,
         updatedAt: now,
       };
 
-      await this.db.runAsync(
-        `INSERT INTO meal_entries
-         (id, category, timestamp, notes, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [
-          mealEntry.id,
-          mealEntry.category,
-          mealEntry.timestamp,
-          mealEntry.notes || null,
-          mealEntry.createdAt,
-          mealEntry.updatedAt,
-        ]
-      );
+      await this.db.withTransactionAsync(async () => {
+        await this.db!.runAsync(
+          `INSERT INTO meal_entries
+           (id, category, timestamp, notes, utc_offset, timezone, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            mealEntry.id,
+            mealEntry.category,
+            mealEntry.timestamp,
+            mealEntry.notes || null,
+            mealEntry.utcOffset ?? null,
+            mealEntry.timezone ?? null,
+            mealEntry.createdAt,
+            mealEntry.updatedAt,
+          ]
+        );
+        await this.setEntryTags(id, mealEntry.tags ?? []);
+        await this.recordRevision(
+          id,
+          "insert",
+          null,
+          this.toSnapshot(mealEntry),
+          now
+        );
+      });
 
       console.log("[Database] Meal entry inserted:", id);
       return mealEntry;
@@ -195,7 +286,7 @@ class DatabaseServiceImpl implements DatabaseService {
   }
 
   /**
-   * Update an existing meal entry
+   * Update an existing meal entry and record the change in its history
    */
   async updateMealEntry(
     id: string,
@@ -205,8 +296,8 @@ class DatabaseServiceImpl implements DatabaseService {
 
     try {
       const updatedAt = Date.now();
-      const setClause = [];
-      const values = [];
+      const setClause: string[] = [];
+      const values: (string | number | null)[] = [];
 
       // Build dynamic UPDATE query
       if (updates.category !== undefined) {
@@ -219,33 +310,58 @@ class DatabaseServiceImpl implements DatabaseService {
       }
       if (updates.notes !== undefined) {
         setClause.push("notes = ?");
-        values.push(updates.notes);
+        values.push(updates.notes || null);
+      }
+      if (updates.utcOffset !== undefined) {
+        setClause.push("utc_offset = ?", "timezone = ?");
+        values.push(updates.utcOffset, updates.timezone ?? null);
       }
 
       setClause.push("updated_at = ?");
       values.push(updatedAt, id);
 
-      if (setClause.length === 1) {
+      const tags =
+        updates.tags !== undefined ? normalizeTags(updates.tags) : undefined;
+
+      if (setClause.length === 1 && tags === undefined) {
         // Only updated_at to change, no actual updates
         return;
       }
 
-      const query = `UPDATE meal_entries SET ${setClause.join(
-        ", "
-      )} WHERE id = ?`;
-      const result = await this.db.runAsync(query, values);
+      await this.db.withTransactionAsync(async () => {
+        const existing = await this.getMealEntryById(id);
+        if (!existing) {
+          throw this.createError(
+            "ENTRY_NOT_FOUND",
+            `Meal entry with id ${id} not found`
+          );
+        }
 
-      if (result.changes === 0) {
-        throw this.createError(
-          "ENTRY_NOT_FOUND",
-          `Meal entry with id ${id} not found`
-        );
-      }
+        const before = this.toSnapshot(existing);
+        const after = this.toSnapshot({
+          ...existing,
+          ...updates,
+          tags: tags ?? existing.tags,
+        });
+        if (this.isSameSnapshot(before, after)) {
+          // Nothing actually changed, keep the history free of no-op revisions
+          return;
+        }
+
+        const query = `UPDATE meal_entries SET ${setClause.join(
+          ", "
+        )} WHERE id = ? AND deleted_at IS NULL`;
+        await this.db!.runAsync(query, values);
+        if (tags !== undefined) {
+          await this.setEntryTags(id, tags);
+        }
+        await this.recordRevision(id, "update", before, after, updatedAt);
+      });
 
       console.log("[Database] Meal entry updated:", id);
     } catch (error) {
       console.error("[Database] Update failed:", error);
-      throw error instanceof Error && error.message.includes("ENTRY_NOT_FOUND")
+      throw this.isNotFoundError(error)
         ? error
         : this.createError(
             "UPDATE_FAILED",
@@ -256,28 +372,40 @@ class DatabaseServiceImpl implements DatabaseService {
   }
 
   /**
-   * Delete a meal entry
+   * Soft delete a meal entry by moving it to the trash
    */
   async deleteMealEntry(id: string): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      const result = await this.db.runAsync(
-        "DELETE FROM meal_entries WHERE id = ?",
-        [id]
-      );
+      const deletedAt = Date.now();
+
+      await this.db.withTransactionAsync(async () => {
+        const existing = await this.getMealEntryById(id);
+        if (!existing) {
+          throw this.createError(
+            "ENTRY_NOT_FOUND",
+            `Meal entry with id ${id} not found`
+          );
+        }
 
-      if (result.changes === 0) {
-        throw this.createError(
-          "ENTRY_NOT_FOUND",
-          `Meal entry with id ${id} not found`
+        await this.db!.runAsync(
+          "UPDATE meal_entries SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL",
+          [deletedAt, id]
         );
-      }
+        await this.recordRevision(
+          id,
+          "delete",
+          this.toSnapshot(existing),
+          null,
+          deletedAt
+        );
+      });
 
-      console.log("[Database] Meal entry deleted:", id);
+      console.log("[Database] Meal entry moved to trash:", id);
     } catch (error) {
       console.error("[Database] Delete failed:", error);
-      throw error instanceof Error && error.message.includes("ENTRY_NOT_FOUND")
+      throw this.isNotFoundError(error)
         ? error
         : this.createError(
             "DELETE_FAILED",
@@ -288,239 +416,1386 @@ class DatabaseServiceImpl implements DatabaseService {
   }
 
   /**
-   * Get a single meal entry by ID
+   * Restore a meal entry from the trash
    */
-  async getMealEntryById(id: string): Promise<MealEntry | null> {
+  async restoreMealEntry(id: string): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      const rows = await this.db.getAllAsync(
-        "SELECT * FROM meal_entries WHERE id = ?",
-        [id]
-      );
+      await this.db.withTransactionAsync(async () => {
+        const row = await this.db!.getFirstAsync(
+          "SELECT * FROM meal_entries WHERE id = ? AND deleted_at IS NOT NULL",
+          [id]
+        );
+        if (!row) {
+          throw this.createError(
+            "ENTRY_NOT_FOUND",
+            `Deleted meal entry with id ${id} not found`
+          );
+        }
 
-      if (rows.length === 0) {
-        return null;
-      }
+        await this.db!.runAsync(
+          "UPDATE meal_entries SET deleted_at = NULL WHERE id = ?",
+          [id]
+        );
+        await this.recordRevision(
+          id,
+          "restore",
+          null,
+          this.toSnapshot(
+            (await this.attachTags([this.mapRowToMealEntry(row)]))[0]
+          ),
+          Date.now()
+        );
+      });
 
-      return this.mapRowToMealEntry(rows[0]);
+      console.log("[Database] Meal entry restored:", id);
     } catch (error) {
-      console.error("[Database] Get meal entry by ID failed:", error);
-      throw this.createError(
-        "QUERY_FAILED",
-        "Failed to retrieve meal entry by ID",
-        error
-      );
+      console.error("[Database] Restore failed:", error);
+      throw this.isNotFoundError(error)
+        ? error
+        : this.createError(
+            "RESTORE_FAILED",
+            "Failed to restore meal entry",
+            error
+          );
     }
   }
 
   /**
-   * Get meal entries for a specific date using timestamp range
+   * Permanently delete a meal entry that is in the trash
    */
-  async getMealEntriesByDate(date: string): Promise<MealEntry[]> {
+  async purgeMealEntry(id: string): Promise<void> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      // Convert date string to timestamp range (start and end of day)
-      const dateObj = new Date(date);
-      const startOfDay = new Date(dateObj);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(dateObj);
-      endOfDay.setHours(23, 59, 59, 999);
+      await this.db.withTransactionAsync(async () => {
+        const result = await this.db!.runAsync(
+          "DELETE FROM meal_entries WHERE id = ? AND deleted_at IS NOT NULL",
+          [id]
+        );
+
+        if (result.changes === 0) {
+          throw this.createError(
+            "ENTRY_NOT_FOUND",
+            `Deleted meal entry with id ${id} not found`
+          );
+        }
+
+        await this.db!.runAsync(
+          "DELETE FROM entry_revisions WHERE entry_id = ?",
+          [id]
+        );
+        await this.db!.runAsync("DELETE FROM entry_tags WHERE entry_id = ?", [
+          id,
+        ]);
+      });
+
+      console.log("[Database] Meal entry purged:", id);
+    } catch (error) {
+      console.error("[Database] Purge failed:", error);
+      throw this.isNotFoundError(error)
+        ? error
+        : this.createError("PURGE_FAILED", "Failed to purge meal entry", error);
+    }
+  }
+
+  /**
+   * Get all meal entries in the trash, most recently deleted first
+   */
+  async getDeletedMealEntries(): Promise<MealEntry[]> {
+    if (!this.db) throw new Error("Database not initialized");
 
+    try {
       const rows = await this.db.getAllAsync(
-        "SELECT * FROM meal_entries WHERE timestamp >= ? AND timestamp <= ? ORDER BY timestamp ASC",
-        [startOfDay.getTime(), endOfDay.getTime()]
+        "SELECT * FROM meal_entries WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC"
       );
 
-      return rows.map(this.mapRowToMealEntry);
+      return await this.attachTags(rows.map(this.mapRowToMealEntry));
     } catch (error) {
-      console.error("[Database] Get entries by date failed:", error);
+      console.error("[Database] Get deleted entries failed:", error);
       throw this.createError(
         "QUERY_FAILED",
-        "Failed to retrieve meal entries",
+        "Failed to retrieve deleted meal entries",
         error
       );
     }
   }
 
   /**
-   * Get meal entries within a date range using timestamps
+   * Permanently delete trashed entries deleted before the given timestamp
+   * @returns Number of purged entries
    */
-  async getMealEntriesInRange(
-    startDate: string,
-    endDate: string
-  ): Promise<MealEntry[]> {
+  async purgeDeletedEntries(deletedBefore: number): Promise<number> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      // Convert date strings to timestamp ranges
-      const startDateObj = new Date(startDate);
-      startDateObj.setHours(0, 0, 0, 0);
-      const endDateObj = new Date(endDate);
-      endDateObj.setHours(23, 59, 59, 999);
+      let purged = 0;
+
+      await this.db.withTransactionAsync(async () => {
+        // Drop history and tags first while the purged entries can still be matched
+        for (const table of ["entry_revisions", "entry_tags"]) {
+          await this.db!.runAsync(
+            `DELETE FROM ${table} WHERE entry_id IN (
+               SELECT id FROM meal_entries WHERE deleted_at IS NOT NULL AND deleted_at < ?
+             )`,
+            [deletedBefore]
+          );
+        }
+        const result = await this.db!.runAsync(
+          "DELETE FROM meal_entries WHERE deleted_at IS NOT NULL AND deleted_at < ?",
+          [deletedBefore]
+        );
+        purged = result.changes;
+      });
+
+      if (purged > 0) {
+        console.log(`[Database] Purged ${purged} deleted entries`);
+      }
+      return purged;
+    } catch (error) {
+      console.error("[Database] Purge deleted entries failed:", error);
+      throw this.createError(
+        "PURGE_FAILED",
+        "Failed to purge deleted meal entries",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the revision history of a meal entry, newest first
+   */
+  async getEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+    if (!this.db) throw new Error("Database not initialized");
 
+    try {
       const rows = await this.db.getAllAsync(
-        "SELECT * FROM meal_entries WHERE timestamp >= ? AND timestamp <= ? ORDER BY timestamp ASC",
-        [startDateObj.getTime(), endDateObj.getTime()]
+        "SELECT * FROM entry_revisions WHERE entry_id = ? ORDER BY created_at DESC, rowid DESC",
+        [entryId]
       );
 
-      return rows.map(this.mapRowToMealEntry);
+      return rows.map(this.mapRowToRevision);
     } catch (error) {
-      console.error("[Database] Get entries in range failed:", error);
+      console.error("[Database] Get entry revisions failed:", error);
       throw this.createError(
         "QUERY_FAILED",
-        "Failed to retrieve meal entries in range",
+        "Failed to retrieve entry revisions",
         error
       );
     }
   }
 
   /**
-   * Get daily summary with gaps and fasting window
+   * Search live meal entries by their notes, newest first
+   * Uses the FTS5 index when available and LIKE matching otherwise
    */
-  async getDailySummary(date: string): Promise<DailySummary> {
-    const entries = await this.getMealEntriesByDate(date);
+  async searchMealEntries(query: string): Promise<MealEntry[]> {
+    if (!this.db) throw new Error("Database not initialized");
 
-    const summary: DailySummary = {
-      date,
-      entries,
-      totalEntries: entries.length,
-      gaps: [],
-    };
+    const terms = query.trim().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+      return [];
+    }
 
-    if (entries.length > 0) {
-      summary.firstIntake = entries[0].timestamp;
-      summary.lastIntake = entries[entries.length - 1].timestamp;
+    try {
+      let rows: any[];
+
+      if (this.hasNotesIndex) {
+        // Quote each term so user input can't inject FTS syntax, then prefix-match
+        const matchQuery = terms
+          .map((term) => `"${term.replace(/"/g, '""')}"*`)
+          .join(" ");
+
+        rows = await this.db.getAllAsync(
+          `SELECT m.* FROM meal_entries m
+           JOIN ${NOTES_FTS_TABLE} f ON f.rowid = m.rowid
+           WHERE ${NOTES_FTS_TABLE} MATCH ? AND m.deleted_at IS NULL
+           ORDER BY m.timestamp DESC
+           LIMIT ?`,
+          [matchQuery, SEARCH_RESULT_LIMIT]
+        );
+      } else {
+        const conditions = terms.map(() => "notes LIKE ? ESCAPE '\\'");
+        const patterns = terms.map(
+          (term) => `%${term.replace(/[\\%_]/g, "\\$&")}%`
+        );
 
-      // Calculate gaps between entries
-      summary.gaps = this.calculateTimeGaps(entries);
+        rows = await this.db.getAllAsync(
+          `SELECT * FROM meal_entries
+           WHERE ${conditions.join(" AND ")} AND deleted_at IS NULL
+           ORDER BY timestamp DESC
+           LIMIT ?`,
+          [...patterns, SEARCH_RESULT_LIMIT]
+        );
+      }
 
-      // Calculate fasting window (overnight fasting)
-      summary.fastingWindow = await this.calculateFastingWindow(date, entries);
+      return await this.attachTags(rows.map(this.mapRowToMealEntry));
+    } catch (error) {
+      console.error("[Database] Search meal entries failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to search meal entries",
+        error
+      );
     }
-
-    return summary;
   }
 
   /**
-   * Get weekly summaries starting from a date
+   * Get tags used by live entries, most used first
    */
-  async getWeeklySummaries(startDate: string): Promise<DailySummary[]> {
-    const summaries: DailySummary[] = [];
-    const start = new Date(startDate);
+  async getTags(): Promise<Tag[]> {
+    if (!this.db) throw new Error("Database not initialized");
 
-    const dateStrings = createDateRange(startDate, 7);
+    try {
+      const rows = await this.db.getAllAsync<{
+        id: string;
+        name: string;
+        usage_count: number;
+      }>(
+        `SELECT t.id, t.name, COUNT(m.id) AS usage_count
+         FROM tags t
+         JOIN entry_tags et ON et.tag_id = t.id
+         JOIN meal_entries m ON m.id = et.entry_id AND m.deleted_at IS NULL
+         GROUP BY t.id
+         ORDER BY usage_count DESC, t.name ASC`
+      );
 
-    for (const dateStr of dateStrings) {
-      const summary = await this.getDailySummary(dateStr);
-      summaries.push(summary);
+      return rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        usageCount: row.usage_count,
+      }));
+    } catch (error) {
+      console.error("[Database] Get tags failed:", error);
+      throw this.createError("QUERY_FAILED", "Failed to retrieve tags", error);
     }
-
-    return summaries;
   }
 
   /**
-   * Get table schemas for debugging
+   * Get a single meal entry by ID
    */
-  async getTableSchemas(): Promise<{ name: string; sql: string }[]> {
+  async getMealEntryById(id: string): Promise<MealEntry | null> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
       const rows = await this.db.getAllAsync(
-        "SELECT name, sql FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'"
+        "SELECT * FROM meal_entries WHERE id = ? AND deleted_at IS NULL",
+        [id]
       );
 
-      return rows.map((row: any) => ({
-        name: row.name,
-        sql: row.sql,
-      }));
+      if (rows.length === 0) {
+        return null;
+      }
+
+      const [entry] = await this.attachTags([this.mapRowToMealEntry(rows[0])]);
+      return entry;
     } catch (error) {
-      console.error("[Database] Get table schemas failed:", error);
+      console.error("[Database] Get meal entry by ID failed:", error);
       throw this.createError(
         "QUERY_FAILED",
-        "Failed to retrieve table schemas",
+        "Failed to retrieve meal entry by ID",
         error
       );
     }
   }
 
   /**
-   * Get table data for debugging
+   * Get meal entries for a specific date
+   * The day runs from the configured day start hour, not necessarily midnight,
+   * on the wall clock of the zone each entry was logged in
    */
-  async getTableData(
-    tableName: string
-  ): Promise<{ columns: string[]; rows: any[] }> {
+  async getMealEntriesByDate(date: string): Promise<MealEntry[]> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      // Get column information
-      const columnInfo = await this.db.getAllAsync(
-        `PRAGMA table_info(${tableName})`
-      );
-      const columns = columnInfo.map((col: any) => col.name);
+      const { start, end } = getWallClockDayBounds(date);
 
-      // Get all data from the table
-      const rows = await this.db.getAllAsync(`SELECT * FROM ${tableName}`);
+      const rows = await this.db.getAllAsync(
+        `SELECT * FROM meal_entries WHERE ${WALL_CLOCK_RANGE_CONDITION} AND deleted_at IS NULL ORDER BY timestamp ASC`,
+        this.getWallClockRangeParams(start, end)
+      );
 
-      return {
-        columns,
-        rows,
-      };
+      return await this.attachTags(rows.map(this.mapRowToMealEntry));
     } catch (error) {
-      console.error("[Database] Get table data failed:", error);
+      console.error("[Database] Get entries by date failed:", error);
       throw this.createError(
         "QUERY_FAILED",
-        `Failed to retrieve data from table ${tableName}`,
+        "Failed to retrieve meal entries",
         error
       );
     }
   }
 
   /**
-   * Clear all data from database (for debugging)
+   * Get meal entries within a date range, bucketed like getMealEntriesByDate
    */
-  async clearAllData(): Promise<void> {
+  async getMealEntriesInRange(
+    startDate: string,
+    endDate: string
+  ): Promise<MealEntry[]> {
     if (!this.db) throw new Error("Database not initialized");
 
     try {
-      // Get all table names except sqlite system tables
-      const tables = await this.db.getAllAsync(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'"
-      );
+      // From the start of the first day to the end of the last
+      const { start } = getWallClockDayBounds(startDate);
+      const { end } = getWallClockDayBounds(endDate);
 
-      // Delete all data from each table
-      for (const table of tables) {
-        await this.db.runAsync(`DELETE FROM ${(table as any).name}`);
-      }
+      const rows = await this.db.getAllAsync(
+        `SELECT * FROM meal_entries WHERE ${WALL_CLOCK_RANGE_CONDITION} AND deleted_at IS NULL ORDER BY timestamp ASC`,
+        this.getWallClockRangeParams(start, end)
+      );
 
-      console.log("[Database] All data cleared successfully");
+      return await this.attachTags(rows.map(this.mapRowToMealEntry));
     } catch (error) {
-      console.error("[Database] Clear all data failed:", error);
+      console.error("[Database] Get entries in range failed:", error);
       throw this.createError(
-        "DELETE_FAILED",
-        "Failed to clear database data",
+        "QUERY_FAILED",
+        "Failed to retrieve meal entries in range",
         error
       );
     }
   }
 
   /**
-   * Close database connection
+   * Find which of the given ids already belong to an entry, including trashed ones
    */
-  async close(): Promise<void> {
-    if (this.db) {
-      await this.db.closeAsync();
-      this.db = null;
-      this.isInitialized = false;
-      console.log("[Database] Connection closed");
+  async getExistingEntryIds(ids: string[]): Promise<string[]> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (ids.length === 0) return [];
+
+    try {
+      const existing: string[] = [];
+      // Stay well below SQLite's bound parameter limit
+      for (let i = 0; i < ids.length; i += 500) {
+        const chunk = ids.slice(i, i + 500);
+        const rows = await this.db.getAllAsync<{ id: string }>(
+          `SELECT id FROM meal_entries WHERE id IN (${chunk
+            .map(() => "?")
+            .join(", ")})`,
+          chunk
+        );
+        existing.push(...rows.map((row) => row.id));
+      }
+      return existing;
+    } catch (error) {
+      console.error("[Database] Get existing entry ids failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to check existing meal entries",
+        error
+      );
     }
   }
 
   /**
-   * Calculate time gaps between consecutive meal entries
+   * Insert entries from an import as-is, keeping their ids and timestamps
+   * @returns Number of entries inserted
    */
-  private calculateTimeGaps(entries: MealEntry[]): TimeGap[] {
+  async importMealEntries(entries: MealEntry[]): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+    if (entries.length === 0) return 0;
+
+    try {
+      const now = Date.now();
+
+      await this.db.withTransactionAsync(async () => {
+        for (const entry of entries) {
+          const mealEntry: MealEntry = {
+            ...this.withUtcOffset(entry),
+            tags: normalizeTags(entry.tags ?? []),
+          };
+
+          await this.db!.runAsync(
+            `INSERT INTO meal_entries
+             (id, category, timestamp, notes, utc_offset, timezone, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              mealEntry.id,
+              mealEntry.category,
+              mealEntry.timestamp,
+              mealEntry.notes || null,
+              mealEntry.utcOffset ?? null,
+              mealEntry.timezone ?? null,
+              mealEntry.createdAt,
+              mealEntry.updatedAt,
+            ]
+          );
+          await this.setEntryTags(mealEntry.id, mealEntry.tags ?? []);
+          await this.recordRevision(
+            mealEntry.id,
+            "insert",
+            null,
+            this.toSnapshot(mealEntry),
+            now
+          );
+        }
+      });
+
+      console.log(`[Database] Imported ${entries.length} meal entries`);
+      return entries.length;
+    } catch (error) {
+      console.error("[Database] Import failed:", error);
+      throw this.createError(
+        "IMPORT_FAILED",
+        "Failed to import meal entries",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get every entry, trashed ones included, oldest first
+   */
+  async getAllMealEntries(): Promise<MealEntry[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const rows = await this.db.getAllAsync(
+        "SELECT * FROM meal_entries ORDER BY timestamp ASC"
+      );
+      return await this.attachTags(rows.map(this.mapRowToMealEntry));
+    } catch (error) {
+      console.error("[Database] Get all entries failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve meal entries",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the earliest live entry, where the user's history begins
+   */
+  async getFirstMealEntry(): Promise<MealEntry | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const row = await this.db.getFirstAsync(
+        "SELECT * FROM meal_entries WHERE deleted_at IS NULL ORDER BY timestamp ASC LIMIT 1"
+      );
+      return row ? this.mapRowToMealEntry(row) : null;
+    } catch (error) {
+      console.error("[Database] Get first entry failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve your first meal entry",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the latest live entry, whichever day it was logged on
+   * @param breaksFastOnly Skip entries whose category doesn't break a fast
+   */
+  async getLatestMealEntry(breaksFastOnly = false): Promise<MealEntry | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      // Unknown categories break a fast, like getCategoryDefinition's placeholder
+      const row = await this.db.getFirstAsync(
+        breaksFastOnly
+          ? `SELECT m.* FROM meal_entries m
+             LEFT JOIN categories c ON c.id = m.category
+             WHERE m.deleted_at IS NULL AND COALESCE(c.breaks_fast, 1) = 1
+             ORDER BY m.timestamp DESC LIMIT 1`
+          : "SELECT * FROM meal_entries WHERE deleted_at IS NULL ORDER BY timestamp DESC LIMIT 1"
+      );
+      if (!row) return null;
+
+      const [entry] = await this.attachTags([this.mapRowToMealEntry(row)]);
+      return entry;
+    } catch (error) {
+      console.error("[Database] Get latest entry failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve your latest meal entry",
+        error
+      );
+    }
+  }
+
+  /**
+   * Write the entries, categories and fasts of a backup in one transaction
+   * @param mode "replace" swaps out everything on the device; "merge" adds
+   * missing rows and keeps the most recently updated copy of the others
+   */
+  async restoreBackup(
+    entries: MealEntry[],
+    categories: CategoryDefinition[],
+    fastingSessions: FastingSession[],
+    protocolHistory: FastingProtocolChange[],
+    mode: RestoreMode
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const now = Date.now();
+
+      await this.db.withTransactionAsync(async () => {
+        if (mode === "replace") {
+          for (const table of [
+            "entry_tags",
+            "entry_revisions",
+            "meal_entries",
+            "tags",
+            "fasting_sessions",
+            "fasting_protocol_history",
+          ]) {
+            await this.db!.runAsync(`DELETE FROM ${table}`);
+          }
+          await this.db!.runAsync(
+            "DELETE FROM categories WHERE is_builtin = 0"
+          );
+        }
+
+        for (const category of categories) {
+          await this.writeCategoryRow(category, mode === "replace", now);
+        }
+
+        for (const backupEntry of entries) {
+          const entry: MealEntry = {
+            ...this.withUtcOffset(backupEntry),
+            tags: normalizeTags(backupEntry.tags ?? []),
+          };
+          const existingRow =
+            mode === "merge"
+              ? await this.db!.getFirstAsync(
+                  "SELECT * FROM meal_entries WHERE id = ?",
+                  [entry.id]
+                )
+              : null;
+
+          if (!existingRow) {
+            await this.db!.runAsync(
+              `INSERT INTO meal_entries
+               (id, category, timestamp, notes, utc_offset, timezone,
+                created_at, updated_at, deleted_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                entry.id,
+                entry.category,
+                entry.timestamp,
+                entry.notes || null,
+                entry.utcOffset ?? null,
+                entry.timezone ?? null,
+                entry.createdAt,
+                entry.updatedAt,
+                entry.deletedAt ?? null,
+              ]
+            );
+            await this.setEntryTags(entry.id, entry.tags ?? []);
+            await this.recordRevision(
+              entry.id,
+              "insert",
+              null,
+              this.toSnapshot(entry),
+              now
+            );
+            continue;
+          }
+
+          // Both sides have the entry: the later edit wins
+          const [existing] = await this.attachTags([
+            this.mapRowToMealEntry(existingRow),
+          ]);
+          if (entry.updatedAt <= existing.updatedAt) continue;
+
+          await this.db!.runAsync(
+            `UPDATE meal_entries
+             SET category = ?, timestamp = ?, notes = ?, utc_offset = ?,
+                 timezone = ?, created_at = ?, updated_at = ?, deleted_at = ?
+             WHERE id = ?`,
+            [
+              entry.category,
+              entry.timestamp,
+              entry.notes || null,
+              entry.utcOffset ?? null,
+              entry.timezone ?? null,
+              entry.createdAt,
+              entry.updatedAt,
+              entry.deletedAt ?? null,
+              entry.id,
+            ]
+          );
+          await this.setEntryTags(entry.id, entry.tags ?? []);
+
+          const before = this.toSnapshot(existing);
+          const after = this.toSnapshot(entry);
+          if (!this.isSameSnapshot(before, after)) {
+            await this.recordRevision(entry.id, "update", before, after, now);
+          }
+        }
+
+        for (const session of fastingSessions) {
+          await this.writeFastingSessionRow(session, mode);
+        }
+
+        for (const change of protocolHistory) {
+          await this.writeProtocolChangeRow(change, mode);
+        }
+      });
+
+      await this.loadCategoryRegistry();
+      console.log(
+        `[Database] Restored ${entries.length} entries, ${categories.length} categories and ${fastingSessions.length} fasts (${mode})`
+      );
+    } catch (error) {
+      console.error("[Database] Restore backup failed:", error);
+      throw this.createError(
+        "RESTORE_FAILED",
+        "Failed to restore the backup",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get daily summary with gaps and fasting window
+   * @param fastingGoalHours Overnight fast length that counts as intermittent fasting
+   */
+  async getDailySummary(
+    date: string,
+    fastingGoalHours: number = DEFAULT_FASTING_GOAL_HOURS
+  ): Promise<DailySummary> {
+    const entries = await this.getMealEntriesByDate(date);
+
+    let previousDayEntries: MealEntry[] = [];
+    let previousEntry: MealEntry | null = null;
+    if (entries.length > 0) {
+      try {
+        previousDayEntries = await this.getMealEntriesByDate(
+          getDateStringWithOffset(date, -1)
+        );
+      } catch (error) {
+        console.warn("[Database] Could not calculate fasting window:", error);
+      }
+      previousEntry = await this.getEntryBefore(entries[0].timestamp);
+    }
+
+    return this.buildDailySummary(
+      date,
+      entries,
+      previousDayEntries,
+      previousEntry,
+      await this.getFastingProtocolForDate(date),
+      fastingGoalHours
+    );
+  }
+
+  /**
+   * Get weekly summaries starting from a date
+   */
+  async getWeeklySummaries(
+    startDate: string,
+    fastingGoalHours: number = DEFAULT_FASTING_GOAL_HOURS
+  ): Promise<DailySummary[]> {
+    return this.getDailySummariesInRange(
+      startDate,
+      getDateStringWithOffset(startDate, 6),
+      fastingGoalHours
+    );
+  }
+
+  /**
+   * Get one summary per day over a date range, loading its entries at once
+   * @param startDate First day (YYYY-MM-DD)
+   * @param endDate Last day, inclusive (YYYY-MM-DD)
+   * @param fastingGoalHours Goal for days before any protocol was picked
+   */
+  async getDailySummariesInRange(
+    startDate: string,
+    endDate: string,
+    fastingGoalHours: number = DEFAULT_FASTING_GOAL_HOURS
+  ): Promise<DailySummary[]> {
+    const dayCount = getDaysBetween(startDate, endDate) + 1;
+    if (dayCount <= 0) {
+      return [];
+    }
+
+    // The day before the range supplies the first overnight fast
+    const previousDate = getDateStringWithOffset(startDate, -1);
+    const [entries, protocolHistory] = await Promise.all([
+      this.getMealEntriesInRange(previousDate, endDate),
+      this.getFastingProtocolHistory(),
+    ]);
+
+    const entriesByDate = new Map<string, MealEntry[]>();
+    for (const entry of entries) {
+      const date = getEntryDateString(entry);
+      entriesByDate.set(date, [...(entriesByDate.get(date) ?? []), entry]);
+    }
+
+    const summaries: DailySummary[] = [];
+    let previousDayEntries = entriesByDate.get(previousDate) ?? [];
+    let previousEntry: MealEntry | null =
+      previousDayEntries[previousDayEntries.length - 1] ?? null;
+
+    for (const date of createDateRange(startDate, dayCount)) {
+      const dayEntries = entriesByDate.get(date) ?? [];
+
+      // Only look further back when nothing earlier was loaded
+      if (dayEntries.length > 0 && !previousEntry) {
+        previousEntry = await this.getEntryBefore(dayEntries[0].timestamp);
+      }
+
+      summaries.push(
+        this.buildDailySummary(
+          date,
+          dayEntries,
+          previousDayEntries,
+          previousEntry,
+          TimeCalculationService.getProtocolChangeForDate(
+            protocolHistory,
+            date
+          ),
+          fastingGoalHours
+        )
+      );
+
+      previousDayEntries = dayEntries;
+      previousEntry = dayEntries[dayEntries.length - 1] ?? previousEntry;
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Get the fast that is currently running, if any
+   */
+  async getActiveFastingSession(): Promise<FastingSession | null> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const row = await this.db.getFirstAsync(
+        "SELECT * FROM fasting_sessions WHERE end_time IS NULL ORDER BY start_time DESC LIMIT 1"
+      );
+      return row ? this.mapRowToFastingSession(row) : null;
+    } catch (error) {
+      console.error("[Database] Get active fasting session failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve the current fast",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get fasting sessions, most recent first
+   * @param limit Maximum number of sessions to return; all when omitted
+   */
+  async getFastingSessions(limit?: number): Promise<FastingSession[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const rows = await this.db.getAllAsync(
+        `SELECT * FROM fasting_sessions ORDER BY start_time DESC${
+          limit !== undefined ? " LIMIT ?" : ""
+        }`,
+        limit !== undefined ? [limit] : []
+      );
+      return rows.map(this.mapRowToFastingSession);
+    } catch (error) {
+      console.error("[Database] Get fasting sessions failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve fasting sessions",
+        error
+      );
+    }
+  }
+
+  /**
+   * Start a fast; only one can run at a time
+   * @param startTime When the fast began, defaults to now
+   */
+  async startFastingSession(
+    goalHours: number,
+    startTime: number = Date.now()
+  ): Promise<FastingSession> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    this.validateFastingSession({ startTime, goalHours });
+    if (await this.getActiveFastingSession()) {
+      throw this.createError(
+        "FASTING_SESSION_ACTIVE",
+        "A fast is already running. End it before starting a new one."
+      );
+    }
+
+    try {
+      const now = Date.now();
+      const session: FastingSession = {
+        id: `fast_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        startTime,
+        goalHours,
+        source: "manual",
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.insertFastingSessionRow(session);
+      console.log("[Database] Fasting session started:", session.id);
+      return session;
+    } catch (error) {
+      console.error("[Database] Start fasting session failed:", error);
+      throw this.createError(
+        "INSERT_FAILED",
+        "Failed to start the fast",
+        error
+      );
+    }
+  }
+
+  /**
+   * Change a session's times or goal, e.g. to end or extend a running fast
+   * @returns The session as stored after the update
+   */
+  async updateFastingSession(
+    id: string,
+    updates: FastingSessionUpdate
+  ): Promise<FastingSession> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const row = await this.db.getFirstAsync(
+      "SELECT * FROM fasting_sessions WHERE id = ?",
+      [id]
+    );
+    if (!row) {
+      throw this.createError(
+        "SESSION_NOT_FOUND",
+        `Fasting session with id ${id} not found`
+      );
+    }
+
+    const session: FastingSession = {
+      ...this.mapRowToFastingSession(row),
+      ...updates,
+      updatedAt: Date.now(),
+    };
+    this.validateFastingSession(session);
+
+    try {
+      await this.db.runAsync(
+        `UPDATE fasting_sessions
+         SET start_time = ?, end_time = ?, goal_hours = ?, updated_at = ?
+         WHERE id = ?`,
+        [
+          session.startTime,
+          session.endTime ?? null,
+          session.goalHours,
+          session.updatedAt,
+          id,
+        ]
+      );
+      console.log("[Database] Fasting session updated:", id);
+      return session;
+    } catch (error) {
+      console.error("[Database] Update fasting session failed:", error);
+      throw this.createError(
+        "UPDATE_FAILED",
+        "Failed to update the fast",
+        error
+      );
+    }
+  }
+
+  /**
+   * Permanently delete a fasting session
+   */
+  async deleteFastingSession(id: string): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      await this.db.runAsync("DELETE FROM fasting_sessions WHERE id = ?", [id]);
+      console.log("[Database] Fasting session deleted:", id);
+    } catch (error) {
+      console.error("[Database] Delete fasting session failed:", error);
+      throw this.createError(
+        "DELETE_FAILED",
+        "Failed to delete the fast",
+        error
+      );
+    }
+  }
+
+  /**
+   * Record past fasts from the meal log: every gap of at least minFastHours
+   * between fast-breaking meals becomes a session, unless it overlaps one
+   * that already exists
+   * @returns Number of sessions created
+   */
+  async backfillFastingSessions(
+    minFastHours: number,
+    goalHours: number
+  ): Promise<number> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const entries = await this.db.getAllAsync<{
+        timestamp: number;
+        category: string;
+      }>(
+        "SELECT timestamp, category FROM meal_entries WHERE deleted_at IS NULL ORDER BY timestamp ASC"
+      );
+      const meals = entries.filter((entry) =>
+        doesCategoryBreakFasting(entry.category)
+      );
+
+      const now = Date.now();
+      const taken = (await this.getFastingSessions()).map((session) => ({
+        start: session.startTime,
+        end: session.endTime ?? now,
+      }));
+      const minFastMs = minFastHours * 60 * 60 * 1000;
+
+      const sessions: FastingSession[] = [];
+      for (let i = 0; i < meals.length - 1; i++) {
+        const start = meals[i].timestamp;
+        const end = meals[i + 1].timestamp;
+        if (end - start < minFastMs) continue;
+        if (taken.some((range) => start < range.end && end > range.start)) {
+          continue;
+        }
+
+        sessions.push({
+          id: `fast_${now}_${i}_${Math.random().toString(36).substr(2, 9)}`,
+          startTime: start,
+          endTime: end,
+          goalHours,
+          source: "backfill",
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      await this.db.withTransactionAsync(async () => {
+        for (const session of sessions) {
+          await this.insertFastingSessionRow(session);
+        }
+      });
+
+      console.log(`[Database] Backfilled ${sessions.length} fasting sessions`);
+      return sessions.length;
+    } catch (error) {
+      console.error("[Database] Backfill fasting sessions failed:", error);
+      throw this.createError(
+        "BACKFILL_FAILED",
+        "Failed to create fasts from your meal history",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get every protocol change, oldest first
+   */
+  async getFastingProtocolHistory(): Promise<FastingProtocolChange[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const rows = await this.db.getAllAsync(
+        "SELECT * FROM fasting_protocol_history ORDER BY effective_date ASC"
+      );
+      return rows.map((row) => this.mapRowToProtocolChange(row));
+    } catch (error) {
+      console.error("[Database] Get protocol history failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve your fasting protocol history",
+        error
+      );
+    }
+  }
+
+  /**
+   * Switch protocol from a day on; a second change on the same day replaces
+   * the first, and earlier days keep the protocol they were graded against
+   * @param protocolId Protocol to follow, or null for the plain fasting goal
+   * @param fastDays Weekdays (0 = Sunday) restricted by 5:2 and ADF
+   * @param effectiveDate First day graded against the new protocol
+   */
+  async setFastingProtocol(
+    protocolId: FastingProtocolId | null,
+    fastDays: number[],
+    effectiveDate: string
+  ): Promise<FastingProtocolChange> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const protocol = protocolId && getFastingProtocol(protocolId);
+    if (protocolId && !protocol) {
+      throw this.createError(
+        "INVALID_PROTOCOL",
+        `Unknown fasting protocol: ${protocolId}`
+      );
+    }
+    if (
+      fastDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6) ||
+      (protocol && protocol.usesFastDays && fastDays.length === 0)
+    ) {
+      throw this.createError(
+        "INVALID_PROTOCOL",
+        "Pick at least one fast day between Sunday and Saturday"
+      );
+    }
+
+    const now = Date.now();
+    const change: FastingProtocolChange = {
+      id: `protocol_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      protocolId,
+      fastDays:
+        protocol && protocol.usesFastDays
+          ? [...new Set(fastDays)].sort((a, b) => a - b)
+          : [],
+      effectiveDate,
+      createdAt: now,
+    };
+
+    try {
+      await this.db.withTransactionAsync(async () => {
+        await this.db!.runAsync(
+          "DELETE FROM fasting_protocol_history WHERE effective_date = ?",
+          [effectiveDate]
+        );
+        await this.insertProtocolChangeRow(change);
+      });
+
+      console.log(
+        `[Database] Fasting protocol set to ${protocolId ?? "none"} from ${effectiveDate}`
+      );
+      return change;
+    } catch (error) {
+      console.error("[Database] Set fasting protocol failed:", error);
+      throw this.createError(
+        "UPDATE_FAILED",
+        "Failed to change your fasting protocol",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get all categories, including archived ones, in display order
+   */
+  async getCategories(): Promise<CategoryDefinition[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const rows = await this.db.getAllAsync(
+        "SELECT * FROM categories ORDER BY sort_order ASC, created_at ASC"
+      );
+
+      return rows.map(this.mapRowToCategory);
+    } catch (error) {
+      console.error("[Database] Get categories failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve categories",
+        error
+      );
+    }
+  }
+
+  /**
+   * Create a user-defined category at the end of the display order
+   */
+  async insertCategory(input: CategoryInput): Promise<CategoryDefinition> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    const label = input.label.trim();
+    await this.validateCategoryLabel(label);
+
+    try {
+      const now = Date.now();
+      const maxOrder = await this.db.getFirstAsync<{
+        max_order: number | null;
+      }>("SELECT MAX(sort_order) AS max_order FROM categories");
+
+      const category: CategoryDefinition = {
+        ...input,
+        id: `category_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        label,
+        order: (maxOrder?.max_order ?? 0) + 1,
+        isBuiltIn: false,
+      };
+
+      await this.db.runAsync(
+        `INSERT INTO categories
+         (id, label, icon, color, dark_color, sort_order, weight,
+          recommended_gap_hours, breaks_fast, is_builtin, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`,
+        [
+          category.id,
+          category.label,
+          category.icon,
+          category.color,
+          category.darkColor,
+          category.order,
+          category.weight,
+          category.recommendedGapHours,
+          category.breaksFast ? 1 : 0,
+          now,
+          now,
+        ]
+      );
+
+      await this.loadCategoryRegistry();
+      console.log("[Database] Category inserted:", category.id);
+      return category;
+    } catch (error) {
+      console.error("[Database] Insert category failed:", error);
+      throw this.createError(
+        "INSERT_FAILED",
+        "Failed to insert category",
+        error
+      );
+    }
+  }
+
+  /**
+   * Update the editable fields of a category
+   */
+  async updateCategory(
+    id: string,
+    updates: Partial<CategoryInput>
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    if (updates.label !== undefined) {
+      updates = { ...updates, label: updates.label.trim() };
+      await this.validateCategoryLabel(updates.label!, id);
+    }
+
+    try {
+      const columns: Record<keyof CategoryInput, string> = {
+        label: "label",
+        icon: "icon",
+        color: "color",
+        darkColor: "dark_color",
+        weight: "weight",
+        recommendedGapHours: "recommended_gap_hours",
+        breaksFast: "breaks_fast",
+      };
+      const setClause: string[] = [];
+      const values: (string | number)[] = [];
+
+      for (const key of Object.keys(columns) as (keyof CategoryInput)[]) {
+        const value = updates[key];
+        if (value === undefined) continue;
+
+        setClause.push(`${columns[key]} = ?`);
+        values.push(typeof value === "boolean" ? (value ? 1 : 0) : value);
+      }
+
+      if (setClause.length === 0) {
+        return;
+      }
+
+      setClause.push("updated_at = ?");
+      values.push(Date.now(), id);
+
+      const result = await this.db.runAsync(
+        `UPDATE categories SET ${setClause.join(", ")} WHERE id = ?`,
+        values
+      );
+
+      if (result.changes === 0) {
+        throw this.createError(
+          "CATEGORY_NOT_FOUND",
+          `Category with id ${id} not found`
+        );
+      }
+
+      await this.loadCategoryRegistry();
+      console.log("[Database] Category updated:", id);
+    } catch (error) {
+      console.error("[Database] Update category failed:", error);
+      throw (error as AppError)?.code === "CATEGORY_NOT_FOUND"
+        ? error
+        : this.createError("UPDATE_FAILED", "Failed to update category", error);
+    }
+  }
+
+  /**
+   * Archive a category to hide it from quick add, or bring it back
+   * Categories are never deleted because existing entries reference them
+   */
+  async setCategoryArchived(id: string, archived: boolean): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const now = Date.now();
+      const result = await this.db.runAsync(
+        "UPDATE categories SET archived_at = ?, updated_at = ? WHERE id = ?",
+        [archived ? now : null, now, id]
+      );
+
+      if (result.changes === 0) {
+        throw this.createError(
+          "CATEGORY_NOT_FOUND",
+          `Category with id ${id} not found`
+        );
+      }
+
+      await this.loadCategoryRegistry();
+      console.log(
+        `[Database] Category ${archived ? "archived" : "unarchived"}:`,
+        id
+      );
+    } catch (error) {
+      console.error("[Database] Archive category failed:", error);
+      throw (error as AppError)?.code === "CATEGORY_NOT_FOUND"
+        ? error
+        : this.createError(
+            "UPDATE_FAILED",
+            "Failed to archive category",
+            error
+          );
+    }
+  }
+
+  /**
+   * Persist a new display order for categories
+   */
+  async reorderCategories(orderedIds: string[]): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const now = Date.now();
+      await this.db.withTransactionAsync(async () => {
+        for (let i = 0; i < orderedIds.length; i++) {
+          await this.db!.runAsync(
+            "UPDATE categories SET sort_order = ?, updated_at = ? WHERE id = ?",
+            [i + 1, now, orderedIds[i]]
+          );
+        }
+      });
+
+      await this.loadCategoryRegistry();
+      console.log("[Database] Categories reordered");
+    } catch (error) {
+      console.error("[Database] Reorder categories failed:", error);
+      throw this.createError(
+        "UPDATE_FAILED",
+        "Failed to reorder categories",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get table schemas for debugging
+   */
+  async getTableSchemas(): Promise<{ name: string; sql: string }[]> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      const rows = await this.db.getAllAsync(
+        "SELECT name, sql FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'"
+      );
+
+      return rows.map((row: any) => ({
+        name: row.name,
+        sql: row.sql,
+      }));
+    } catch (error) {
+      console.error("[Database] Get table schemas failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        "Failed to retrieve table schemas",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get table data for debugging
+   */
+  async getTableData(
+    tableName: string
+  ): Promise<{ columns: string[]; rows: any[] }> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      // Get column information
+      const columnInfo = await this.db.getAllAsync(
+        `PRAGMA table_info(${tableName})`
+      );
+      const columns = columnInfo.map((col: any) => col.name);
+
+      // Get all data from the table
+      const rows = await this.db.getAllAsync(`SELECT * FROM ${tableName}`);
+
+      return {
+        columns,
+        rows,
+      };
+    } catch (error) {
+      console.error("[Database] Get table data failed:", error);
+      throw this.createError(
+        "QUERY_FAILED",
+        `Failed to retrieve data from table ${tableName}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Clear all data from database (for debugging)
+   */
+  async clearAllData(): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    try {
+      // Get all table names except sqlite system tables and the notes index,
+      // which the meal_entries triggers keep in sync on their own
+      const tables = await this.db.getAllAsync(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE ?",
+        [`${NOTES_FTS_TABLE}%`]
+      );
+
+      // Delete all data from each table
+      for (const table of tables) {
+        const name = (table as any).name;
+        if (name === "categories") {
+          // Built-in categories are part of the schema, only drop custom ones
+          await this.db.runAsync("DELETE FROM categories WHERE is_builtin = 0");
+          continue;
+        }
+        await this.db.runAsync(`DELETE FROM ${name}`);
+      }
+      await this.loadCategoryRegistry();
+
+      console.log("[Database] All data cleared successfully");
+    } catch (error) {
+      console.error("[Database] Clear all data failed:", error);
+      throw this.createError(
+        "DELETE_FAILED",
+        "Failed to clear database data",
+        error
+      );
+    }
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.closeAsync();
+      this.db = null;
+      this.isInitialized = false;
+      console.log("[Database] Connection closed");
+    }
+  }
+
+  /**
+   * Calculate time gaps between consecutive meal entries
+   */
+  private calculateTimeGaps(entries: MealEntry[]): TimeGap[] {
     if (entries.length < 2) return [];
 
     const gaps: TimeGap[] = [];
@@ -542,50 +1817,112 @@ class DatabaseServiceImpl implements DatabaseService {
   }
 
   /**
-   * Calculate overnight fasting window
+   * Assemble a day's summary from entries that are already loaded
+   * @param previousDayEntries Entries of the day before, for the overnight fast
+   * @param previousEntry Last entry before the day, for time zone changes
+   * @param protocolChange Protocol choice in force on the day
    */
-  private async calculateFastingWindow(
+  private buildDailySummary(
     date: string,
-    todayEntries: MealEntry[]
-  ): Promise<FastingWindow | undefined> {
-    // Get yesterday's date using local time
-    const yesterdayStr = getDateStringWithOffset(date, -1);
+    entries: MealEntry[],
+    previousDayEntries: MealEntry[],
+    previousEntry: MealEntry | null,
+    protocolChange: FastingProtocolChange | null,
+    fastingGoalHours: number
+  ): DailySummary {
+    const summary: DailySummary = {
+      date,
+      entries,
+      totalEntries: entries.length,
+      gaps: [],
+      timeZoneChanges: [],
+    };
 
-    try {
-      const yesterdayEntries = await this.getMealEntriesByDate(yesterdayStr);
+    // Days are graded by the protocol in force then, not the current one
+    const protocol =
+      protocolChange?.protocolId &&
+      getFastingProtocol(protocolChange.protocolId);
 
-      // Filter for fasting-breaking meals only (exclude water)
-      const yesterdayFastingBreakingMeals = yesterdayEntries.filter((entry) =>
-        doesCategoryBreakFasting(entry.category)
+    if (entries.length > 0) {
+      summary.firstIntake = entries[0].timestamp;
+      summary.lastIntake = entries[entries.length - 1].timestamp;
+
+      // Calculate gaps between entries
+      summary.gaps = this.calculateTimeGaps(entries);
+
+      // Calculate fasting window (overnight fasting)
+      const targetFastingHours = protocol
+        ? protocol.fastingHours
+        : fastingGoalHours;
+      summary.fastingWindow = this.calculateFastingWindow(
+        entries,
+        previousDayEntries,
+        targetFastingHours
       );
-      const todayFastingBreakingMeals = todayEntries.filter((entry) =>
-        doesCategoryBreakFasting(entry.category)
+
+      summary.gutRestScore =
+        TimeCalculationService.calculateGutRestScore(
+          entries,
+          summary.fastingWindow,
+          targetFastingHours
+        ) ?? undefined;
+
+      // A flight between the previous entry and today's counts as well
+      summary.timeZoneChanges = getTimeZoneChanges(
+        previousEntry ? [previousEntry, ...entries] : entries
       );
+    }
 
-      if (
-        yesterdayFastingBreakingMeals.length === 0 ||
-        todayFastingBreakingMeals.length === 0
-      ) {
-        return undefined;
-      }
+    summary.protocolGrade =
+      TimeCalculationService.gradeDay(summary, protocolChange) ?? undefined;
 
-      const lastIntakeYesterday =
-        yesterdayFastingBreakingMeals[yesterdayFastingBreakingMeals.length - 1]
-          .timestamp;
-      const firstIntakeToday = todayFastingBreakingMeals[0].timestamp;
-      const durationMs = firstIntakeToday - lastIntakeYesterday;
+    return summary;
+  }
 
-      return {
-        startTime: lastIntakeYesterday,
-        endTime: firstIntakeToday,
-        durationMs,
-        durationFormatted: this.formatDuration(durationMs),
-        isIntermittentFasting: durationMs >= 16 * 60 * 60 * 1000, // 16+ hours
-      };
-    } catch (error) {
-      console.warn("[Database] Could not calculate fasting window:", error);
+  /**
+   * Calculate overnight fasting window
+   */
+  private calculateFastingWindow(
+    todayEntries: MealEntry[],
+    yesterdayEntries: MealEntry[],
+    fastingGoalHours: number
+  ): FastingWindow | undefined {
+    // Filter for fasting-breaking meals only (exclude water)
+    const yesterdayFastingBreakingMeals = yesterdayEntries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+    const todayFastingBreakingMeals = todayEntries.filter((entry) =>
+      doesCategoryBreakFasting(entry.category)
+    );
+
+    if (
+      yesterdayFastingBreakingMeals.length === 0 ||
+      todayFastingBreakingMeals.length === 0
+    ) {
+      return undefined;
+    }
+
+    const lastIntakeYesterday =
+      yesterdayFastingBreakingMeals[yesterdayFastingBreakingMeals.length - 1]
+        .timestamp;
+    const firstIntakeToday = todayFastingBreakingMeals[0].timestamp;
+    const durationMs = firstIntakeToday - lastIntakeYesterday;
+
+    // Same cap as streak grading, so both agree on whether a day met its goal
+    if (
+      durationMs <= 0 ||
+      durationMs > MAX_OVERNIGHT_FAST_HOURS * 60 * 60 * 1000
+    ) {
       return undefined;
     }
+
+    return {
+      startTime: lastIntakeYesterday,
+      endTime: firstIntakeToday,
+      durationMs,
+      durationFormatted: this.formatDuration(durationMs),
+      isIntermittentFasting: durationMs >= fastingGoalHours * 60 * 60 * 1000,
+    };
   }
 
   /**
@@ -613,11 +1950,471 @@ class DatabaseServiceImpl implements DatabaseService {
       category: row.category,
       timestamp: row.timestamp,
       notes: row.notes,
+      utcOffset: row.utc_offset ?? undefined,
+      timezone: row.timezone ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at ?? undefined,
+    };
+  }
+
+  /**
+   * Map database row to FastingProtocolChange object
+   */
+  private mapRowToProtocolChange(row: any): FastingProtocolChange {
+    return {
+      id: row.id,
+      protocolId: row.protocol_id ?? null,
+      fastDays: row.fast_days ? row.fast_days.split(",").map(Number) : [],
+      effectiveDate: row.effective_date,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Protocol choice in force on a day, if the user ever picked one
+   */
+  private async getFastingProtocolForDate(
+    date: string
+  ): Promise<FastingProtocolChange | null> {
+    try {
+      const row = await this.db!.getFirstAsync(
+        `SELECT * FROM fasting_protocol_history
+         WHERE effective_date <= ?
+         ORDER BY effective_date DESC LIMIT 1`,
+        [date]
+      );
+      return row ? this.mapRowToProtocolChange(row) : null;
+    } catch (error) {
+      console.warn("[Database] Could not load fasting protocol:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Map database row to FastingSession object
+   */
+  private mapRowToFastingSession(row: any): FastingSession {
+    return {
+      id: row.id,
+      startTime: row.start_time,
+      endTime: row.end_time ?? undefined,
+      goalHours: row.goal_hours,
+      source: row.source,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  private async insertFastingSessionRow(
+    session: FastingSession
+  ): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT INTO fasting_sessions
+       (id, start_time, end_time, goal_hours, source, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.startTime,
+        session.endTime ?? null,
+        session.goalHours,
+        session.source,
+        session.createdAt,
+        session.updatedAt,
+      ]
+    );
+  }
+
+  private async insertProtocolChangeRow(
+    change: FastingProtocolChange
+  ): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT INTO fasting_protocol_history
+       (id, protocol_id, fast_days, effective_date, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        change.id,
+        change.protocolId,
+        change.fastDays.join(","),
+        change.effectiveDate,
+        change.createdAt,
+      ]
+    );
+  }
+
+  /**
+   * Write a fast from a backup; merging keeps the later edit and never
+   * leaves two fasts running
+   */
+  private async writeFastingSessionRow(
+    session: FastingSession,
+    mode: RestoreMode
+  ): Promise<void> {
+    const existingRow: any =
+      mode === "merge"
+        ? await this.db!.getFirstAsync(
+            "SELECT * FROM fasting_sessions WHERE id = ?",
+            [session.id]
+          )
+        : null;
+
+    if (existingRow && session.updatedAt <= existingRow.updated_at) return;
+
+    if (mode === "merge" && session.endTime === undefined) {
+      const running = await this.db!.getFirstAsync(
+        "SELECT id FROM fasting_sessions WHERE end_time IS NULL AND id != ?",
+        [session.id]
+      );
+      if (running) return;
+    }
+
+    if (!existingRow) {
+      await this.insertFastingSessionRow(session);
+      return;
+    }
+
+    await this.db!.runAsync(
+      `UPDATE fasting_sessions
+       SET start_time = ?, end_time = ?, goal_hours = ?, source = ?,
+           created_at = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        session.startTime,
+        session.endTime ?? null,
+        session.goalHours,
+        session.source,
+        session.createdAt,
+        session.updatedAt,
+        session.id,
+      ]
+    );
+  }
+
+  /**
+   * Write a protocol change from a backup; merging keeps whichever choice
+   * for the same day was made last
+   */
+  private async writeProtocolChangeRow(
+    change: FastingProtocolChange,
+    mode: RestoreMode
+  ): Promise<void> {
+    if (mode === "merge") {
+      const existingRow: any = await this.db!.getFirstAsync(
+        "SELECT created_at FROM fasting_protocol_history WHERE effective_date = ? OR id = ?",
+        [change.effectiveDate, change.id]
+      );
+      if (existingRow && change.createdAt <= existingRow.created_at) return;
+    }
+
+    await this.db!.runAsync(
+      "DELETE FROM fasting_protocol_history WHERE effective_date = ? OR id = ?",
+      [change.effectiveDate, change.id]
+    );
+    await this.insertProtocolChangeRow(change);
+  }
+
+  /**
+   * Check a session's goal and times before writing it
+   */
+  private validateFastingSession(
+    session: Pick<FastingSession, "startTime" | "endTime" | "goalHours">
+  ): void {
+    const latest = Date.now() + SESSION_CLOCK_TOLERANCE_MS;
+
+    if (
+      !Number.isFinite(session.goalHours) ||
+      session.goalHours < MIN_SESSION_GOAL_HOURS ||
+      session.goalHours > MAX_SESSION_GOAL_HOURS
+    ) {
+      throw this.createError(
+        "INVALID_SESSION",
+        `Fasting goal must be between ${MIN_SESSION_GOAL_HOURS} and ${MAX_SESSION_GOAL_HOURS} hours`
+      );
+    }
+    if (!Number.isFinite(session.startTime) || session.startTime > latest) {
+      throw this.createError(
+        "INVALID_SESSION",
+        "A fast can't start in the future"
+      );
+    }
+    if (session.endTime !== undefined) {
+      if (session.endTime <= session.startTime) {
+        throw this.createError(
+          "INVALID_SESSION",
+          "A fast has to end after it starts"
+        );
+      }
+      if (session.endTime > latest) {
+        throw this.createError(
+          "INVALID_SESSION",
+          "A fast can't end in the future"
+        );
+      }
+    }
+  }
+
+  /**
+   * Fill in the UTC offset of entries from files that predate time zones,
+   * using the device's zone the way they were bucketed before
+   */
+  private withUtcOffset(entry: MealEntry): MealEntry {
+    return entry.utcOffset === undefined
+      ? { ...entry, utcOffset: getUtcOffsetMinutes(entry.timestamp) }
+      : entry;
+  }
+
+  /**
+   * Parameters for WALL_CLOCK_RANGE_CONDITION
+   */
+  private getWallClockRangeParams(start: number, end: number): number[] {
+    return [start - MAX_UTC_OFFSET_MS, end + MAX_UTC_OFFSET_MS, start, end];
+  }
+
+  /**
+   * Get the last live entry logged before a moment
+   */
+  private async getEntryBefore(timestamp: number): Promise<MealEntry | null> {
+    if (!this.db) return null;
+
+    const row = await this.db.getFirstAsync(
+      "SELECT * FROM meal_entries WHERE timestamp < ? AND deleted_at IS NULL ORDER BY timestamp DESC LIMIT 1",
+      [timestamp]
+    );
+    return row ? this.mapRowToMealEntry(row) : null;
+  }
+
+  /**
+   * Load the tags of each entry in one query and attach them
+   */
+  private async attachTags(entries: MealEntry[]): Promise<MealEntry[]> {
+    if (!this.db || entries.length === 0) return entries;
+
+    const tagsByEntry = new Map<string, string[]>();
+    // Stay well below SQLite's bound parameter limit
+    for (let i = 0; i < entries.length; i += 500) {
+      const ids = entries.slice(i, i + 500).map((entry) => entry.id);
+      const rows = await this.db.getAllAsync<{
+        entry_id: string;
+        name: string;
+      }>(
+        `SELECT et.entry_id, t.name
+         FROM entry_tags et
+         JOIN tags t ON t.id = et.tag_id
+         WHERE et.entry_id IN (${ids.map(() => "?").join(", ")})
+         ORDER BY t.name ASC`,
+        ids
+      );
+
+      for (const row of rows) {
+        const tags = tagsByEntry.get(row.entry_id) ?? [];
+        tags.push(row.name);
+        tagsByEntry.set(row.entry_id, tags);
+      }
+    }
+
+    return entries.map((entry) => ({
+      ...entry,
+      tags: tagsByEntry.get(entry.id) ?? [],
+    }));
+  }
+
+  /**
+   * Replace the tags of an entry, creating tags that don't exist yet
+   * Must run inside the caller's transaction
+   */
+  private async setEntryTags(entryId: string, tags: string[]): Promise<void> {
+    await this.db!.runAsync("DELETE FROM entry_tags WHERE entry_id = ?", [
+      entryId,
+    ]);
+
+    for (const name of tags) {
+      await this.db!.runAsync(
+        "INSERT OR IGNORE INTO tags (id, name, created_at) VALUES (?, ?, ?)",
+        [
+          `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name,
+          Date.now(),
+        ]
+      );
+      await this.db!.runAsync(
+        `INSERT OR IGNORE INTO entry_tags (entry_id, tag_id)
+         SELECT ?, id FROM tags WHERE name = ?`,
+        [entryId, name]
+      );
+    }
+  }
+
+  /**
+   * Map database row to CategoryDefinition object
+   */
+  private mapRowToCategory(row: any): CategoryDefinition {
+    return {
+      id: row.id,
+      label: row.label,
+      icon: row.icon,
+      color: row.color,
+      darkColor: row.dark_color,
+      order: row.sort_order,
+      weight: row.weight,
+      recommendedGapHours: row.recommended_gap_hours,
+      breaksFast: row.breaks_fast === 1,
+      isBuiltIn: row.is_builtin === 1,
+      archivedAt: row.archived_at ?? undefined,
+    };
+  }
+
+  /**
+   * Write a category from a backup, overwriting the local copy when asked
+   * Must run inside the caller's transaction
+   */
+  private async writeCategoryRow(
+    category: CategoryDefinition,
+    overwrite: boolean,
+    now: number
+  ): Promise<void> {
+    const values = [
+      category.label,
+      category.icon,
+      category.color,
+      category.darkColor,
+      category.order,
+      category.weight,
+      category.recommendedGapHours,
+      category.breaksFast ? 1 : 0,
+      category.archivedAt ?? null,
+      now,
+    ];
+
+    const existing = await this.db!.getFirstAsync(
+      "SELECT id FROM categories WHERE id = ?",
+      [category.id]
+    );
+
+    if (existing) {
+      if (!overwrite) return;
+      await this.db!.runAsync(
+        `UPDATE categories
+         SET label = ?, icon = ?, color = ?, dark_color = ?, sort_order = ?,
+             weight = ?, recommended_gap_hours = ?, breaks_fast = ?,
+             archived_at = ?, updated_at = ?
+         WHERE id = ?`,
+        [...values, category.id]
+      );
+      return;
+    }
+
+    await this.db!.runAsync(
+      `INSERT INTO categories
+       (label, icon, color, dark_color, sort_order, weight,
+        recommended_gap_hours, breaks_fast, archived_at, updated_at,
+        id, is_builtin, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...values, category.id, category.isBuiltIn ? 1 : 0, now]
+    );
+  }
+
+  /**
+   * Refresh the in-memory category registry used by the category helpers
+   */
+  private async loadCategoryRegistry(): Promise<void> {
+    setCategoryRegistry(await this.getCategories());
+  }
+
+  /**
+   * Ensure a category label is present, short enough and not already taken
+   */
+  private async validateCategoryLabel(
+    label: string,
+    excludeId?: string
+  ): Promise<void> {
+    if (!this.db) throw new Error("Database not initialized");
+
+    if (label.length === 0 || label.length > MAX_CATEGORY_LABEL_LENGTH) {
+      throw this.createError(
+        "INVALID_CATEGORY",
+        `Category name must be between 1 and ${MAX_CATEGORY_LABEL_LENGTH} characters`
+      );
+    }
+
+    const existing = await this.db.getFirstAsync(
+      "SELECT id FROM categories WHERE label = ? COLLATE NOCASE AND id != ?",
+      [label, excludeId ?? ""]
+    );
+    if (existing) {
+      throw this.createError(
+        "DUPLICATE_CATEGORY",
+        `A category named "${label}" already exists`
+      );
+    }
+  }
+
+  /**
+   * Map database row to EntryRevision object
+   */
+  private mapRowToRevision(row: any): EntryRevision {
+    return {
+      id: row.id,
+      entryId: row.entry_id,
+      action: row.action,
+      before: row.before_json ? JSON.parse(row.before_json) : null,
+      after: row.after_json ? JSON.parse(row.after_json) : null,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Extract the fields tracked by the revision history
+   */
+  private toSnapshot(entry: MealEntry): MealEntrySnapshot {
+    return {
+      category: entry.category,
+      timestamp: entry.timestamp,
+      notes: entry.notes || null,
+      tags: [...(entry.tags ?? [])].sort(),
+      utcOffset: entry.utcOffset,
+      timezone: entry.timezone,
+    };
+  }
+
+  /**
+   * Compare two snapshots field by field
+   */
+  private isSameSnapshot(a: MealEntrySnapshot, b: MealEntrySnapshot): boolean {
+    return (
+      a.category === b.category &&
+      a.timestamp === b.timestamp &&
+      a.notes === b.notes &&
+      (a.tags ?? []).join(",") === (b.tags ?? []).join(",") &&
+      (a.utcOffset ?? null) === (b.utcOffset ?? null) &&
+      (a.timezone ?? null) === (b.timezone ?? null)
+    );
+  }
+
+  /**
+   * Append a row to the entry_revisions audit trail
+   */
+  private async recordRevision(
+    entryId: string,
+    action: RevisionAction,
+    before: MealEntrySnapshot | null,
+    after: MealEntrySnapshot | null,
+    createdAt: number
+  ): Promise<void> {
+    await this.db!.runAsync(
+      `INSERT INTO entry_revisions
+       (id, entry_id, action, before_json, after_json, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        `rev_${createdAt}_${Math.random().toString(36).substr(2, 9)}`,
+        entryId,
+        action,
+        before ? JSON.stringify(before) : null,
+        after ? JSON.stringify(after) : null,
+        createdAt,
+      ]
+    );
+  }
+
   /**
    * Generate unique ID for meal entries
    */
@@ -625,6 +2422,13 @@ class DatabaseServiceImpl implements DatabaseService {
     return `meal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Check whether an error is the ENTRY_NOT_FOUND error thrown above
+   */
+  private isNotFoundError(error: unknown): boolean {
+    return (error as AppError | undefined)?.code === "ENTRY_NOT_FOUND";
+  }
+
   /**
    * Create standardized error object
    */
@@ -1,7 +1,149 @@
+import { MealEntry, TimeZoneChange } from "../types";
+
 /**
  * Date utility functions for local date handling
  * Replaces toISOString() usage to ensure local time is used consistently
+ *
+ * A "day" runs from the configured day start hour to the same hour the next
+ * calendar day, so late-night entries count toward the day they belong to.
+ * With the default of 0 days run from midnight to midnight.
+ *
+ * Entries carry the UTC offset they were logged in and are bucketed by the
+ * wall clock of that offset, so travelling doesn't move past entries to
+ * other days. Durations always come from the raw timestamps.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+let dayStartHour = 0;
+
+/**
+ * Set the hour (0-23) at which a new day begins
+ * Called by the settings provider whenever settings load or change
+ */
+export function setDayStartHour(hour: number): void {
+  dayStartHour = Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 0;
+}
+
+/**
+ * Get the hour (0-23) at which a new day begins
+ */
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+/**
+ * Parse a YYYY-MM-DD date string as local midnight
+ * new Date("YYYY-MM-DD") is parsed as UTC, which lands on the wrong day
+ * west of Greenwich
+ * @param dateString - Date string in YYYY-MM-DD format
+ * @returns Date at local midnight of that calendar day
+ */
+export function parseDateString(dateString: string): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Get the wall-clock range covered by a day, honoring the day start hour
+ * Wall-clock times are local times read as if they were UTC, so they can be
+ * compared against `timestamp + utcOffset` of entries from any zone
+ * @param dateString - Date string in YYYY-MM-DD format
+ * @returns Start (inclusive) and end (exclusive) wall-clock milliseconds
+ */
+export function getWallClockDayBounds(dateString: string): {
+  start: number;
+  end: number;
+} {
+  const [year, month, day] = dateString.split("-").map(Number);
+  const start = Date.UTC(year, month - 1, day, dayStartHour);
+  return { start, end: start + 24 * HOUR_MS };
+}
+
+/**
+ * Get the moment the next day begins on this device's clock
+ * @param now - Unix timestamp in milliseconds, defaults to now
+ * @returns Timestamp of the next day start hour after now
+ */
+export function getNextDayStart(now: number = Date.now()): number {
+  const next = new Date(now);
+  next.setHours(dayStartHour, 0, 0, 0);
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Get the device's UTC offset at a moment
+ * @param timestamp - Unix timestamp in milliseconds, defaults to now
+ * @returns Offset in minutes east of UTC, e.g. 60 for Central European Time
+ */
+export function getUtcOffsetMinutes(timestamp: number = Date.now()): number {
+  return -new Date(timestamp).getTimezoneOffset();
+}
+
+/**
+ * Get the device's IANA time zone, e.g. "Europe/Berlin"
+ * @returns Zone name, or undefined when the runtime can't tell
+ */
+export function getCurrentTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format a UTC offset for display
+ * @param offsetMinutes - Minutes east of UTC
+ * @returns Label like "UTC+1", "UTC-5" or "UTC+5:30"
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes >= 0 ? "+" : "-";
+  const hours = Math.floor(Math.abs(offsetMinutes) / 60);
+  const minutes = Math.abs(offsetMinutes) % 60;
+  return `UTC${sign}${hours}${
+    minutes ? `:${String(minutes).padStart(2, "0")}` : ""
+  }`;
+}
+
+/**
+ * Format the time of an entry on the wall clock it was logged by
+ * @param entry - Entry with its timestamp and, when known, UTC offset
+ * @returns Time like "8:30 AM"
+ */
+export function formatEntryTime(
+  entry: Pick<MealEntry, "timestamp" | "utcOffset">
+): string {
+  const options: Intl.DateTimeFormatOptions = {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  };
+  if (entry.utcOffset === undefined) {
+    return new Date(entry.timestamp).toLocaleTimeString("en-US", options);
+  }
+  return new Date(
+    entry.timestamp + entry.utcOffset * MINUTE_MS
+  ).toLocaleTimeString("en-US", { ...options, timeZone: "UTC" });
+}
+
+/**
+ * Get the hour of day an entry was logged at, on its own wall clock
+ * @param entry - Entry with its timestamp and, when known, UTC offset
+ * @returns Hour from 0 to 23
  */
+export function getEntryHour(
+  entry: Pick<MealEntry, "timestamp" | "utcOffset">
+): number {
+  if (entry.utcOffset === undefined) {
+    return new Date(entry.timestamp).getHours();
+  }
+  return new Date(entry.timestamp + entry.utcOffset * MINUTE_MS).getUTCHours();
+}
 
 /**
  * Get local date string in YYYY-MM-DD format
@@ -20,7 +162,7 @@ export function getLocalDateString(date: Date = new Date()): string {
  * @returns Today's date in YYYY-MM-DD format using local time
  */
 export function getTodayDateString(): string {
-  return getLocalDateString(new Date());
+  return getDateStringFromTimestamp(Date.now());
 }
 
 /**
@@ -28,18 +170,86 @@ export function getTodayDateString(): string {
  * @returns Yesterday's date in YYYY-MM-DD format using local time
  */
 export function getYesterdayDateString(): string {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return getLocalDateString(yesterday);
+  return getDateStringWithOffset(getTodayDateString(), -1);
 }
 
 /**
- * Get date string from timestamp in local time
+ * Get the day a timestamp belongs to in local time
+ * Times before the day start hour belong to the previous day
  * @param timestamp - Unix timestamp in milliseconds
- * @returns Date string in YYYY-MM-DD format using local time
+ * @param utcOffset - Minutes east of UTC to read the time in; defaults to
+ * the device's current zone
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getDateStringFromTimestamp(
+  timestamp: number,
+  utcOffset?: number
+): string {
+  if (utcOffset === undefined) {
+    const date = new Date(timestamp);
+    if (date.getHours() < dayStartHour) {
+      date.setDate(date.getDate() - 1);
+    }
+    return getLocalDateString(date);
+  }
+
+  // Shift to the entry's wall clock and read it through the UTC getters
+  const wallClock = new Date(
+    timestamp + utcOffset * MINUTE_MS - dayStartHour * HOUR_MS
+  );
+  const month = String(wallClock.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(wallClock.getUTCDate()).padStart(2, "0");
+  return `${wallClock.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the day an entry belongs to, in the zone it was logged in
+ * @param entry - Entry with its timestamp and, when known, UTC offset
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getEntryDateString(
+  entry: Pick<MealEntry, "timestamp" | "utcOffset">
+): string {
+  return getDateStringFromTimestamp(entry.timestamp, entry.utcOffset);
+}
+
+/**
+ * Find where consecutive entries were logged in different time zones
+ * Daylight saving shifts within one named zone aren't reported
+ * @param entries - Entries sorted by timestamp, oldest first
+ * @returns One change per switch, at the first entry in the new zone
  */
-export function getDateStringFromTimestamp(timestamp: number): string {
-  return getLocalDateString(new Date(timestamp));
+export function getTimeZoneChanges(entries: MealEntry[]): TimeZoneChange[] {
+  const changes: TimeZoneChange[] = [];
+
+  for (let i = 1; i < entries.length; i++) {
+    const previous = entries[i - 1];
+    const current = entries[i];
+    if (
+      previous.utcOffset === undefined ||
+      current.utcOffset === undefined ||
+      previous.utcOffset === current.utcOffset
+    ) {
+      continue;
+    }
+    if (
+      previous.timezone &&
+      current.timezone &&
+      previous.timezone === current.timezone
+    ) {
+      continue;
+    }
+
+    changes.push({
+      timestamp: current.timestamp,
+      fromOffset: previous.utcOffset,
+      toOffset: current.utcOffset,
+      fromTimeZone: previous.timezone,
+      toTimeZone: current.timezone,
+    });
+  }
+
+  return changes;
 }
 
 /**
@@ -52,11 +262,26 @@ export function getDateStringWithOffset(
   baseDate: string,
   offsetDays: number
 ): string {
-  const date = new Date(baseDate);
+  const date = parseDateString(baseDate);
   date.setDate(date.getDate() + offsetDays);
   return getLocalDateString(date);
 }
 
+/**
+ * Count calendar days from one date to another
+ * @param startDate - Start date string in YYYY-MM-DD format
+ * @param endDate - End date string in YYYY-MM-DD format
+ * @returns Whole days between the dates; 0 for the same day, negative if endDate is earlier
+ */
+export function getDaysBetween(startDate: string, endDate: string): number {
+  // Rounding absorbs the 23h and 25h days around DST switches
+  return Math.round(
+    (parseDateString(endDate).getTime() -
+      parseDateString(startDate).getTime()) /
+      (24 * HOUR_MS)
+  );
+}
+
 /**
  * Create array of date strings for a date range in local time
  * @param startDate - Start date string in YYYY-MM-DD format
@@ -65,7 +290,7 @@ export function getDateStringWithOffset(
  */
 export function createDateRange(startDate: string, days: number): string[] {
   const dateStrings: string[] = [];
-  const start = new Date(startDate);
+  const start = parseDateString(startDate);
 
   for (let i = 0; i < days; i++) {
     const currentDate = new Date(start);
@@ -93,3 +318,29 @@ export function isToday(dateString: string): boolean {
 export function isYesterday(dateString: string): boolean {
   return dateString === getYesterdayDateString();
 }
+
+/**
+ * Format a timestamp as an ISO 8601 string with a UTC offset
+ * @param timestamp - Unix timestamp in milliseconds
+ * @param offsetMinutes - Minutes east of UTC; defaults to the device's zone
+ * @returns Date string like 2024-03-05T08:30:00+01:00
+ */
+export function formatIsoWithOffset(
+  timestamp: number,
+  offsetMinutes: number = getUtcOffsetMinutes(timestamp)
+): string {
+  const wallClock = new Date(timestamp + offsetMinutes * MINUTE_MS);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  const sign = offsetMinutes >= 0 ? "+" : "-";
+  const absoluteOffset = Math.abs(offsetMinutes);
+
+  return (
+    `${wallClock.getUTCFullYear()}-${pad(wallClock.getUTCMonth() + 1)}-${pad(
+      wallClock.getUTCDate()
+    )}T${pad(wallClock.getUTCHours())}:${pad(
+      wallClock.getUTCMinutes()
+    )}:${pad(wallClock.getUTCSeconds())}` +
+    `${sign}${pad(Math.floor(absoluteOffset / 60))}:${pad(absoluteOffset % 60)}`
+  );
+}
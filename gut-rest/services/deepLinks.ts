@@ -0,0 +1,146 @@
+/**
+ * Parsing for gutrest:// links used by shortcuts, NFC tags and automations
+ */
+import { MealCategory } from "../types";
+import {
+  getCategoryDefinitions,
+  isValidCategory,
+} from "../constants/MealCategories";
+import {
+  MAX_FASTING_GOAL_HOURS,
+  MIN_FASTING_GOAL_HOURS,
+} from "../constants/Settings";
+import { normalizeTags } from "./tagUtils";
+
+// Allow for clock drift between an automation app and this device
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+export type LogLinkParams = {
+  category?: string;
+  time?: string; // "now", epoch seconds or milliseconds, or an ISO date
+  notes?: string;
+  tags?: string; // Comma separated
+  review?: string; // "1" opens quick-add prefilled instead of logging
+};
+
+export type ParsedLogLink =
+  | {
+      ok: true;
+      category: MealCategory | null; // Null leaves the choice to quick-add
+      timestamp: number;
+      notes?: string;
+      tags: string[];
+      review: boolean;
+    }
+  | { ok: false; error: string };
+
+/**
+ * Parse the time of a link, defaulting to now
+ * @param value "now", epoch seconds or milliseconds, or an ISO date
+ * @param now Current time
+ * @returns Timestamp, or null when it can't be read or is in the future
+ */
+export function parseLinkTime(
+  value: string | undefined,
+  now: number = Date.now()
+): number | null {
+  const trimmed = value?.trim() ?? "";
+  if (trimmed === "" || trimmed.toLowerCase() === "now") {
+    return now;
+  }
+
+  let timestamp: number;
+  if (/^\d+$/.test(trimmed)) {
+    // Ten digits or fewer are seconds, as Unix tools hand them out
+    timestamp = trimmed.length <= 10 ? Number(trimmed) * 1000 : Number(trimmed);
+  } else {
+    timestamp = Date.parse(trimmed);
+  }
+
+  if (!Number.isFinite(timestamp) || timestamp > now + FUTURE_TOLERANCE_MS) {
+    return null;
+  }
+  return Math.min(timestamp, now);
+}
+
+/**
+ * Match a link's category by id, then by label among the active categories
+ * @param value Category as written in the link
+ * @returns Category id, or null when nothing matches
+ */
+function resolveLinkCategory(value: string): MealCategory | null {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+  const categories = getCategoryDefinitions();
+  const match =
+    categories.find(
+      (category) => category.id === trimmed || category.id === lower
+    ) ?? categories.find((category) => category.label.toLowerCase() === lower);
+
+  return match && isValidCategory(match.id) ? match.id : null;
+}
+
+/**
+ * Validate the parameters of a gutrest://log link
+ * @param params Query parameters from the link
+ * @param now Current time
+ * @returns What to log, or why the link can't be used
+ */
+export function parseLogLink(
+  params: LogLinkParams,
+  now: number = Date.now()
+): ParsedLogLink {
+  const review = params.review === "1" || params.review === "true";
+
+  const rawCategory = params.category?.trim() ?? "";
+  let category: MealCategory | null = null;
+  if (rawCategory !== "") {
+    category = resolveLinkCategory(rawCategory);
+    if (!category) {
+      return {
+        ok: false,
+        error: `"${params.category}" isn't one of your categories.`,
+      };
+    }
+  }
+
+  const timestamp = parseLinkTime(params.time, now);
+  if (timestamp === null) {
+    return {
+      ok: false,
+      error: `"${params.time}" isn't a time in the past.`,
+    };
+  }
+
+  return {
+    ok: true,
+    category,
+    timestamp,
+    notes: params.notes?.trim() || undefined,
+    tags: normalizeTags(params.tags?.split(",") ?? []),
+    // Without a category there's nothing to log yet
+    review: review || category === null,
+  };
+}
+
+/**
+ * Read the optional goal of a gutrest://fast/start link
+ * @param value Goal in hours, if given
+ * @returns Goal hours, undefined when absent, or null when out of range
+ */
+export function parseLinkGoalHours(
+  value: string | undefined
+): number | undefined | null {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const hours = Number(value);
+  if (
+    !Number.isInteger(hours) ||
+    hours < MIN_FASTING_GOAL_HOURS ||
+    hours > MAX_FASTING_GOAL_HOURS
+  ) {
+    return null;
+  }
+  return hours;
+}
@@ -0,0 +1,303 @@
+import * as Crypto from "expo-crypto";
+import { gcm } from "@noble/ciphers/aes";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+import { AppError, EncryptedEnvelope } from "../types";
+
+export const ENCRYPTED_FORMAT = "gut-rest-encrypted";
+
+// Bump when the envelope layout or algorithms change
+export const ENCRYPTION_FORMAT_VERSION = 1;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// PBKDF2 runs in JavaScript on the device, so this trades some strength for
+// a derivation that finishes in a few seconds on older phones. The count is
+// stored in every file, so it can be raised without breaking old backups.
+const PBKDF2_ITERATIONS = 150_000;
+
+// Refuse files asking for absurd work or too little of it
+const MIN_ITERATIONS = 10_000;
+const MAX_ITERATIONS = 10_000_000;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12; // Standard GCM nonce size
+const KEY_BYTES = 32; // AES-256
+
+/**
+ * Passphrase-based encryption of backup files
+ *
+ * PBKDF2-SHA256 derives 64 bytes from the passphrase: the first half is the
+ * AES-256-GCM key, a hash of the second half is stored as a key check so a
+ * wrong passphrase can be told apart from a modified file. The header is
+ * authenticated together with the ciphertext.
+ */
+class EncryptionServiceImpl {
+  /**
+   * Encrypt text with a passphrase
+   * @returns Serialized envelope with the KDF parameters and ciphertext
+   */
+  async encrypt(plaintext: string, passphrase: string): Promise<string> {
+    this.validatePassphrase(passphrase);
+
+    try {
+      const salt = Crypto.getRandomBytes(SALT_BYTES);
+      const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+
+      const header: Omit<EncryptedEnvelope, "ciphertext"> = {
+        format: ENCRYPTED_FORMAT,
+        formatVersion: ENCRYPTION_FORMAT_VERSION,
+        kdf: {
+          algorithm: "pbkdf2-sha256",
+          iterations: PBKDF2_ITERATIONS,
+          salt: this.toBase64(salt),
+        },
+        cipher: {
+          algorithm: "aes-256-gcm",
+          nonce: this.toBase64(nonce),
+        },
+        keyCheck: "",
+      };
+
+      const { key, keyCheck } = await this.deriveKey(
+        passphrase,
+        salt,
+        PBKDF2_ITERATIONS
+      );
+      header.keyCheck = keyCheck;
+
+      const ciphertext = gcm(
+        key,
+        nonce,
+        this.getAssociatedData(header)
+      ).encrypt(utf8ToBytes(plaintext));
+
+      const envelope: EncryptedEnvelope = {
+        ...header,
+        ciphertext: this.toBase64(ciphertext),
+      };
+      console.log("[Encryption] Encrypted", plaintext.length, "characters");
+      return JSON.stringify(envelope);
+    } catch (error) {
+      console.error("[Encryption] Encrypt failed:", error);
+      throw this.createError(
+        "ENCRYPTION_FAILED",
+        "Failed to encrypt the file",
+        error
+      );
+    }
+  }
+
+  /**
+   * Decrypt an envelope produced by encrypt()
+   * @throws WRONG_PASSPHRASE when the key check doesn't match, TAMPERED_FILE
+   * when the header or ciphertext fail authentication
+   */
+  async decrypt(text: string, passphrase: string): Promise<string> {
+    const envelope = this.parseEnvelope(text);
+
+    let salt: Uint8Array;
+    let nonce: Uint8Array;
+    let ciphertext: Uint8Array;
+    try {
+      salt = this.fromBase64(envelope.kdf.salt);
+      nonce = this.fromBase64(envelope.cipher.nonce);
+      ciphertext = this.fromBase64(envelope.ciphertext);
+    } catch (error) {
+      throw this.createError(
+        "TAMPERED_FILE",
+        "The encrypted file is damaged or was modified",
+        error
+      );
+    }
+    if (salt.length !== SALT_BYTES || nonce.length !== NONCE_BYTES) {
+      throw this.createError(
+        "TAMPERED_FILE",
+        "The encrypted file is damaged or was modified"
+      );
+    }
+
+    const { key, keyCheck } = await this.deriveKey(
+      passphrase,
+      salt,
+      envelope.kdf.iterations
+    );
+    if (keyCheck !== envelope.keyCheck) {
+      throw this.createError("WRONG_PASSPHRASE", "The passphrase is incorrect");
+    }
+
+    try {
+      const plaintext = gcm(
+        key,
+        nonce,
+        this.getAssociatedData(envelope)
+      ).decrypt(ciphertext);
+      return this.bytesToUtf8(plaintext);
+    } catch (error) {
+      console.warn("[Encryption] Authentication failed:", error);
+      throw this.createError(
+        "TAMPERED_FILE",
+        "The encrypted file is damaged or was modified",
+        error
+      );
+    }
+  }
+
+  /**
+   * Check whether text looks like an encrypted envelope
+   */
+  isEncrypted(text: string): boolean {
+    try {
+      return JSON.parse(text)?.format === ENCRYPTED_FORMAT;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate the envelope header before spending time on key derivation
+   */
+  private parseEnvelope(text: string): EncryptedEnvelope {
+    let envelope: any;
+    try {
+      envelope = JSON.parse(text);
+    } catch (error) {
+      throw this.createError(
+        "INVALID_ENCRYPTED_FILE",
+        "This file isn't an encrypted Gut Rest backup",
+        error
+      );
+    }
+
+    if (envelope?.format !== ENCRYPTED_FORMAT) {
+      throw this.createError(
+        "INVALID_ENCRYPTED_FILE",
+        "This file isn't an encrypted Gut Rest backup"
+      );
+    }
+    if (
+      typeof envelope.formatVersion !== "number" ||
+      envelope.formatVersion > ENCRYPTION_FORMAT_VERSION
+    ) {
+      throw this.createError(
+        "ENCRYPTION_TOO_NEW",
+        "This file was encrypted by a newer version of the app. Update the app to open it."
+      );
+    }
+
+    const { kdf, cipher } = envelope;
+    const isValid =
+      kdf?.algorithm === "pbkdf2-sha256" &&
+      Number.isInteger(kdf.iterations) &&
+      kdf.iterations >= MIN_ITERATIONS &&
+      kdf.iterations <= MAX_ITERATIONS &&
+      typeof kdf.salt === "string" &&
+      cipher?.algorithm === "aes-256-gcm" &&
+      typeof cipher.nonce === "string" &&
+      typeof envelope.keyCheck === "string" &&
+      typeof envelope.ciphertext === "string";
+
+    if (!isValid) {
+      throw this.createError(
+        "TAMPERED_FILE",
+        "The encrypted file is damaged or was modified"
+      );
+    }
+    return envelope as EncryptedEnvelope;
+  }
+
+  private async deriveKey(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number
+  ): Promise<{ key: Uint8Array; keyCheck: string }> {
+    // Normalize so the same passphrase typed on another keyboard still matches
+    const derived = await pbkdf2Async(
+      sha256,
+      utf8ToBytes(passphrase.normalize("NFKC")),
+      salt,
+      { c: iterations, dkLen: KEY_BYTES * 2 }
+    );
+
+    return {
+      key: derived.slice(0, KEY_BYTES),
+      keyCheck: bytesToHex(sha256(derived.slice(KEY_BYTES))),
+    };
+  }
+
+  /**
+   * Serialize the header in a fixed field order for authentication
+   */
+  private getAssociatedData(
+    header: Omit<EncryptedEnvelope, "ciphertext">
+  ): Uint8Array {
+    return utf8ToBytes(
+      JSON.stringify([
+        header.format,
+        header.formatVersion,
+        header.kdf.algorithm,
+        header.kdf.iterations,
+        header.kdf.salt,
+        header.cipher.algorithm,
+        header.cipher.nonce,
+      ])
+    );
+  }
+
+  private validatePassphrase(passphrase: string): void {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw this.createError(
+        "WEAK_PASSPHRASE",
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+    }
+  }
+
+  /**
+   * Decode UTF-8 without TextDecoder, which Hermes doesn't provide
+   */
+  private bytesToUtf8(bytes: Uint8Array): string {
+    let encoded = "";
+    for (let i = 0; i < bytes.length; i++) {
+      encoded += `%${bytes[i].toString(16).padStart(2, "0")}`;
+    }
+    return decodeURIComponent(encoded);
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  private fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * Create standardized error object
+   */
+  private createError(code: string, message: string, details?: any): AppError {
+    return {
+      code,
+      message,
+      details,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// Export singleton instance
+export const encryptionService = new EncryptionServiceImpl();
+
+// Export class for testing
+export { EncryptionServiceImpl };
@@ -0,0 +1,89 @@
+/**
+ * Helpers for quick-add shortcuts: recent entries and repeating yesterday
+ */
+import { MealEntry, MealSlot, MealTemplate } from "../types";
+import { getEntryHour } from "./dateUtils";
+import {
+  doesCategoryBreakFasting,
+  isValidCategory,
+} from "../constants/MealCategories";
+
+// Breakfast runs 4-11, lunch 11-16 and dinner from 16 through 4 the next morning
+const LUNCH_START_HOUR = 11;
+const DINNER_START_HOUR = 16;
+const BREAKFAST_START_HOUR = 4;
+
+/**
+ * Key identifying what was eaten, ignoring when
+ * @param entry Entry or template
+ * @returns Same key for the same category, notes and tags
+ */
+export function getEntryContentKey(
+  entry: Pick<MealEntry, "category" | "notes" | "tags">
+): string {
+  const notes = entry.notes?.trim().toLowerCase() ?? "";
+  const tags = [...(entry.tags ?? [])].sort().join(",");
+  return `${entry.category}|${notes}|${tags}`;
+}
+
+/**
+ * Latest entries with distinct contents, skipping archived categories
+ * @param entries Entries in any order
+ * @param limit Most entries to return
+ * @param templates Templates already offered, left out of the list
+ * @returns Newest first
+ */
+export function getRecentDistinctEntries(
+  entries: MealEntry[],
+  limit: number,
+  templates: MealTemplate[] = []
+): MealEntry[] {
+  const seen = new Set(templates.map(getEntryContentKey));
+  const recent: MealEntry[] = [];
+
+  for (const entry of [...entries].sort((a, b) => b.timestamp - a.timestamp)) {
+    const key = getEntryContentKey(entry);
+    if (seen.has(key) || !isValidCategory(entry.category)) continue;
+    seen.add(key);
+    recent.push(entry);
+    if (recent.length === limit) break;
+  }
+  return recent;
+}
+
+/**
+ * Part of the day an hour falls in
+ * @param hour Hour (0-23)
+ * @returns Meal slot
+ */
+export function getMealSlot(hour: number): MealSlot {
+  if (hour >= BREAKFAST_START_HOUR && hour < LUNCH_START_HOUR) {
+    return "breakfast";
+  }
+  if (hour >= LUNCH_START_HOUR && hour < DINNER_START_HOUR) {
+    return "lunch";
+  }
+  return "dinner";
+}
+
+/**
+ * Find yesterday's meal in the slot the current time falls in
+ * @param yesterdayEntries Entries of yesterday
+ * @param now Current time
+ * @returns The slot and yesterday's first meal in it, or null
+ */
+export function findYesterdayMeal(
+  yesterdayEntries: MealEntry[],
+  now: number = Date.now()
+): { slot: MealSlot; entry: MealEntry } | null {
+  const slot = getMealSlot(new Date(now).getHours());
+  const entry = [...yesterdayEntries]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .find(
+      (candidate) =>
+        doesCategoryBreakFasting(candidate.category) &&
+        isValidCategory(candidate.category) &&
+        getMealSlot(getEntryHour(candidate)) === slot
+    );
+  return entry ? { slot, entry } : null;
+}
@@ -0,0 +1,324 @@
+import * as SQLite from "expo-sqlite";
+
+/**
+ * A single schema change, applied in version order
+ */
+export interface Migration {
+  version: number; // Stored in PRAGMA user_version once applied
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * FTS5 index over meal_entries.notes, keyed by the meal_entries rowid.
+ * Migrations that rebuild meal_entries must also rebuild this index.
+ */
+export const NOTES_FTS_TABLE = "meal_entries_fts";
+
+/**
+ * Ordered schema migration registry for the GutRest database
+ *
+ * Each migration runs once, inside its own transaction, and the applied
+ * version is tracked through `PRAGMA user_version`. Append new migrations
+ * to the end of the list with the next version number - never edit or
+ * reorder a migration that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_meal_entries",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // IF NOT EXISTS keeps this safe for installs that predate versioning
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS meal_entries (
+          id TEXT PRIMARY KEY,
+          category TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          notes TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_meal_entries_timestamp
+        ON meal_entries(timestamp);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "drop_legacy_date_column",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // Early builds stored a redundant `date` column next to `timestamp`
+      const columnInfo = await db.getAllAsync(
+        `PRAGMA table_info(meal_entries)`
+      );
+      const hasDateColumn = columnInfo.some((col: any) => col.name === "date");
+
+      if (!hasDateColumn) {
+        return;
+      }
+
+      await db.execAsync(`DROP TABLE IF EXISTS meal_entries_new;`);
+
+      await db.execAsync(`
+        CREATE TABLE meal_entries_new (
+          id TEXT PRIMARY KEY,
+          category TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          notes TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        INSERT INTO meal_entries_new (id, category, timestamp, notes, created_at, updated_at)
+        SELECT id, category, timestamp, notes, created_at, updated_at
+        FROM meal_entries;
+      `);
+
+      await db.execAsync(`DROP TABLE meal_entries;`);
+      await db.execAsync(
+        `ALTER TABLE meal_entries_new RENAME TO meal_entries;`
+      );
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_meal_entries_timestamp
+        ON meal_entries(timestamp);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "add_meal_entries_deleted_at",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // Tombstone for soft-deleted entries; NULL means the entry is live
+      await db.execAsync(
+        `ALTER TABLE meal_entries ADD COLUMN deleted_at INTEGER;`
+      );
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_meal_entries_deleted_at
+        ON meal_entries(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "create_entry_revisions",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // Snapshots are stored as JSON so the audit trail survives schema changes
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS entry_revisions (
+          id TEXT PRIMARY KEY,
+          entry_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          before_json TEXT,
+          after_json TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_entry_revisions_entry_id
+        ON entry_revisions(entry_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "create_meal_notes_fts",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // Some SQLite builds ship without FTS5; search falls back to LIKE there
+      try {
+        await db.execAsync(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS ${NOTES_FTS_TABLE}
+          USING fts5(notes, content='meal_entries', content_rowid='rowid');
+        `);
+      } catch (error) {
+        console.warn("[Database] FTS5 unavailable, notes search uses LIKE");
+        return;
+      }
+
+      // Keep the external-content index in sync with meal_entries
+      await db.execAsync(`
+        CREATE TRIGGER IF NOT EXISTS meal_entries_fts_insert
+        AFTER INSERT ON meal_entries BEGIN
+          INSERT INTO ${NOTES_FTS_TABLE}(rowid, notes) VALUES (new.rowid, new.notes);
+        END;
+      `);
+      await db.execAsync(`
+        CREATE TRIGGER IF NOT EXISTS meal_entries_fts_delete
+        AFTER DELETE ON meal_entries BEGIN
+          INSERT INTO ${NOTES_FTS_TABLE}(${NOTES_FTS_TABLE}, rowid, notes)
+          VALUES ('delete', old.rowid, old.notes);
+        END;
+      `);
+      await db.execAsync(`
+        CREATE TRIGGER IF NOT EXISTS meal_entries_fts_update
+        AFTER UPDATE OF notes ON meal_entries BEGIN
+          INSERT INTO ${NOTES_FTS_TABLE}(${NOTES_FTS_TABLE}, rowid, notes)
+          VALUES ('delete', old.rowid, old.notes);
+          INSERT INTO ${NOTES_FTS_TABLE}(rowid, notes) VALUES (new.rowid, new.notes);
+        END;
+      `);
+
+      // Index notes written before this migration
+      await db.execAsync(
+        `INSERT INTO ${NOTES_FTS_TABLE}(${NOTES_FTS_TABLE}) VALUES ('rebuild');`
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "create_categories",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id TEXT PRIMARY KEY,
+          label TEXT NOT NULL,
+          icon TEXT NOT NULL,
+          color TEXT NOT NULL,
+          dark_color TEXT NOT NULL,
+          sort_order INTEGER NOT NULL,
+          weight REAL NOT NULL,
+          recommended_gap_hours REAL NOT NULL,
+          breaks_fast INTEGER NOT NULL,
+          is_builtin INTEGER NOT NULL DEFAULT 0,
+          archived_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      // Seed with the categories that used to be compile-time constants,
+      // written out so later changes to the constants don't alter this step
+      await db.execAsync(`
+        INSERT OR IGNORE INTO categories
+          (id, label, icon, color, dark_color, sort_order, weight,
+           recommended_gap_hours, breaks_fast, is_builtin, created_at, updated_at)
+        SELECT *, 1, CAST(strftime('%s', 'now') AS INTEGER) * 1000,
+               CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (VALUES
+          ('water', 'Water', '💧', '#4FC3F7', '#0288D1', 1, 0.1, 0.5, 0),
+          ('fruit', 'Fruit', '🍎', '#81C784', '#388E3C', 2, 0.3, 2.0, 1),
+          ('drink', 'Drink', '☕', '#BA68C8', '#7B1FA2', 3, 0.2, 1.0, 1),
+          ('light_meal', 'Light Meal', '🌯', '#AED581', '#689F38', 4, 0.5, 3.0, 1),
+          ('medium_meal', 'Medium Meal', '🥙', '#FFB74D', '#F57C00', 5, 0.8, 4.0, 1),
+          ('heavy_meal', 'Heavy Meal', '🍱', '#FF8A65', '#E64A19', 6, 1.0, 5.0, 1),
+          ('fast_food', 'Fast Food', '🍔', '#F06292', '#C2185B', 7, 1.2, 5.5, 1)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "create_tags",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS entry_tags (
+          entry_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          PRIMARY KEY (entry_id, tag_id)
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_entry_tags_tag_id
+        ON entry_tags(tag_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "add_meal_entries_time_zone",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // Minutes east of UTC and IANA zone name at the time of logging
+      await db.execAsync(
+        `ALTER TABLE meal_entries ADD COLUMN utc_offset INTEGER;`
+      );
+      await db.execAsync(`ALTER TABLE meal_entries ADD COLUMN timezone TEXT;`);
+
+      // Existing entries were bucketed by the device's zone, so give them
+      // the offset it had at each timestamp to keep them on the same day
+      const rows = await db.getAllAsync<{ id: string; timestamp: number }>(
+        "SELECT id, timestamp FROM meal_entries"
+      );
+      for (const row of rows) {
+        await db.runAsync(
+          "UPDATE meal_entries SET utc_offset = ? WHERE id = ?",
+          [-new Date(row.timestamp).getTimezoneOffset(), row.id]
+        );
+      }
+    },
+  },
+  {
+    version: 9,
+    name: "create_fasting_sessions",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // end_time stays NULL while a fast is running
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS fasting_sessions (
+          id TEXT PRIMARY KEY,
+          start_time INTEGER NOT NULL,
+          end_time INTEGER,
+          goal_hours REAL NOT NULL,
+          source TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_fasting_sessions_start_time
+        ON fasting_sessions(start_time);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "create_fasting_protocol_history",
+    up: async (db: SQLite.SQLiteDatabase) => {
+      // One row per day the protocol changed; a day is graded against the
+      // latest row effective on or before it
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS fasting_protocol_history (
+          id TEXT PRIMARY KEY,
+          protocol_id TEXT,
+          fast_days TEXT NOT NULL,
+          effective_date TEXT NOT NULL UNIQUE,
+          created_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_SCHEMA_VERSION =
+  MIGRATIONS.length > 0 ? MIGRATIONS[MIGRATIONS.length - 1].version : 0;
+
+/**
+ * Ensure migration versions are unique and strictly increasing
+ */
+export const validateMigrations = (migrations: Migration[]): void => {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migration ${migrations[i].name} has version ${migrations[i].version}, expected greater than ${migrations[i - 1].version}`
+      );
+    }
+  }
+};
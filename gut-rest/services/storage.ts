@@ -1,5 +1,14 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { StorageService, AppSettings, AppError } from "../types";
+import { Appearance } from "react-native";
+import { StorageService, AppSettings, AppError, MealTemplate } from "../types";
+import {
+  DEFAULT_SETTINGS,
+  LOGGING_REMINDER_HOURS_OPTIONS,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MIN_FASTING_GOAL_HOURS,
+  MAX_FASTING_GOAL_HOURS,
+  STREAK_GRACE_OPTIONS,
+} from "../constants/Settings";
 
 /**
  * AsyncStorage service implementation for user preferences and app settings
@@ -95,17 +104,26 @@ class StorageServiceImpl implements StorageService {
    * Get complete app settings with defaults
    */
   async getAppSettings(): Promise<AppSettings> {
-    const defaultSettings: AppSettings = {
-      theme: "system",
-      notifications: true,
-      defaultMealCategory: "medium_meal",
-      fastingGoalHours: 16,
-      firstLaunch: true,
-      onboardingCompleted: false,
-    };
+    const defaultSettings: AppSettings = { ...DEFAULT_SETTINGS };
 
     try {
-      const settings = await this.getSettings("settings", defaultSettings);
+      const stored = await this.getSettings<Partial<AppSettings>>(
+        "settings",
+        defaultSettings
+      );
+      // Fill in settings added after the stored copy was written
+      const settings: AppSettings = {
+        ...defaultSettings,
+        ...stored,
+        notificationPreferences: {
+          ...defaultSettings.notificationPreferences,
+          ...stored.notificationPreferences,
+          reminders: {
+            ...defaultSettings.notificationPreferences.reminders,
+            ...stored.notificationPreferences?.reminders,
+          },
+        },
+      };
       console.log("[Storage] Loaded app settings:", settings);
       return settings;
     } catch (error) {
@@ -121,6 +139,8 @@ class StorageServiceImpl implements StorageService {
    * Update app settings partially
    */
   async updateAppSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    this.validateSettings(updates);
+
     try {
       const currentSettings = await this.getAppSettings();
       const newSettings: AppSettings = {
@@ -233,12 +253,6 @@ class StorageServiceImpl implements StorageService {
    * Store fasting goal in hours
    */
   async setFastingGoal(hours: number): Promise<void> {
-    if (hours < 8 || hours > 24) {
-      throw this.createError(
-        "INVALID_FASTING_GOAL",
-        "Fasting goal must be between 8 and 24 hours"
-      );
-    }
     await this.updateAppSettings({ fastingGoalHours: hours });
   }
 
@@ -250,6 +264,62 @@ class StorageServiceImpl implements StorageService {
     return settings.fastingGoalHours;
   }
 
+  /**
+   * Get saved quick-add templates, oldest first
+   */
+  async getMealTemplates(): Promise<MealTemplate[]> {
+    return this.getSettings<MealTemplate[]>("mealTemplates", []);
+  }
+
+  /**
+   * Add a quick-add template, or replace the one with the same ID
+   */
+  async saveMealTemplate(template: MealTemplate): Promise<MealTemplate[]> {
+    const name = template.name.trim();
+    if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      throw this.createError(
+        "INVALID_TEMPLATE_NAME",
+        `Template names must be 1 to ${MAX_TEMPLATE_NAME_LENGTH} characters`
+      );
+    }
+
+    const templates = await this.getMealTemplates();
+    const saved = { ...template, name };
+    const index = templates.findIndex((item) => item.id === template.id);
+    const updated =
+      index === -1
+        ? [...templates, saved]
+        : templates.map((item, i) => (i === index ? saved : item));
+
+    await this.setSettings("mealTemplates", updated);
+    return updated;
+  }
+
+  /**
+   * Delete a quick-add template
+   */
+  async deleteMealTemplate(id: string): Promise<MealTemplate[]> {
+    const templates = await this.getMealTemplates();
+    const updated = templates.filter((item) => item.id !== id);
+    await this.setSettings("mealTemplates", updated);
+    return updated;
+  }
+
+  /**
+   * Store how many days deleted entries stay in the trash
+   */
+  async setTrashRetentionDays(days: number): Promise<void> {
+    await this.updateAppSettings({ trashRetentionDays: days });
+  }
+
+  /**
+   * Get trash retention period in days
+   */
+  async getTrashRetentionDays(): Promise<number> {
+    const settings = await this.getAppSettings();
+    return settings.trashRetentionDays;
+  }
+
   /**
    * Export all app data for backup/sharing
    */
@@ -282,18 +352,53 @@ class StorageServiceImpl implements StorageService {
 
   /**
    * Import app data from backup
+   * @param options.replace Also remove current settings the backup doesn't have
    */
-  async importData(data: Record<string, any>): Promise<void> {
+  async importData(
+    data: Record<string, any>,
+    options: { replace?: boolean } = {}
+  ): Promise<void> {
+    if (!this.isPlainObject(data)) {
+      throw this.createError(
+        "INVALID_IMPORT",
+        "Backup settings must be a key-value object"
+      );
+    }
+    if ("settings" in data && !this.isPlainObject(data.settings)) {
+      throw this.createError(
+        "INVALID_IMPORT",
+        "Backup app settings are malformed"
+      );
+    }
+    if ("settings" in data) {
+      this.validateSettings(data.settings);
+    }
+
     try {
       const pairs: [string, string][] = [];
 
       for (const [key, value] of Object.entries(data)) {
+        // JSON can't carry undefined, and storing it would break getSettings
+        if (value === undefined) continue;
+
         const fullKey = this.getFullKey(key);
         const serialized = JSON.stringify(value);
         pairs.push([fullKey, serialized]);
       }
 
+      // Write before removing anything, so a failure keeps the current settings
       await AsyncStorage.multiSet(pairs);
+
+      if (options.replace) {
+        const importedKeys = new Set(pairs.map(([key]) => key));
+        const keys = await AsyncStorage.getAllKeys();
+        const staleKeys = keys.filter(
+          (key) => key.startsWith(this.prefix) && !importedKeys.has(key)
+        );
+        if (staleKeys.length > 0) {
+          await AsyncStorage.multiRemove(staleKeys);
+        }
+      }
       console.log(`[Storage] Imported ${pairs.length} settings`);
     } catch (error) {
       console.error("[Storage] Failed to import data:", error);
@@ -340,6 +445,86 @@ class StorageServiceImpl implements StorageService {
     }
   }
 
+  /**
+   * Reject out-of-range values before they are stored
+   */
+  private validateSettings(updates: Partial<AppSettings>): void {
+    const {
+      fastingGoalHours,
+      dayStartHour,
+      trashRetentionDays,
+      streakGraceDays,
+      notificationPreferences,
+    } = updates;
+
+    if (
+      fastingGoalHours !== undefined &&
+      (!Number.isFinite(fastingGoalHours) ||
+        fastingGoalHours < MIN_FASTING_GOAL_HOURS ||
+        fastingGoalHours > MAX_FASTING_GOAL_HOURS)
+    ) {
+      throw this.createError(
+        "INVALID_FASTING_GOAL",
+        `Fasting goal must be between ${MIN_FASTING_GOAL_HOURS} and ${MAX_FASTING_GOAL_HOURS} hours`
+      );
+    }
+    if (
+      dayStartHour !== undefined &&
+      (!Number.isInteger(dayStartHour) || dayStartHour < 0 || dayStartHour > 23)
+    ) {
+      throw this.createError(
+        "INVALID_DAY_START",
+        "Day start hour must be between 0 and 23"
+      );
+    }
+    if (
+      trashRetentionDays !== undefined &&
+      (!Number.isInteger(trashRetentionDays) ||
+        trashRetentionDays < 1 ||
+        trashRetentionDays > 365)
+    ) {
+      throw this.createError(
+        "INVALID_RETENTION",
+        "Trash retention must be between 1 and 365 days"
+      );
+    }
+    if (
+      streakGraceDays !== undefined &&
+      !STREAK_GRACE_OPTIONS.includes(streakGraceDays)
+    ) {
+      throw this.createError(
+        "INVALID_STREAK_GRACE",
+        `Streak grace days must be one of ${STREAK_GRACE_OPTIONS.join(", ")}`
+      );
+    }
+    if (notificationPreferences !== undefined) {
+      const { quietHoursStart, quietHoursEnd, loggingReminderHours } =
+        notificationPreferences;
+      if (
+        ![quietHoursStart, quietHoursEnd].every(
+          (hour) => Number.isInteger(hour) && hour >= 0 && hour <= 23
+        )
+      ) {
+        throw this.createError(
+          "INVALID_QUIET_HOURS",
+          "Quiet hours must start and end between 0 and 23"
+        );
+      }
+      if (!LOGGING_REMINDER_HOURS_OPTIONS.includes(loggingReminderHours)) {
+        throw this.createError(
+          "INVALID_LOGGING_REMINDER",
+          `Logging reminder must be one of ${LOGGING_REMINDER_HOURS_OPTIONS.join(
+            ", "
+          )} hours`
+        );
+      }
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
   /**
    * Get full storage key with prefix
    */
@@ -392,9 +577,7 @@ export const StorageHelpers = {
   async getEffectiveTheme(): Promise<"light" | "dark"> {
     const theme = await storageService.getTheme();
     if (theme === "system") {
-      // In a real app, you'd check the system theme here
-      // For now, default to light
-      return "light";
+      return Appearance.getColorScheme() === "dark" ? "dark" : "light";
     }
     return theme;
   },
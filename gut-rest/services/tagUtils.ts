@@ -0,0 +1,52 @@
+/**
+ * Tag utility functions for consistent tag naming
+ */
+
+const MAX_TAG_LENGTH = 24;
+
+/**
+ * Normalize a tag name so "Late Night" and "#late-night" are the same tag
+ * @param name Raw tag name as typed by the user
+ * @returns Lowercase, hyphenated tag name (may be empty)
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize a list of tag names, dropping empty names and duplicates
+ * @param names Raw tag names
+ * @returns Unique normalized tag names in their original order
+ */
+export function normalizeTags(names: string[]): string[] {
+  return Array.from(new Set(names.map(normalizeTagName))).filter(Boolean);
+}
+
+/**
+ * Check whether an entry carries any of the given tags
+ * @param entryTags Tags on the entry
+ * @param filterTags Tags to match; an empty list matches everything
+ */
+export function matchesAnyTag(
+  entryTags: string[] | undefined,
+  filterTags: string[]
+): boolean {
+  if (filterTags.length === 0) return true;
+  return (entryTags ?? []).some((tag) => filterTags.includes(tag));
+}
+
+/**
+ * Collect the distinct tags used by a set of entries
+ * @param entries Entries to read tags from
+ * @returns Sorted unique tag names
+ */
+export function collectTags(entries: { tags?: string[] }[]): string[] {
+  return Array.from(
+    new Set(entries.flatMap((entry) => entry.tags ?? []))
+  ).sort();
+}
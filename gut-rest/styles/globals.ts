@@ -1,4 +1,5 @@
 import { StyleSheet } from "react-native";
+import { MEAL_COLORS } from "../constants/MealCategories";
 
 /**
  * Global styles for the GutRest app
@@ -206,28 +207,9 @@ export const GlobalStyles = StyleSheet.create({
 
 /**
  * Color constants for meal categories
- * These match the architecture plan and provide consistent theming
+ * Same palette as MEAL_COLORS, which seeds the categories table
  */
-export const MealColors = {
-  light: {
-    water: "#4FC3F7",
-    fruit: "#81C784",
-    light_meal: "#AED581",
-    medium_meal: "#FFB74D",
-    heavy_meal: "#FF8A65",
-    fast_food: "#F06292",
-    drink: "#BA68C8",
-  },
-  dark: {
-    water: "#0288D1",
-    fruit: "#388E3C",
-    light_meal: "#689F38",
-    medium_meal: "#F57C00",
-    heavy_meal: "#E64A19",
-    fast_food: "#C2185B",
-    drink: "#7B1FA2",
-  },
-} as const;
+export const MealColors = MEAL_COLORS;
 
 /**
  * Typography scale following the existing ThemedText types
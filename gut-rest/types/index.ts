@@ -3,8 +3,8 @@
  * Based on the architecture specification
  */
 
-// Types for meal categories
-export type MealCategory =
+// Categories that ship with the app and seed the categories table
+export type BuiltInMealCategory =
   | "water"
   | "fruit"
   | "light_meal"
@@ -13,14 +13,190 @@ export type MealCategory =
   | "fast_food"
   | "drink";
 
+// Types for meal categories - built-in IDs plus user-defined ones from the database
+export type MealCategory = BuiltInMealCategory | (string & {});
+
 // Main meal entry interface
 export interface MealEntry {
   id: string;
   category: MealCategory;
   timestamp: number; // Unix timestamp in milliseconds - single source of truth for date/time
   notes?: string; // Optional user notes
+  tags?: string[]; // Normalized tag names, e.g. "dairy", "late-night"
+  utcOffset?: number; // Minutes east of UTC where the entry was logged; decides its day
+  timezone?: string; // IANA zone where the entry was logged, e.g. "Europe/Berlin"
   createdAt: number;
   updatedAt: number;
+  deletedAt?: number; // Set while the entry sits in the trash
+}
+
+// Editable fields of a meal entry captured in its revision history
+// utcOffset and timezone are missing on revisions recorded before zones were kept
+export type MealEntrySnapshot = Pick<
+  MealEntry,
+  "category" | "timestamp" | "utcOffset" | "timezone"
+> & {
+  notes: string | null;
+  tags?: string[]; // Missing on revisions recorded before tags existed
+};
+
+export type RevisionAction = "insert" | "update" | "delete" | "restore";
+
+// A single change recorded in the entry_revisions audit trail
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  action: RevisionAction;
+  before: MealEntrySnapshot | null; // null for inserts
+  after: MealEntrySnapshot | null; // null for deletes
+  createdAt: number;
+}
+
+// Free-form tag with the number of live entries using it
+export interface Tag {
+  id: string;
+  name: string;
+  usageCount: number;
+}
+
+// Gap and fasting metrics for entries carrying a tag
+export interface TagBreakdown {
+  tag: string;
+  entryCount: number;
+  averageGapAfterMs: number; // Time until the next intake
+  averageFastAfterMs: number; // Overnight fast when the entry was the day's last meal
+  fastCount: number; // Number of overnight fasts that followed the tag
+}
+
+// One day of chart data for the stats trends
+export interface DailyTrend {
+  date: string; // YYYY-MM-DD
+  overnightFastHours: number | null; // Previous day's last meal to this day's first
+  eatingWindowStartHour: number | null; // First meal, in hours after the day start
+  eatingWindowEndHour: number | null; // Last meal, in hours after the day start
+  gaps: TimeGap[]; // Gaps between the day's entries
+}
+
+// Count of gaps within one band of the gap rating
+export interface GapHistogramBucket {
+  label: string;
+  color: string;
+  count: number;
+}
+
+// Expected digestion after a fast-breaking entry, from its category's recommended gap
+export interface DigestionPhase {
+  entryId: string;
+  startTime: number;
+  digestingUntil: number; // Entry time plus the recommended gap
+  overlapMs: number; // Eaten this long before earlier meals finished digesting
+  restMs?: number; // Rest before the next fast-breaking entry; unset for the latest
+}
+
+// Whether the gut is busy right now, from the meals logged so far
+export interface DigestionStatus {
+  state: "digesting" | "resting";
+  since: number; // When the current state began
+  until?: number; // When digesting is expected to end; unset while resting
+}
+
+// Rules that can hold off the next meal
+export type NextMealConstraint =
+  "category_gap" | "fasting_goal" | "eating_window";
+
+// When the next meal fits every rule, and which rule decided it
+export interface NextMealRecommendation {
+  readyAt: number; // Earliest timestamp that satisfies every constraint
+  binding: NextMealConstraint; // Constraint that sets readyAt
+  gapReadyAt?: number; // Last meal plus its category's recommended gap
+  fastReadyAt?: number; // Running fast reaches its goal
+  windowClosesAt?: number; // End of today's eating window
+}
+
+// One weekday-and-hour slot of the intake heatmap
+export interface HeatmapCell {
+  weekday: number; // 0 = Sunday, by the day the entry is bucketed into
+  hour: number; // 0-23 on the wall clock the entry was logged by
+  value: number; // Entry count, or summed category weights when weighted
+  entries: MealEntry[];
+}
+
+// Columns of the meal log CSV format
+export type CsvField =
+  | "id"
+  | "timestamp"
+  | "category"
+  | "notes"
+  | "tags"
+  | "createdAt"
+  | "updatedAt";
+
+// Index of the CSV column holding each field, or null when not imported
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+// Outcome of checking one CSV row during an import dry run
+export interface CsvImportRow {
+  rowNumber: number; // 1-based line in the file, header included
+  status: "new" | "duplicate" | "error";
+  entry?: MealEntry; // Parsed entry for new and duplicate rows
+  errors: string[];
+  duplicateReason?: "id" | "timestamp_category";
+}
+
+export interface CsvImportPreview {
+  rows: CsvImportRow[];
+  newCount: number;
+  duplicateCount: number;
+  errorCount: number;
+}
+
+// Everything needed to rebuild the app on another device
+export interface BackupData {
+  schemaVersion: number; // Database schema the rows were read from
+  createdAt: number;
+  entries: MealEntry[]; // Every meal_entries row, trashed entries included
+  categories: CategoryDefinition[];
+  fastingSessions?: FastingSession[]; // Missing from backups made before fasts were tracked
+  protocolHistory?: FastingProtocolChange[]; // Missing from backups made before protocols
+  settings: Record<string, any>; // Output of storageService.exportData()
+}
+
+// Versioned backup file contents
+export interface BackupBundle {
+  format: "gut-rest-backup";
+  formatVersion: number;
+  checksum: string; // SHA-256 of the serialized data, hex encoded
+  data: BackupData;
+}
+
+// Passphrase-encrypted file; everything but the ciphertext is the header
+export interface EncryptedEnvelope {
+  format: "gut-rest-encrypted";
+  formatVersion: number;
+  kdf: {
+    algorithm: "pbkdf2-sha256";
+    iterations: number;
+    salt: string; // Base64
+  };
+  cipher: {
+    algorithm: "aes-256-gcm";
+    nonce: string; // Base64
+  };
+  keyCheck: string; // Hash of extra derived key bytes to detect a wrong passphrase
+  ciphertext: string; // Base64, GCM tag appended
+}
+
+export type RestoreMode = "merge" | "replace";
+
+// How a backup compares to the data already on the device
+export interface RestoreSummary {
+  backupCreatedAt: number;
+  newCount: number; // Entries only in the backup
+  conflictCount: number; // Entries in both with different contents
+  unchangedCount: number; // Entries identical in both
+  localOnlyCount: number; // Entries a replace would remove
+  newCategoryCount: number;
+  settingsCount: number;
 }
 
 // Category configuration for UI display
@@ -32,6 +208,28 @@ export interface CategoryConfig {
   order: number; // Display order in quick add
 }
 
+// Full category definition stored in the categories table
+export interface CategoryDefinition extends CategoryConfig {
+  darkColor: string; // Hex color used with the dark theme
+  weight: number; // Meal "heaviness" used in analytics
+  recommendedGapHours: number; // Suggested gap before the next intake
+  breaksFast: boolean;
+  isBuiltIn: boolean;
+  archivedAt?: number; // Archived categories are hidden from quick add
+}
+
+// Fields a user can edit on a category
+export type CategoryInput = Pick<
+  CategoryDefinition,
+  | "label"
+  | "icon"
+  | "color"
+  | "darkColor"
+  | "weight"
+  | "recommendedGapHours"
+  | "breaksFast"
+>;
+
 // Daily summary for stats
 export interface DailySummary {
   date: string; // YYYY-MM-DD
@@ -41,6 +239,39 @@ export interface DailySummary {
   lastIntake?: number; // Timestamp of last intake
   gaps: TimeGap[];
   fastingWindow?: FastingWindow;
+  timeZoneChanges: TimeZoneChange[]; // Zone switches since the previous entry, e.g. after a flight
+  protocolGrade?: ProtocolDayGrade; // Unset on days before the user picked a protocol
+  gutRestScore?: GutRestScore; // Unset without a fast-breaking entry, or with one meal and no overnight fast
+}
+
+// A gap after an entry that fell short of the category's recommended gap
+export interface GutRestShortGap {
+  entryId: string; // Entry the gap follows
+  category: MealCategory;
+  startTime: number;
+  durationMs: number; // Until the next fast-breaking entry
+  recommendedMs: number;
+  pointsLost: number;
+}
+
+// Daily 0-100 rating of how much rest digestion got between intakes
+export interface GutRestScore {
+  score: number;
+  gapPoints: number; // Earned out of gapMaxPoints
+  gapMaxPoints: number;
+  overnightPoints: number; // Earned out of overnightMaxPoints
+  overnightMaxPoints: number; // 0 when the overnight fast couldn't be measured
+  overnightTargetHours: number;
+  shortGaps: GutRestShortGap[]; // Biggest loss first
+}
+
+// Switch of time zone between two consecutive entries
+export interface TimeZoneChange {
+  timestamp: number; // First entry logged in the new zone
+  fromOffset: number; // Minutes east of UTC
+  toOffset: number;
+  fromTimeZone?: string; // IANA names, when both entries recorded one
+  toTimeZone?: string;
 }
 
 // Time gap between meals
@@ -57,7 +288,61 @@ export interface FastingWindow {
   endTime: number; // First intake of current day
   durationMs: number;
   durationFormatted: string;
-  isIntermittentFasting: boolean; // >= 16 hours
+  isIntermittentFasting: boolean; // Meets the fasting target in force that day
+}
+
+// Fast started and stopped explicitly, independent of the day boundaries
+export interface FastingSession {
+  id: string;
+  startTime: number;
+  endTime?: number; // Unset while the fast is running
+  goalHours: number; // Target length chosen for this fast
+  source: "manual" | "backfill"; // Backfilled sessions come from meal history gaps
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields of a session that can be changed after it starts
+export type FastingSessionUpdate = Partial<
+  Pick<FastingSession, "startTime" | "endTime" | "goalHours">
+>;
+
+// Built-in fasting schedules
+export type FastingProtocolId =
+  "16_8" | "18_6" | "20_4" | "omad" | "5_2" | "adf";
+
+// Daily targets that make up a fasting protocol
+export interface FastingProtocol {
+  id: FastingProtocolId;
+  label: string; // "16:8"
+  description: string;
+  fastingHours: number; // Overnight fast target on eating days
+  eatingWindowHours: number; // Longest first-to-last meal span on eating days
+  usesFastDays: boolean; // 5:2 and ADF restrict intake on chosen weekdays
+  defaultFastDays: number[]; // Weekdays, 0 = Sunday
+}
+
+// Protocol choice in force from a given day until the next change
+export interface FastingProtocolChange {
+  id: string;
+  protocolId: FastingProtocolId | null; // null goes back to the plain fasting goal
+  fastDays: number[]; // Weekdays, 0 = Sunday; empty for daily protocols
+  effectiveDate: string; // YYYY-MM-DD, first day graded against this choice
+  createdAt: number;
+}
+
+// How a day measured up against the protocol in force on it
+export interface ProtocolDayGrade {
+  protocolId: FastingProtocolId;
+  isFastDay: boolean;
+  targetFastingHours: number;
+  targetEatingWindowHours: number;
+  mealCount: number; // Fast-breaking meals logged that day
+  eatingWindowMs: number; // First to last fast-breaking meal
+  fastingMet: boolean | null; // null without an overnight fast to measure
+  eatingWindowMet: boolean | null; // null on days with no fast-breaking meals
+  fastDayMealsMet: boolean | null; // null on eating days
+  met: boolean;
 }
 
 // Database service interface
@@ -66,21 +351,95 @@ export interface DatabaseService {
   insertMealEntry(entry: Omit<MealEntry, "id">): Promise<MealEntry>;
   updateMealEntry(id: string, updates: Partial<MealEntry>): Promise<void>;
   deleteMealEntry(id: string): Promise<void>;
+  restoreMealEntry(id: string): Promise<void>;
+  purgeMealEntry(id: string): Promise<void>;
+  getDeletedMealEntries(): Promise<MealEntry[]>;
+  purgeDeletedEntries(deletedBefore: number): Promise<number>;
+  getEntryRevisions(entryId: string): Promise<EntryRevision[]>;
+  searchMealEntries(query: string): Promise<MealEntry[]>;
+  getTags(): Promise<Tag[]>;
   getMealEntriesByDate(date: string): Promise<MealEntry[]>;
   getMealEntriesInRange(
     startDate: string,
     endDate: string
   ): Promise<MealEntry[]>;
+  getExistingEntryIds(ids: string[]): Promise<string[]>;
+  importMealEntries(entries: MealEntry[]): Promise<number>;
+  getAllMealEntries(): Promise<MealEntry[]>;
+  getFirstMealEntry(): Promise<MealEntry | null>;
+  getLatestMealEntry(breaksFastOnly?: boolean): Promise<MealEntry | null>;
+  restoreBackup(
+    entries: MealEntry[],
+    categories: CategoryDefinition[],
+    fastingSessions: FastingSession[],
+    protocolHistory: FastingProtocolChange[],
+    mode: RestoreMode
+  ): Promise<void>;
+
+  // Fasting sessions
+  getActiveFastingSession(): Promise<FastingSession | null>;
+  getFastingSessions(limit?: number): Promise<FastingSession[]>;
+  startFastingSession(
+    goalHours: number,
+    startTime?: number
+  ): Promise<FastingSession>;
+  updateFastingSession(
+    id: string,
+    updates: FastingSessionUpdate
+  ): Promise<FastingSession>;
+  deleteFastingSession(id: string): Promise<void>;
+  backfillFastingSessions(
+    minFastHours: number,
+    goalHours: number
+  ): Promise<number>;
+  getFastingProtocolHistory(): Promise<FastingProtocolChange[]>;
+  setFastingProtocol(
+    protocolId: FastingProtocolId | null,
+    fastDays: number[],
+    effectiveDate: string
+  ): Promise<FastingProtocolChange>;
+
+  // Categories
+  getCategories(): Promise<CategoryDefinition[]>;
+  insertCategory(input: CategoryInput): Promise<CategoryDefinition>;
+  updateCategory(id: string, updates: Partial<CategoryInput>): Promise<void>;
+  setCategoryArchived(id: string, archived: boolean): Promise<void>;
+  reorderCategories(orderedIds: string[]): Promise<void>;
 
   // Analytics queries
-  getDailySummary(date: string): Promise<DailySummary>;
-  getWeeklySummaries(startDate: string): Promise<DailySummary[]>;
+  getDailySummary(
+    date: string,
+    fastingGoalHours?: number
+  ): Promise<DailySummary>;
+  getWeeklySummaries(
+    startDate: string,
+    fastingGoalHours?: number
+  ): Promise<DailySummary[]>;
+  getDailySummariesInRange(
+    startDate: string,
+    endDate: string,
+    fastingGoalHours?: number
+  ): Promise<DailySummary[]>;
 
   // Database lifecycle
   initialize(): Promise<void>;
   close(): Promise<void>;
 }
 
+// Schema migration state for the debug screen
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "failed";
+  error?: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  migrations: MigrationStatus[];
+}
+
 // Storage service interface for user preferences
 export interface StorageService {
   // Settings management
@@ -90,12 +449,62 @@ export interface StorageService {
   clearAll(): Promise<void>;
 }
 
+// Part of the day a meal belongs to, by the hour it was eaten
+export type MealSlot = "breakfast" | "lunch" | "dinner";
+
+// Saved quick-add preset
+export interface MealTemplate {
+  id: string;
+  name: string;
+  category: MealCategory;
+  notes?: string;
+  tags: string[];
+  timeOffsetMinutes?: number; // Logged this long before now, when set
+  createdAt: number;
+}
+
+// Locally scheduled reminders
+export type ReminderKind =
+  | "fasting_goal" // Running fast reaches its goal
+  | "meal_gap" // Recommended gap after a substantial meal has passed
+  | "eating_window" // Eating window is about to close
+  | "logging"; // Nothing logged for a while
+
+export interface NotificationPreferences {
+  reminders: Record<ReminderKind, boolean>;
+  quietHoursEnabled: boolean;
+  quietHoursStart: number; // Hour (0-23) quiet hours begin
+  quietHoursEnd: number; // Hour (0-23) quiet hours end
+  loggingReminderHours: number; // Hours without an entry before a nudge
+}
+
+// What the reminder planner needs to know about the day
+export interface ReminderPlanInput {
+  lastEntry: MealEntry | null; // Latest entry of any category
+  lastMeal: MealEntry | null; // Latest fast-breaking entry
+  firstMealToday: MealEntry | null;
+  activeSession: FastingSession | null;
+  eatingWindowHours: number; // 0 on fast days
+  preferences: NotificationPreferences;
+}
+
+export interface PlannedReminder {
+  kind: ReminderKind;
+  fireAt: number;
+  title: string;
+  body: string;
+}
+
 // App settings structure
 export interface AppSettings {
   theme: "light" | "dark" | "system";
-  notifications: boolean;
+  notifications: boolean; // Master switch for every reminder
+  notificationPreferences: NotificationPreferences;
   defaultMealCategory: MealCategory;
   fastingGoalHours: number;
+  dayStartHour: number; // Hour (0-23) when a new day begins, for late-night eaters
+  streakGraceDays: number; // Missed days per week a streak survives
+  trashRetentionDays: number; // Deleted entries are purged after this many days
   firstLaunch: boolean;
   onboardingCompleted: boolean;
 }
@@ -124,6 +533,7 @@ export interface SettingsContextType {
   settings: AppSettings;
   updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
   resetSettings: () => Promise<void>;
+  refreshSettings: () => Promise<void>; // Reload after settings change outside the context, e.g. a restore
   isLoading: boolean;
 }
 
@@ -133,10 +543,72 @@ export interface DailyStats {
   longestGap: TimeGap | null;
   averageGap: number;
   totalGaps: number;
-  fastingStreak: number;
+  fastingStreak: number; // Current fasting streak in days, 0 when not known
   totalIntakeToday: number;
 }
 
+// Averages over a period of daily summaries
+export interface EatingPatternAnalysis {
+  averageEatingWindow: number; // Milliseconds, days with 2+ entries
+  averageEatingWindowFormatted: string;
+  averageMealsPerDay: number;
+  averageFastingHours: number; // Days with a measurable overnight fast
+  intermittentFastingDays: number;
+  intermittentFastingPercentage: number; // Share of analyzed days, 0-100
+  consistencyScore: number; // 0-100, higher when meal counts vary less
+  averageGutRestScore: number | null; // 0-100 over days that have a score, null when none do
+  totalDaysAnalyzed: number;
+}
+
+// A period's patterns next to the period of the same length before it
+export interface PeriodComparison {
+  current: EatingPatternAnalysis;
+  previous: EatingPatternAnalysis;
+  periodDays: number;
+}
+
+// Period shown by the insights card
+export type InsightsRangePreset = "7d" | "30d" | "90d" | "custom";
+
+export interface InsightsRange {
+  preset: InsightsRangePreset;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+// Habits tracked as multi-day streaks
+export type StreakType = "fasting" | "eating_window" | "logging";
+
+// How a day counted toward a streak
+export type StreakDayStatus =
+  | "met"
+  | "grace" // Missed, but forgiven by the grace rule
+  | "missed"
+  | "pending"; // Today, while it can still be met
+
+// Which habits a single day met
+export interface StreakDayOutcome {
+  date: string; // YYYY-MM-DD
+  fasting: boolean;
+  eating_window: boolean;
+  logging: boolean;
+}
+
+// Current and longest run of days meeting one habit
+export interface StreakResult {
+  type: StreakType;
+  current: number; // Met days in the running streak; grace days keep it alive without adding to it
+  longest: number;
+  graceDaysUsed: number; // Grace days inside the running streak
+  days: Record<string, StreakDayStatus>; // Keyed by YYYY-MM-DD, from the first logged day
+}
+
+// Missed days a streak survives within a rolling window
+export interface StreakGraceRule {
+  missedDays: number;
+  periodDays: number;
+}
+
 // Error types for better error handling
 export interface AppError {
   code: string;
@@ -174,6 +646,6 @@ export type RootStackParamList = {
 
 // Theme colors for meal categories
 export interface MealThemeColors {
-  light: Record<MealCategory, string>;
-  dark: Record<MealCategory, string>;
+  light: Record<BuiltInMealCategory, string>;
+  dark: Record<BuiltInMealCategory, string>;
 }